@@ -0,0 +1,112 @@
+import Fastify, { FastifyServerOptions } from 'fastify';
+import cors from '@fastify/cors';
+import rateLimit from '@fastify/rate-limit';
+import multipart from '@fastify/multipart';
+
+import authPlugin from './plugins/auth';
+import blocksPlugin from './plugins/blocks';
+import realtimePlugin from './plugins/realtime';
+import spatialPlugin from './plugins/spatial';
+import swaggerPlugin from './plugins/swagger';
+import { TokenVerifier } from './lib/auth';
+import { Repositories } from './repositories/types';
+
+// Import routes
+import { uploadRoutes } from './routes/upload';
+import { profileRoutes } from './routes/profile';
+import { locationRoutes } from './routes/location';
+import { presenceRoutes } from './routes/presence';
+import { conversationRoutes } from './routes/conversation';
+import { groupRoutes } from './routes/group';
+import { messageRoutes } from './routes/message';
+import { blockRoutes } from './routes/block';
+import { reportRoutes } from './routes/report';
+import { adminRoutes } from './routes/admin';
+import { accountRoutes } from './routes/account';
+import { nearbyRoutes } from './routes/nearby';
+import { encounterRoutes } from './routes/encounter';
+import { venueRoutes } from './routes/venue';
+import { cleanupRoutes } from './routes/cleanup';
+import { realtimeRoutes } from './routes/realtime';
+
+export interface BuildAppOptions {
+  repos: Repositories;
+  // Defaults to verifying with JWT_SECRET / JWT_JWKS_URL from the environment
+  verifier?: TokenVerifier;
+  logger?: FastifyServerOptions['logger'];
+}
+
+// Builds a fully configured instance without listening, so it can be driven with fastify.inject
+export async function buildApp(options: BuildAppOptions) {
+  const fastify = Fastify({
+    logger: options.logger ?? {
+      level: process.env.LOG_LEVEL || 'info',
+      transport: process.env.NODE_ENV === 'development'
+        ? { target: 'pino-pretty', options: { colorize: true } }
+        : undefined
+    }
+  });
+
+  fastify.decorate('repos', options.repos);
+
+  // Register CORS
+  await fastify.register(cors, {
+    origin: process.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000'],
+    credentials: true,
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS', 'HEAD'],
+    allowedHeaders: ['Content-Type', 'Authorization']
+  });
+
+  // Register rate limiting
+  await fastify.register(rateLimit, {
+    max: 100,
+    timeWindow: '1 minute'
+  });
+
+  // Register multipart support
+  await fastify.register(multipart, {
+    limits: {
+      fileSize: 5 * 1024 * 1024 // 5MB
+    }
+  });
+
+  // Register OpenAPI docs (must come before the routes it documents)
+  await fastify.register(swaggerPlugin);
+
+  // Register WebSocket support and the realtime event hub
+  await fastify.register(realtimePlugin);
+
+  // Register the in-process spatial index and location fuzzing behind /users/nearby
+  await fastify.register(spatialPlugin);
+
+  // Register auth (routes opt in with config.auth)
+  await fastify.register(authPlugin, { verifier: options.verifier });
+
+  // Register the per-request block service
+  await fastify.register(blocksPlugin);
+
+  // Health check
+  fastify.get('/health', async () => {
+    return { status: 'ok', timestamp: new Date().toISOString() };
+  });
+
+  // Register routes
+  await fastify.register(uploadRoutes, { prefix: '/api' });
+  await fastify.register(profileRoutes, { prefix: '/api' });
+  await fastify.register(locationRoutes, { prefix: '/api' });
+  await fastify.register(presenceRoutes, { prefix: '/api' });
+  await fastify.register(conversationRoutes, { prefix: '/api' });
+  await fastify.register(groupRoutes, { prefix: '/api' });
+  await fastify.register(messageRoutes, { prefix: '/api' });
+  await fastify.register(blockRoutes, { prefix: '/api' });
+  await fastify.register(reportRoutes, { prefix: '/api' });
+  await fastify.register(accountRoutes, { prefix: '/api' });
+  await fastify.register(nearbyRoutes, { prefix: '/api' });
+  await fastify.register(encounterRoutes, { prefix: '/api' });
+  await fastify.register(venueRoutes, { prefix: '/api' });
+  await fastify.register(cleanupRoutes, { prefix: '/api' });
+  await fastify.register(realtimeRoutes, { prefix: '/api' });
+  await fastify.register(adminRoutes, { prefix: '/api/admin' });
+
+  return fastify;
+}
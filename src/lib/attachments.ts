@@ -0,0 +1,101 @@
+import { FastifyInstance } from 'fastify';
+import { AttachmentRow } from '../repositories/types';
+
+// Private bucket: objects are only reachable through signed URLs
+export const ATTACHMENTS_BUCKET = 'attachments';
+
+export const ALLOWED_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+
+// Lifetime of a signed download URL
+export const DOWNLOAD_URL_TTL_SECONDS = 5 * 60;
+
+// How long an uploaded attachment may wait to be sent before cleanup removes it
+export const PENDING_ATTACHMENT_TTL_MS = 60 * 60 * 1000;
+
+export interface SignedAttachment {
+  id: string;
+  content_type: string;
+  url: string;
+  expires_at: string;
+}
+
+// Signed download URLs grouped by message; null when signing failed (already logged)
+export async function signAttachments(
+  fastify: FastifyInstance,
+  attachments: AttachmentRow[]
+): Promise<Map<string, SignedAttachment[]> | null> {
+  const byMessage = new Map<string, SignedAttachment[]>();
+  if (attachments.length === 0) {
+    return byMessage;
+  }
+
+  const { data: urls, error } = await fastify.repos.storage.createSignedUrls(
+    ATTACHMENTS_BUCKET,
+    attachments.map(a => a.storage_path),
+    DOWNLOAD_URL_TTL_SECONDS
+  );
+
+  if (error) {
+    fastify.log.error({ err: error }, 'Error signing attachment URLs');
+    return null;
+  }
+
+  const expiresAt = new Date(Date.now() + DOWNLOAD_URL_TTL_SECONDS * 1000).toISOString();
+
+  attachments.forEach((attachment, index) => {
+    if (!attachment.message_id) {
+      return;
+    }
+    const list = byMessage.get(attachment.message_id) || [];
+    list.push({
+      id: attachment.id,
+      content_type: attachment.content_type,
+      url: urls[index],
+      expires_at: expiresAt
+    });
+    byMessage.set(attachment.message_id, list);
+  });
+
+  return byMessage;
+}
+
+// Removes the stored objects, then the records; returns how many were deleted
+export async function deleteAttachments(fastify: FastifyInstance, attachments: AttachmentRow[]): Promise<number> {
+  if (attachments.length === 0) {
+    return 0;
+  }
+
+  const { error: storageError } = await fastify.repos.storage.remove(
+    ATTACHMENTS_BUCKET,
+    attachments.map(a => a.storage_path)
+  );
+
+  // Keep the records so a later cleanup run can retry the objects
+  if (storageError) {
+    fastify.log.error({ err: storageError }, 'Error deleting attachment objects');
+    return 0;
+  }
+
+  const { error } = await fastify.repos.attachments.deleteMany(attachments.map(a => a.id));
+
+  if (error) {
+    fastify.log.error({ err: error }, 'Error deleting attachment records');
+    return 0;
+  }
+
+  return attachments.length;
+}
+
+// Deletes every attachment of a conversation, e.g. when it is terminated
+export async function deleteConversationAttachments(fastify: FastifyInstance, conversationId: string) {
+  const { data: attachments, error } = await fastify.repos.attachments.listByConversation(conversationId);
+
+  if (error) {
+    fastify.log.error({ err: error }, 'Error fetching conversation attachments');
+    return;
+  }
+
+  await deleteAttachments(fastify, attachments);
+}
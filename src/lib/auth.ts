@@ -0,0 +1,121 @@
+import { createRemoteJWKSet, jwtVerify, JWTPayload, JWTVerifyGetKey } from 'jose';
+import 'dotenv/config';
+
+export interface AuthUser {
+  userId: string;
+  email?: string;
+  role?: string;
+  // From app_metadata.role, which only the service role can set (user_metadata is user-editable)
+  isAdmin: boolean;
+}
+
+export interface TokenVerifierOptions {
+  // Shared HS256 secret (Supabase "JWT Secret")
+  secret?: string;
+  // JWKS endpoint for projects using asymmetric signing keys
+  jwksUrl?: string;
+  issuer?: string;
+  audience?: string;
+  // How long a verified token is remembered, capped by its own expiry
+  cacheTtlMs?: number;
+  cacheMaxEntries?: number;
+}
+
+export type TokenVerifier = (token: string) => Promise<AuthUser | null>;
+
+interface CachedToken {
+  user: AuthUser;
+  expiresAt: number;
+}
+
+// Verifies Supabase access tokens locally instead of calling auth.getUser() per request
+export function createTokenVerifier(options: TokenVerifierOptions): TokenVerifier {
+  const { secret, jwksUrl, issuer, audience } = options;
+  const cacheTtlMs = options.cacheTtlMs ?? 30 * 1000;
+  const cacheMaxEntries = options.cacheMaxEntries ?? 10000;
+
+  let key: Uint8Array | JWTVerifyGetKey;
+  let algorithms: string[] | undefined;
+
+  if (jwksUrl) {
+    key = createRemoteJWKSet(new URL(jwksUrl), {
+      cacheMaxAge: 10 * 60 * 1000,
+      cooldownDuration: 30 * 1000
+    });
+  } else if (secret) {
+    key = new TextEncoder().encode(secret);
+    algorithms = ['HS256'];
+  } else {
+    throw new Error('Missing JWT_SECRET or JWT_JWKS_URL for token verification');
+  }
+
+  const cache = new Map<string, CachedToken>();
+
+  const remember = (token: string, user: AuthUser, payload: JWTPayload) => {
+    if (cacheTtlMs <= 0) {
+      return;
+    }
+
+    let expiresAt = Date.now() + cacheTtlMs;
+    if (payload.exp) {
+      expiresAt = Math.min(expiresAt, payload.exp * 1000);
+    }
+
+    // Map keeps insertion order, so the first key is the oldest entry
+    if (cache.size >= cacheMaxEntries) {
+      const oldest = cache.keys().next().value;
+      if (oldest !== undefined) {
+        cache.delete(oldest);
+      }
+    }
+
+    cache.set(token, { user, expiresAt });
+  };
+
+  return async (token: string) => {
+    const cached = cache.get(token);
+    if (cached) {
+      if (cached.expiresAt > Date.now()) {
+        return cached.user;
+      }
+      cache.delete(token);
+    }
+
+    try {
+      const { payload } = typeof key === 'function'
+        ? await jwtVerify(token, key, { issuer, audience })
+        : await jwtVerify(token, key, { issuer, audience, algorithms });
+
+      if (!payload.sub) {
+        return null;
+      }
+
+      const user: AuthUser = {
+        userId: payload.sub,
+        email: typeof payload.email === 'string' ? payload.email : undefined,
+        role: typeof payload.role === 'string' ? payload.role : undefined,
+        isAdmin: (payload.app_metadata as { role?: unknown } | undefined)?.role === 'admin'
+      };
+
+      remember(token, user, payload);
+      return user;
+    } catch {
+      return null;
+    }
+  };
+}
+
+// Builds a verifier from the environment (see .env.example)
+export function createTokenVerifierFromEnv(): TokenVerifier {
+  const supabaseUrl = process.env.SUPABASE_URL;
+
+  return createTokenVerifier({
+    secret: process.env.JWT_SECRET,
+    jwksUrl: process.env.JWT_JWKS_URL,
+    issuer: process.env.JWT_ISSUER || (supabaseUrl ? `${supabaseUrl}/auth/v1` : undefined),
+    audience: process.env.JWT_AUDIENCE || 'authenticated',
+    cacheTtlMs: process.env.AUTH_CACHE_TTL_MS
+      ? parseInt(process.env.AUTH_CACHE_TTL_MS, 10)
+      : undefined
+  });
+}
@@ -0,0 +1,107 @@
+import { FastifyInstance } from 'fastify';
+import { BlocksRepo, RepoResult } from '../repositories/types';
+import { setDirectConversationsFrozen } from './conversations';
+import { endSharingBetween } from './locations';
+import { presenceChannel, revokeChannel } from './realtime';
+
+// Access checks treat a block as symmetric: a block in either direction separates two users.
+// A service lives for one request, so repeated checks share a single lookup per user.
+export interface BlockService {
+  // Users separated from `userId` by a block
+  blockedIds(userId: string): Promise<RepoResult<Set<string>>>;
+  isBlocked(userId: string, otherId: string): Promise<RepoResult<boolean>>;
+  // First of `otherIds` separated from any of `userIds`, or null; looked up in one query
+  findBlocked(userIds: string[], otherIds: string[]): Promise<RepoResult<string | null>>;
+  // Drops cached relationships after a block is created or removed
+  forget(userIds: string[]): void;
+}
+
+export function createBlockService(repo: BlocksRepo): BlockService {
+  const cache = new Map<string, Set<string>>();
+
+  const load = async (userIds: string[]): Promise<RepoResult<null>> => {
+    const missing = [...new Set(userIds)].filter(id => !cache.has(id));
+    if (missing.length === 0) {
+      return { data: null, error: null };
+    }
+
+    const { data: blocks, error } = await repo.listInvolving(missing);
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    missing.forEach(id => cache.set(id, new Set()));
+    blocks.forEach(block => {
+      cache.get(block.blocker_id)?.add(block.blocked_id);
+      cache.get(block.blocked_id)?.add(block.blocker_id);
+    });
+
+    return { data: null, error: null };
+  };
+
+  const blockedIds = async (userId: string): Promise<RepoResult<Set<string>>> => {
+    const { error } = await load([userId]);
+    return error ? { data: null, error } : { data: cache.get(userId)!, error: null };
+  };
+
+  return {
+    blockedIds,
+
+    async isBlocked(userId, otherId) {
+      // Either side's relationships answer the question; reuse whichever is cached
+      const [subject, target] = cache.has(otherId) ? [otherId, userId] : [userId, otherId];
+      const { data: blocked, error } = await blockedIds(subject);
+      if (error) {
+        return { data: null, error };
+      }
+      return { data: blocked.has(target), error: null };
+    },
+
+    async findBlocked(userIds, otherIds) {
+      const { error } = await load(otherIds);
+      if (error) {
+        return { data: null, error };
+      }
+      const found = otherIds.find(otherId => userIds.some(userId => cache.get(otherId)!.has(userId)));
+      return { data: found ?? null, error: null };
+    },
+
+    forget(userIds) {
+      userIds.forEach(id => cache.delete(id));
+    }
+  };
+}
+
+// Creates the block unless it already exists, freezes the pair's one-to-one conversations and
+// drops their open subscriptions to each other's presence
+export async function blockUser(
+  fastify: FastifyInstance,
+  blocks: BlockService,
+  blockerId: string,
+  blockedId: string
+): Promise<RepoResult<null>> {
+  const { data: existing, error: findError } = await fastify.repos.blocks.find(blockerId, blockedId);
+
+  if (findError) {
+    return { data: null, error: findError };
+  }
+
+  if (!existing) {
+    const { error } = await fastify.repos.blocks.create(blockerId, blockedId);
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    blocks.forget([blockerId, blockedId]);
+  }
+
+  await setDirectConversationsFrozen(fastify, blockerId, blockedId, true);
+  await endSharingBetween(fastify, blockerId, blockedId);
+
+  revokeChannel(fastify.realtime, blockerId, presenceChannel(blockedId));
+  revokeChannel(fastify.realtime, blockedId, presenceChannel(blockerId));
+
+  return { data: null, error: null };
+}
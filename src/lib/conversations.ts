@@ -0,0 +1,181 @@
+import { FastifyInstance } from 'fastify';
+import { ConversationRow, RepoResult } from '../repositories/types';
+import { deleteConversationAttachments } from './attachments';
+import { userChannel } from './realtime';
+
+export type DisappearingTimer = 'off' | '1h' | '24h' | '7d';
+
+// Timer choices in seconds (null = messages do not disappear)
+export const DISAPPEARING_TIMERS: Record<DisappearingTimer, number | null> = {
+  off: null,
+  '1h': 60 * 60,
+  '24h': 24 * 60 * 60,
+  '7d': 7 * 24 * 60 * 60
+};
+
+// When a message sent now disappears under the conversation's current timer
+export function messageExpiry(conversation: ConversationRow | null, createdAt: string): string | null {
+  if (!conversation?.message_ttl_seconds) {
+    return null;
+  }
+  return new Date(Date.parse(createdAt) + conversation.message_ttl_seconds * 1000).toISOString();
+}
+
+// Push to every participant's own channel, so clients need no per-conversation subscription
+export async function publishToParticipants(
+  fastify: FastifyInstance,
+  conversationId: string,
+  event: string,
+  data: unknown
+) {
+  const { data: participants, error } = await fastify.repos.conversations.listParticipants(conversationId);
+
+  if (error) {
+    fastify.log.error({ err: error }, 'Error loading participants for realtime event');
+    return;
+  }
+
+  participants.forEach(p => fastify.realtime.publish(userChannel(p.user_id), event, data));
+}
+
+// Ends a conversation for everyone: its attachments, messages and live-location sessions go
+// before it is marked terminated. Only a failure to terminate is returned; other errors are logged.
+export async function terminateConversation(
+  fastify: FastifyInstance,
+  conversationId: string
+): Promise<RepoResult<null>> {
+  await deleteConversationAttachments(fastify, conversationId);
+
+  const { error: msgError } = await fastify.repos.conversations.deleteMessages(conversationId);
+
+  if (msgError) {
+    fastify.log.error({ err: msgError }, 'Error deleting messages');
+  }
+
+  // Live-location sessions end with the conversation
+  const { error: shareError } = await fastify.repos.locationShares.revokeByConversation(conversationId);
+
+  if (shareError) {
+    fastify.log.error({ err: shareError }, 'Error ending live locations');
+  }
+
+  return fastify.repos.conversations.terminate(conversationId);
+}
+
+// Active conversations, one-to-one or group, that both users take part in
+export async function listSharedConversations(
+  fastify: FastifyInstance,
+  userA: string,
+  userB: string
+): Promise<RepoResult<ConversationRow[]>> {
+  const { data: participations, error } = await fastify.repos.conversations.listParticipationsOf([userA, userB]);
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  // Conversations both users take part in
+  const counts = new Map<string, number>();
+  participations.forEach(p => counts.set(p.conversation_id, (counts.get(p.conversation_id) || 0) + 1));
+  const sharedIds = [...counts].filter(([, count]) => count === 2).map(([conversationId]) => conversationId);
+
+  if (sharedIds.length === 0) {
+    return { data: [], error: null };
+  }
+
+  const { data: conversations, error: convError } = await fastify.repos.conversations.findByIds(sharedIds);
+
+  if (convError) {
+    return { data: null, error: convError };
+  }
+
+  return { data: conversations.filter(c => !c.is_terminated), error: null };
+}
+
+// Active one-to-one conversations between two users
+export async function listDirectConversations(
+  fastify: FastifyInstance,
+  userA: string,
+  userB: string
+): Promise<RepoResult<ConversationRow[]>> {
+  const { data, error } = await listSharedConversations(fastify, userA, userB);
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  return { data: data.filter(c => !c.is_group), error: null };
+}
+
+// First of `otherIds` that has no accepted, unfrozen one-to-one conversation with `userId`, or
+// null. Groups skip the message-request gate, so only such contacts can be put in one.
+export async function findUnconnected(
+  fastify: FastifyInstance,
+  userId: string,
+  otherIds: string[]
+): Promise<RepoResult<string | null>> {
+  if (otherIds.length === 0) {
+    return { data: null, error: null };
+  }
+
+  const { data: participations, error } = await fastify.repos.conversations.listParticipationsOf([userId, ...otherIds]);
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  const own = new Set(participations.filter(p => p.user_id === userId).map(p => p.conversation_id));
+  const shared = participations.filter(p => p.user_id !== userId && own.has(p.conversation_id));
+  const sharedIds = [...new Set(shared.map(p => p.conversation_id))];
+
+  const { data: conversations, error: convError } = sharedIds.length > 0
+    ? await fastify.repos.conversations.findByIds(sharedIds)
+    : { data: [], error: null };
+
+  if (convError) {
+    return { data: null, error: convError };
+  }
+
+  const acceptedIds = new Set(conversations
+    .filter(c => !c.is_group && !c.is_terminated && c.request_status === 'accepted' && !c.frozen_at)
+    .map(c => c.id));
+  const connected = new Set(shared.filter(p => acceptedIds.has(p.conversation_id)).map(p => p.user_id));
+
+  return { data: otherIds.find(otherId => !connected.has(otherId)) ?? null, error: null };
+}
+
+// Freezes (or unfreezes) the one-to-one conversations of two users and tells the participants.
+// Group conversations are left alone. Failures are logged.
+export async function setDirectConversationsFrozen(
+  fastify: FastifyInstance,
+  userA: string,
+  userB: string,
+  frozen: boolean
+) {
+  const { data: conversations, error } = await listDirectConversations(fastify, userA, userB);
+
+  if (error) {
+    fastify.log.error({ err: error }, 'Error loading shared conversations');
+    return;
+  }
+
+  const frozenAt = frozen ? new Date().toISOString() : null;
+
+  for (const conversation of conversations) {
+    if (!!conversation.frozen_at === frozen) {
+      continue;
+    }
+
+    const { error: updateError } = await fastify.repos.conversations.update(conversation.id, { frozen_at: frozenAt });
+
+    if (updateError) {
+      fastify.log.error({ err: updateError }, 'Error updating conversation freeze');
+      continue;
+    }
+
+    await publishToParticipants(fastify, conversation.id, frozen ? 'conversation.frozen' : 'conversation.unfrozen', {
+      conversationId: conversation.id,
+      frozenAt
+    });
+  }
+}
@@ -0,0 +1,238 @@
+import { FastifyInstance } from 'fastify';
+import { EncounterRow, EncounterUpsert, LocationRow, RepoResult } from '../repositories/types';
+import { snapToCell } from './privacy';
+import { haversineKm } from './spatial';
+
+const KM_PER_DEGREE = 111.2;
+
+// Crossing paths again within this long of the last time is the same encounter, so
+// overlapping scans never count one meeting twice
+const ENCOUNTER_COOLDOWN_MS = 60 * 60 * 1000;
+
+// Stored times are rounded down to this, like the place is snapped to a coarse cell
+const TIME_BUCKET_MS = 15 * 60 * 1000;
+
+export interface EncounterSettings {
+  distanceMeters: number;
+  windowMinutes: number;
+  lookbackMinutes: number;
+}
+
+// Read on each run; defaults count two users within 50 m of each other within 5 minutes,
+// looking back over the last 30 minutes of fixes
+export function encounterSettingsFromEnv(): EncounterSettings | { error: string } {
+  const read = (name: string, fallback: number) => process.env[name] ? Number(process.env[name]) : fallback;
+
+  const settings = {
+    distanceMeters: read('ENCOUNTER_DISTANCE_METERS', 50),
+    windowMinutes: read('ENCOUNTER_WINDOW_MINUTES', 5),
+    lookbackMinutes: read('ENCOUNTER_LOOKBACK_MINUTES', 30)
+  };
+
+  if (Object.values(settings).some(value => !Number.isFinite(value) || value <= 0)) {
+    return { error: 'Encounter settings must be positive numbers' };
+  }
+
+  return settings;
+}
+
+export interface Crossing {
+  userA: string;
+  userB: string;
+  latitude: number;
+  longitude: number;
+  crossedAt: string;
+}
+
+// Pairs of users with fixes within `distanceKm` and `windowMs` of each other, the earliest
+// crossing per pair, with userA < userB. Fixes are bucketed by time window and by a grid
+// at least `distanceKm` wide, so each fix is only compared with its neighbouring buckets.
+export function findCrossings(fixes: LocationRow[], distanceKm: number, windowMs: number): Crossing[] {
+  const cell = distanceKm / KM_PER_DEGREE;
+  const columns = Math.ceil(360 / cell);
+
+  const keyOf = (window: number, row: number, column: number) =>
+    `${window}:${row}:${(((column % columns) + columns) % columns)}`;
+
+  const points = fixes.map(f => ({
+    userId: f.user_id,
+    latitude: Number(f.latitude),
+    longitude: Number(f.longitude),
+    time: Date.parse(f.recorded_at),
+    recordedAt: f.recorded_at
+  }));
+
+  const buckets = new Map<string, typeof points>();
+  for (const point of points) {
+    const key = keyOf(
+      Math.floor(point.time / windowMs),
+      Math.floor((point.latitude + 90) / cell),
+      Math.floor((point.longitude + 180) / cell)
+    );
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.push(point);
+    } else {
+      buckets.set(key, [point]);
+    }
+  }
+
+  const earliest = new Map<string, Crossing>();
+
+  for (const point of points) {
+    const window = Math.floor(point.time / windowMs);
+    const row = Math.floor((point.latitude + 90) / cell);
+    const column = Math.floor((point.longitude + 180) / cell);
+
+    // A degree of longitude shrinks towards the poles, so more columns can be in reach
+    const widest = Math.min(89.9, Math.abs(point.latitude) + cell);
+    const span = Math.min(columns, Math.ceil(1 / Math.cos(widest * Math.PI / 180)));
+
+    for (let w = window - 1; w <= window + 1; w++) {
+      for (let r = row - 1; r <= row + 1; r++) {
+        for (let c = column - span; c <= column + span; c++) {
+          buckets.get(keyOf(w, r, c))?.forEach(other => {
+            // Each pair is seen from both sides; handle it from the lower id only
+            if (other.userId <= point.userId || Math.abs(other.time - point.time) > windowMs) {
+              return;
+            }
+
+            if (haversineKm(point.latitude, point.longitude, other.latitude, other.longitude) > distanceKm) {
+              return;
+            }
+
+            const crossedAt = point.time <= other.time ? point.recordedAt : other.recordedAt;
+            const key = `${point.userId}:${other.userId}`;
+            const current = earliest.get(key);
+            if (!current || Date.parse(crossedAt) < Date.parse(current.crossedAt)) {
+              earliest.set(key, {
+                userA: point.userId,
+                userB: other.userId,
+                latitude: (point.latitude + other.latitude) / 2,
+                longitude: (point.longitude + other.longitude) / 2,
+                crossedAt
+              });
+            }
+          });
+        }
+      }
+    }
+  }
+
+  return [...earliest.values()];
+}
+
+export interface EncounterScan {
+  fixes: number;
+  recorded: number;
+}
+
+const roundTime = (iso: string) => new Date(Math.floor(Date.parse(iso) / TIME_BUCKET_MS) * TIME_BUCKET_MS).toISOString();
+
+// Scans recent fixes for users who crossed paths and records them. Users who opted out,
+// are flagged for implausible fixes or banned take no part, and blocked pairs are skipped
+// like in nearby. Only the coarse cell and a rounded time are stored.
+export async function recordEncounters(
+  fastify: FastifyInstance,
+  settings: EncounterSettings,
+  now = Date.now()
+): Promise<RepoResult<EncounterScan>> {
+  const since = new Date(now - settings.lookbackMinutes * 60 * 1000).toISOString();
+  const { data: fixes, error } = await fastify.repos.locations.listSince(since);
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  const userIds = [...new Set(fixes.map(f => f.user_id))];
+  if (userIds.length < 2) {
+    return { data: { fixes: fixes.length, recorded: 0 }, error: null };
+  }
+
+  const { data: users, error: usersError } = await fastify.repos.users.findByIds(userIds);
+
+  if (usersError) {
+    return { data: null, error: usersError };
+  }
+
+  const { data: bans, error: bansError } = await fastify.repos.sanctions.listActive(userIds, ['ban']);
+
+  if (bansError) {
+    return { data: null, error: bansError };
+  }
+
+  const bannedUserIds = new Set(bans.map(b => b.user_id));
+  const taking = new Set(users
+    .filter(u =>
+      u.encounters_enabled &&
+      !bannedUserIds.has(u.id) &&
+      !(u.location_flagged_until && Date.parse(u.location_flagged_until) > now)
+    )
+    .map(u => u.id));
+
+  const crossings = findCrossings(
+    fixes.filter(f => taking.has(f.user_id)),
+    settings.distanceMeters / 1000,
+    settings.windowMinutes * 60 * 1000
+  );
+
+  if (crossings.length === 0) {
+    return { data: { fixes: fixes.length, recorded: 0 }, error: null };
+  }
+
+  const { data: blocks, error: blocksError } = await fastify.repos.blocks.listInvolving(
+    [...new Set(crossings.flatMap(c => [c.userA, c.userB]))]
+  );
+
+  if (blocksError) {
+    return { data: null, error: blocksError };
+  }
+
+  const blockedPairs = new Set(blocks.flatMap(b => [`${b.blocker_id}:${b.blocked_id}`, `${b.blocked_id}:${b.blocker_id}`]));
+  const allowed = crossings.filter(c => !blockedPairs.has(`${c.userA}:${c.userB}`));
+
+  if (allowed.length === 0) {
+    return { data: { fixes: fixes.length, recorded: 0 }, error: null };
+  }
+
+  const { data: existing, error: existingError } = await fastify.repos.encounters.findByPairs(
+    allowed.map(c => [c.userA, c.userB])
+  );
+
+  if (existingError) {
+    return { data: null, error: existingError };
+  }
+
+  const previous = new Map<string, EncounterRow>(existing.map(e => [`${e.user_a}:${e.user_b}`, e]));
+
+  const encounters: EncounterUpsert[] = [];
+  for (const crossing of allowed) {
+    const place = snapToCell(crossing, 'coarse');
+    const crossedAt = roundTime(crossing.crossedAt);
+    const before = previous.get(`${crossing.userA}:${crossing.userB}`);
+
+    if (before && Date.parse(crossing.crossedAt) < Date.parse(before.last_crossed_at) + ENCOUNTER_COOLDOWN_MS) {
+      continue;
+    }
+
+    encounters.push({
+      user_a: crossing.userA,
+      user_b: crossing.userB,
+      times_crossed: (before?.times_crossed ?? 0) + 1,
+      first_crossed_at: before?.first_crossed_at ?? crossedAt,
+      last_crossed_at: crossedAt,
+      latitude: place.latitude,
+      longitude: place.longitude
+    });
+  }
+
+  if (encounters.length > 0) {
+    const { error: upsertError } = await fastify.repos.encounters.upsertMany(encounters);
+
+    if (upsertError) {
+      return { data: null, error: upsertError };
+    }
+  }
+
+  return { data: { fixes: fixes.length, recorded: encounters.length }, error: null };
+}
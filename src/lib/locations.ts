@@ -0,0 +1,274 @@
+import { FastifyInstance } from 'fastify';
+import { LocationFlagReason, LocationPrunePolicy, LocationRow, RepoResult, UserRow } from '../repositories/types';
+import { listDirectConversations, publishToParticipants } from './conversations';
+import { haversineKm } from './spatial';
+
+// Faster than an airliner between two fixes is treated as a spoofed jump
+const MAX_SPEED_KMH = 1200;
+
+// GPS jitter can move a fix this far between two readings taken at the same moment
+const JITTER_KM = 1;
+
+// Device clocks run a little ahead of the server
+const CLOCK_SKEW_MS = 60 * 1000;
+
+// How long a user stays out of nearby after sending an implausible fix
+export const LOCATION_FLAG_MS = 15 * 60 * 1000;
+
+// How far apart two users may be for `nearby` visibility; the largest nearby search radius
+const NEARBY_VISIBILITY_KM = 5;
+
+// How old a viewer's own fix may be to count as being nearby
+const VIEWER_FIX_MAX_AGE_MS = 5 * 60 * 1000;
+
+export type ShareDuration = '15m' | '30m' | '1h' | '8h' | '24h';
+
+export const SHARE_DURATIONS: Record<ShareDuration, number> = {
+  '15m': 15 * 60 * 1000,
+  '30m': 30 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '8h': 8 * 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000
+};
+
+export interface Fix {
+  latitude: number;
+  longitude: number;
+  recordedAt: string;
+}
+
+export interface FixCheck<T extends Fix> {
+  accepted: T[];
+  rejected: { fix: T; reason: LocationFlagReason }[];
+}
+
+// Splits a batch into plausible and implausible fixes. Fixes are walked in time order and
+// each is compared with the last accepted one, starting from the user's stored latest fix.
+export function checkFixes<T extends Fix>(fixes: T[], previous: Fix | null, now = Date.now()): FixCheck<T> {
+  const result: FixCheck<T> = { accepted: [], rejected: [] };
+  let last = previous;
+
+  const ordered = [...fixes].sort((a, b) => Date.parse(a.recordedAt) - Date.parse(b.recordedAt));
+
+  for (const fix of ordered) {
+    const reason = implausibility(fix, last, now);
+    if (reason) {
+      result.rejected.push({ fix, reason });
+    } else {
+      result.accepted.push(fix);
+      last = fix;
+    }
+  }
+
+  return result;
+}
+
+function implausibility(fix: Fix, previous: Fix | null, now: number): LocationFlagReason | null {
+  if (
+    !Number.isFinite(fix.latitude) || Math.abs(fix.latitude) > 90 ||
+    !Number.isFinite(fix.longitude) || Math.abs(fix.longitude) > 180
+  ) {
+    return 'out_of_range';
+  }
+
+  const recordedAt = Date.parse(fix.recordedAt);
+  if (recordedAt > now + CLOCK_SKEW_MS) {
+    return 'future_timestamp';
+  }
+
+  if (previous) {
+    const distanceKm = haversineKm(previous.latitude, previous.longitude, fix.latitude, fix.longitude);
+    const hours = Math.abs(recordedAt - Date.parse(previous.recordedAt)) / (60 * 60 * 1000);
+    if (distanceKm > JITTER_KM && distanceKm > MAX_SPEED_KMH * hours) {
+      return 'teleport';
+    }
+  }
+
+  return null;
+}
+
+// Whether the owner lets the viewer see their location: an active share to the viewer or to a
+// conversation the viewer is in, or else the owner's visibility setting. Blocks are checked by callers.
+export async function canViewLocation(
+  fastify: FastifyInstance,
+  viewerId: string,
+  owner: UserRow,
+  ownerFix: LocationRow | null
+): Promise<RepoResult<boolean>> {
+  if (viewerId === owner.id) {
+    return { data: true, error: null };
+  }
+
+  const { data: shares, error } = await fastify.repos.locationShares.listActiveByOwner(owner.id);
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  if (shares.some(s => s.grantee_id === viewerId)) {
+    return { data: true, error: null };
+  }
+
+  for (const share of shares) {
+    if (!share.conversation_id) {
+      continue;
+    }
+
+    const { data: participant, error: participantError } = await fastify.repos.conversations.findParticipant(
+      share.conversation_id,
+      viewerId
+    );
+
+    if (participantError) {
+      return { data: null, error: participantError };
+    }
+
+    if (!participant) {
+      continue;
+    }
+
+    const { data: conversation, error: convError } = await fastify.repos.conversations.findById(share.conversation_id);
+
+    if (convError) {
+      return { data: null, error: convError };
+    }
+
+    if (conversation && !conversation.is_terminated) {
+      return { data: true, error: null };
+    }
+  }
+
+  if (owner.location_visibility === 'conversations') {
+    const { data: conversations, error: convError } = await listDirectConversations(fastify, viewerId, owner.id);
+
+    if (convError) {
+      return { data: null, error: convError };
+    }
+
+    // Only a one-to-one chat the owner accepted (or started) counts: groups can be put together
+    // by others, and pending requests and frozen chats do not make someone a conversation partner
+    return {
+      data: conversations.some(c => c.request_status === 'accepted' && !c.frozen_at),
+      error: null
+    };
+  }
+
+  if (owner.location_visibility === 'nearby' && ownerFix) {
+    const { data: viewerFix, error: fixError } = await fastify.repos.locations.findLatest(
+      viewerId,
+      new Date(Date.now() - VIEWER_FIX_MAX_AGE_MS).toISOString()
+    );
+
+    if (fixError) {
+      return { data: null, error: fixError };
+    }
+
+    return {
+      data: !!viewerFix && haversineKm(
+        Number(viewerFix.latitude),
+        Number(viewerFix.longitude),
+        Number(ownerFix.latitude),
+        Number(ownerFix.longitude)
+      ) <= NEARBY_VISIBILITY_KM,
+      error: null
+    };
+  }
+
+  return { data: false, error: null };
+}
+
+// Ends the live-location sessions of a conversation (only `ownerId`'s when given) and tells the
+// participants. Returns how many sessions ended.
+export async function endLiveLocations(
+  fastify: FastifyInstance,
+  conversationId: string,
+  ownerId?: string
+): Promise<RepoResult<number>> {
+  const { data: sessions, error } = await fastify.repos.locationShares.listActiveByConversation(conversationId);
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  const ending = sessions.filter(s => !ownerId || s.owner_id === ownerId);
+  if (ending.length === 0) {
+    return { data: 0, error: null };
+  }
+
+  const { error: revokeError } = await fastify.repos.locationShares.revokeByConversation(conversationId, ownerId);
+
+  if (revokeError) {
+    return { data: null, error: revokeError };
+  }
+
+  for (const session of ending) {
+    await publishToParticipants(fastify, conversationId, 'live_location.ended', {
+      conversationId,
+      userId: session.owner_id
+    });
+  }
+
+  return { data: ending.length, error: null };
+}
+
+// Stops two users sharing locations with each other once one blocks the other: their direct
+// shares and the live-location sessions of their one-to-one conversations. Failures are logged.
+export async function endSharingBetween(fastify: FastifyInstance, userA: string, userB: string) {
+  const { error } = await fastify.repos.locationShares.revokeBetween(userA, userB);
+
+  if (error) {
+    fastify.log.error({ err: error }, 'Error revoking location shares');
+  }
+
+  const { data: conversations, error: convError } = await listDirectConversations(fastify, userA, userB);
+
+  if (convError) {
+    fastify.log.error({ err: convError }, 'Error loading shared conversations');
+    return;
+  }
+
+  for (const conversation of conversations) {
+    const { error: endError } = await endLiveLocations(fastify, conversation.id);
+
+    if (endError) {
+      fastify.log.error({ err: endError }, 'Error ending live locations');
+    }
+  }
+}
+
+export interface RetentionSettings {
+  fullResolutionHours: number;
+  intervalMinutes: number;
+  retentionDays: number;
+}
+
+// Read on each run so a change applies without a redeploy; defaults keep a day at full
+// resolution, then one fix per 5 minutes, for 30 days
+export function retentionSettingsFromEnv(): RetentionSettings | { error: string } {
+  const read = (name: string, fallback: number) => process.env[name] ? Number(process.env[name]) : fallback;
+
+  const settings = {
+    fullResolutionHours: read('LOCATION_FULL_RESOLUTION_HOURS', 24),
+    intervalMinutes: read('LOCATION_DOWNSAMPLE_INTERVAL_MINUTES', 5),
+    retentionDays: read('LOCATION_RETENTION_DAYS', 30)
+  };
+
+  if (Object.values(settings).some(value => !Number.isFinite(value) || value <= 0)) {
+    return { error: 'Location retention settings must be positive numbers' };
+  }
+
+  if (settings.retentionDays * 24 < settings.fullResolutionHours) {
+    return { error: 'LOCATION_RETENTION_DAYS must cover LOCATION_FULL_RESOLUTION_HOURS' };
+  }
+
+  return settings;
+}
+
+export function retentionPolicy(settings: RetentionSettings, dryRun: boolean, now = Date.now()): LocationPrunePolicy {
+  return {
+    downsampleBefore: new Date(now - settings.fullResolutionHours * 60 * 60 * 1000).toISOString(),
+    deleteBefore: new Date(now - settings.retentionDays * 24 * 60 * 60 * 1000).toISOString(),
+    intervalSeconds: Math.round(settings.intervalMinutes * 60),
+    dryRun
+  };
+}
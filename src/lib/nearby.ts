@@ -0,0 +1,125 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { FastifyInstance } from 'fastify';
+import { RepoResult } from '../repositories/types';
+import { BlockService } from './blocks';
+import { MAX_FUZZ_KM } from './privacy';
+import { nearbyChannel } from './realtime';
+import { Point } from './venues';
+
+export type NearbySort = 'distance' | 'blended';
+
+// Share of the blended score that comes from distance; the rest comes from how recently the
+// user was active
+const DISTANCE_WEIGHT = 0.6;
+
+// Lower ranks first. Distance mode ranks by distance alone; blended mode mixes distance as a
+// share of the radius with idle time as a share of the activity window.
+export function nearbyScore(
+  sort: NearbySort,
+  distanceKm: number,
+  radiusKm: number,
+  idleMs: number,
+  windowMs: number
+): number {
+  if (sort === 'distance') {
+    return distanceKm;
+  }
+
+  const distance = radiusKm > 0 ? Math.min(1, distanceKm / radiusKm) : 0;
+  const idle = Math.min(1, Math.max(0, idleMs) / windowMs);
+  return DISTANCE_WEIGHT * distance + (1 - DISTANCE_WEIGHT) * idle;
+}
+
+// Position after the last user of a page. Scores are derived from fuzzed distances, which
+// must not reach clients, so the cursor is encrypted rather than just encoded.
+export interface NearbyCursor {
+  viewerId: string;
+  sort: NearbySort;
+  score: number;
+  id: string;
+}
+
+export interface NearbyCursors {
+  seal(cursor: NearbyCursor): string;
+  // Null for anything that was not sealed with this key
+  open(value: string): NearbyCursor | null;
+}
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export function createNearbyCursors(secret: string): NearbyCursors {
+  const key = createHash('sha256').update(`nearby-cursor:${secret}`).digest();
+
+  return {
+    seal(cursor) {
+      const iv = randomBytes(IV_BYTES);
+      const cipher = createCipheriv('aes-256-gcm', key, iv);
+      const body = Buffer.concat([cipher.update(JSON.stringify(cursor), 'utf8'), cipher.final()]);
+      return Buffer.concat([iv, cipher.getAuthTag(), body]).toString('base64url');
+    },
+
+    open(value) {
+      const raw = Buffer.from(value, 'base64url');
+      if (raw.length <= IV_BYTES + TAG_BYTES) {
+        return null;
+      }
+
+      try {
+        const decipher = createDecipheriv('aes-256-gcm', key, raw.subarray(0, IV_BYTES));
+        decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+        const text = Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]).toString('utf8');
+        const cursor = JSON.parse(text) as NearbyCursor;
+
+        if (typeof cursor.viewerId !== 'string' || typeof cursor.id !== 'string' ||
+          typeof cursor.score !== 'number' || (cursor.sort !== 'distance' && cursor.sort !== 'blended')) {
+          return null;
+        }
+
+        return cursor;
+      } catch {
+        return null;
+      }
+    }
+  };
+}
+
+// The largest radius and activity window /users/nearby accepts
+const MAX_RADIUS_KM = 5;
+const MAX_ACTIVE_WITHIN_MS = 60 * 60 * 1000;
+
+// Tells viewers whose nearby results may change after the user moved from `from` to `to` that
+// they should refetch. Only subscribed viewers with a recent fix near either position are told,
+// never anyone separated from the user by a block. The hint names no one and carries no
+// position, so it reveals nothing /users/nearby would not.
+export async function notifyNearby(
+  fastify: FastifyInstance,
+  blocks: BlockService,
+  userId: string,
+  from: Point | null,
+  to: Point
+): Promise<RepoResult<number>> {
+  const since = new Date(Date.now() - MAX_ACTIVE_WITHIN_MS).toISOString();
+  // Both the viewer and the user are shown fuzzed, so either may be off by the fuzz radius
+  const radiusKm = MAX_RADIUS_KM + 2 * MAX_FUZZ_KM;
+
+  const viewerIds = new Set([from, to]
+    .flatMap(p => (p ? fastify.locationIndex.query(p.latitude, p.longitude, radiusKm, since) : []))
+    .map(fix => fix.userId)
+    .filter(id => id !== userId && fastify.realtime.subscriberCount(nearbyChannel(id)) > 0));
+
+  if (viewerIds.size === 0) {
+    return { data: 0, error: null };
+  }
+
+  const { data: blocked, error } = await blocks.blockedIds(userId);
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  const told = [...viewerIds].filter(id => !blocked.has(id));
+  told.forEach(id => fastify.realtime.publish(nearbyChannel(id), 'nearby.changed', {}));
+
+  return { data: told.length, error: null };
+}
@@ -0,0 +1,108 @@
+// Keyset pagination over (created_at, id). Cursors are opaque to clients:
+// base64url of "<created_at>|<id>".
+
+export interface Cursor {
+  createdAt: string;
+  id: string;
+}
+
+// `before` walks from newest to oldest (the default), `after` from oldest to newest
+export type PageDirection = 'before' | 'after';
+
+export interface PageRequest {
+  cursor: Cursor | null;
+  direction: PageDirection;
+  limit: number;
+}
+
+// Items are in travel order: newest first for `before`, oldest first for `after`
+export interface PageResult<T> {
+  items: T[];
+  hasMore: boolean;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export interface PageQuery {
+  before?: string;
+  after?: string;
+  limit?: number;
+}
+
+export const DEFAULT_PAGE_LIMIT = 50;
+
+export const MAX_PAGE_LIMIT = 100;
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(`${cursor.createdAt}|${cursor.id}`).toString('base64url');
+}
+
+export function decodeCursor(value: string): Cursor | null {
+  const decoded = Buffer.from(value, 'base64url').toString('utf8');
+  const separator = decoded.lastIndexOf('|');
+  if (separator <= 0) {
+    return null;
+  }
+
+  const createdAt = decoded.slice(0, separator);
+  const id = decoded.slice(separator + 1);
+  if (!id || isNaN(Date.parse(createdAt))) {
+    return null;
+  }
+
+  return { createdAt, id };
+}
+
+// Turns validated query params into a page request; returns an error message for bad cursors
+export function toPageRequest(query: PageQuery): { page: PageRequest } | { error: string } {
+  if (query.before && query.after) {
+    return { error: 'Use either before or after, not both' };
+  }
+
+  const direction: PageDirection = query.after ? 'after' : 'before';
+  const raw = query.after || query.before;
+  const cursor = raw ? decodeCursor(raw) : null;
+
+  if (raw && !cursor) {
+    return { error: 'Invalid cursor' };
+  }
+
+  return {
+    page: {
+      cursor,
+      direction,
+      limit: Math.min(query.limit ?? DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT)
+    }
+  };
+}
+
+// Builds the response page; `order` is how the endpoint presents items
+// (chat messages read oldest first, lists read newest first)
+export function toPage<T>(
+  result: PageResult<T>,
+  page: PageRequest,
+  cursorOf: (item: T) => Cursor,
+  order: 'asc' | 'desc'
+): Page<T> {
+  const last = result.items[result.items.length - 1];
+  const nextCursor = result.hasMore && last ? encodeCursor(cursorOf(last)) : null;
+
+  const travelOrder = page.direction === 'before' ? 'desc' : 'asc';
+  const items = travelOrder === order ? result.items : [...result.items].reverse();
+
+  return { items, nextCursor };
+}
+
+// Compares two rows by (created_at, id), the same ordering the database uses
+export function compareKeys(a: Cursor, b: Cursor): number {
+  if (a.createdAt !== b.createdAt) {
+    return a.createdAt < b.createdAt ? -1 : 1;
+  }
+  if (a.id !== b.id) {
+    return a.id < b.id ? -1 : 1;
+  }
+  return 0;
+}
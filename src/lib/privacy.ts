@@ -0,0 +1,83 @@
+import { createHmac } from 'crypto';
+import { LocationPrecision } from '../repositories/types';
+
+// Grid size in degrees of latitude each precision snaps to (about 110 m, 550 m and 2.2 km)
+const CELL_DEGREES: Record<LocationPrecision, number> = {
+  precise: 0.001,
+  approximate: 0.005,
+  coarse: 0.02
+};
+
+// Furthest a shown position can be from the real one: the diagonal of the coarsest cell
+export const MAX_FUZZ_KM = 0.02 * 111.2 * Math.SQRT2;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface LocationFuzzer {
+  // Where `viewerId` is shown `targetId` to be: a point inside the grid cell of the target's
+  // precision, fixed per viewer and cell so repeated queries cannot be averaged out
+  fuzz(viewerId: string, targetId: string, position: Coordinates, precision: LocationPrecision): Coordinates;
+}
+
+interface Cell {
+  row: number;
+  column: number;
+  latCell: number;
+  lonCell: number;
+}
+
+function cellOf({ latitude, longitude }: Coordinates, precision: LocationPrecision): Cell {
+  const latCell = CELL_DEGREES[precision];
+  const row = Math.floor(latitude / latCell);
+
+  // Longitude cells widen towards the poles so every cell spans a similar distance
+  const rowCentre = (row + 0.5) * latCell;
+  const lonCell = Math.min(360, latCell / Math.max(Math.cos(rowCentre * Math.PI / 180), 0.01));
+
+  return { row, column: Math.floor(longitude / lonCell), latCell, lonCell };
+}
+
+// The point at fractions (u, v) across the cell, wrapped back into range
+function pointIn({ row, column, latCell, lonCell }: Cell, u: number, v: number): Coordinates {
+  const longitude = (column + v) * lonCell;
+  return {
+    latitude: Math.max(-90, Math.min(90, (row + u) * latCell)),
+    longitude: ((longitude + 540) % 360) - 180
+  };
+}
+
+export function createLocationFuzzer(secret: string): LocationFuzzer {
+  return {
+    fuzz(viewerId, targetId, position, precision) {
+      const cell = cellOf(position, precision);
+
+      const digest = createHmac('sha256', secret)
+        .update(`${viewerId}:${targetId}:${precision}:${cell.row}:${cell.column}`)
+        .digest();
+      const u = digest.readUInt32BE(0) / 2 ** 32;
+      const v = digest.readUInt32BE(4) / 2 ** 32;
+
+      return pointIn(cell, u, v);
+    }
+  };
+}
+
+// The centre of the grid cell holding `position`: the same for every viewer, for places
+// that are stored or shown to both sides
+export function snapToCell(position: Coordinates, precision: LocationPrecision): Coordinates {
+  return pointIn(cellOf(position, precision), 0.5, 0.5);
+}
+
+// Coarse labels instead of exact distances
+export function distanceBucket(distanceKm: number): string {
+  if (distanceKm < 0.1) {
+    return '< 100 m';
+  }
+  if (distanceKm < 0.5) {
+    return '< 500 m';
+  }
+  return `~${Math.max(1, Math.round(distanceKm))} km`;
+}
@@ -0,0 +1,80 @@
+// In-process pub/sub used by the WebSocket gateway. Route modules publish to
+// channels; each connected socket is a subscriber. Single instance only: running
+// several replicas would need a shared broker behind the same interface.
+
+export interface RealtimeEvent {
+  channel: string;
+  event: string;
+  data: unknown;
+}
+
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+export interface RealtimeHub {
+  publish(channel: string, event: string, data: unknown): void;
+  subscribe(channel: string, listener: RealtimeListener): void;
+  unsubscribe(channel: string, listener: RealtimeListener): void;
+  subscriberCount(channel: string): number;
+}
+
+// A user's private channel; every socket of that user is subscribed on connect
+export const userChannel = (userId: string) => `user:${userId}`;
+
+export const presenceChannel = (userId: string) => `presence:${userId}`;
+
+// Hints that the user's /users/nearby results may have changed; only the user may subscribe
+export const nearbyChannel = (userId: string) => `nearby:${userId}`;
+
+// Sent on a user's own channel to make their sockets leave a channel they may no longer read.
+// The gateway acts on it and never forwards it to the client.
+export const CHANNEL_REVOKED = 'realtime.channel_revoked';
+
+export function revokeChannel(hub: RealtimeHub, userId: string, channel: string) {
+  hub.publish(userChannel(userId), CHANNEL_REVOKED, { channel });
+}
+
+export function createRealtimeHub(onListenerError?: (err: unknown) => void): RealtimeHub {
+  const channels = new Map<string, Set<RealtimeListener>>();
+
+  return {
+    publish(channel, event, data) {
+      const listeners = channels.get(channel);
+      if (!listeners) {
+        return;
+      }
+
+      // Copy first: a listener may unsubscribe while we iterate
+      for (const listener of [...listeners]) {
+        try {
+          listener({ channel, event, data });
+        } catch (err) {
+          onListenerError?.(err);
+        }
+      }
+    },
+
+    subscribe(channel, listener) {
+      let listeners = channels.get(channel);
+      if (!listeners) {
+        listeners = new Set();
+        channels.set(channel, listeners);
+      }
+      listeners.add(listener);
+    },
+
+    unsubscribe(channel, listener) {
+      const listeners = channels.get(channel);
+      if (!listeners) {
+        return;
+      }
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        channels.delete(channel);
+      }
+    },
+
+    subscriberCount(channel) {
+      return channels.get(channel)?.size ?? 0;
+    }
+  };
+}
@@ -0,0 +1,102 @@
+import { FastifyInstance } from 'fastify';
+import { RepoResult, SanctionKind, SanctionRow, SanctionsRepo } from '../repositories/types';
+import { presenceChannel, userChannel } from './realtime';
+
+// Sanctions that lock a user out of every authenticated route; warnings are only recorded
+export const RESTRICTING_SANCTIONS: SanctionKind[] = ['suspend', 'ban'];
+
+export interface RestrictionCache {
+  // The caller's strongest active suspension or ban, or null
+  find(userId: string): Promise<RepoResult<SanctionRow | null>>;
+  // Drops the cached answer after a sanction is applied or lifted
+  forget(userId: string): void;
+}
+
+interface CachedRestriction {
+  sanction: SanctionRow | null;
+  expiresAt: number;
+}
+
+// Checked on every authenticated request, so answers are remembered briefly. Changes made
+// through this instance apply at once; other instances catch up within the TTL.
+export function createRestrictionCache(repo: SanctionsRepo, ttlMs = 30 * 1000): RestrictionCache {
+  const cache = new Map<string, CachedRestriction>();
+
+  return {
+    async find(userId) {
+      const cached = cache.get(userId);
+      if (cached && cached.expiresAt > Date.now()) {
+        return { data: cached.sanction, error: null };
+      }
+
+      const { data: active, error } = await repo.listActive([userId], RESTRICTING_SANCTIONS);
+
+      if (error) {
+        return { data: null, error };
+      }
+
+      // Bans outrank suspensions; among equals the one lasting longest wins
+      const endOf = (s: SanctionRow) => s.expires_at ? Date.parse(s.expires_at) : Infinity;
+      const sanction = active.sort((a, b) =>
+        (a.kind === b.kind ? 0 : a.kind === 'ban' ? -1 : 1) || endOf(b) - endOf(a)
+      )[0] ?? null;
+
+      // Never serve a suspension past its end
+      const expiresAt = Math.min(Date.now() + ttlMs, sanction ? endOf(sanction) : Infinity);
+      cache.set(userId, { sanction, expiresAt });
+
+      return { data: sanction, error: null };
+    },
+
+    forget(userId) {
+      cache.delete(userId);
+    }
+  };
+}
+
+// Returns an error message when the sanction request is inconsistent
+export function validateSanction(kind: SanctionKind, reason: string | undefined, expiresAt: string | undefined): string | null {
+  if (!reason) {
+    return 'A reason is required';
+  }
+  if (kind === 'suspend' && !expiresAt) {
+    return 'A suspension needs an expiresAt';
+  }
+  if (kind === 'warn' && expiresAt) {
+    return 'Only suspensions and bans can expire';
+  }
+  if (expiresAt && Date.parse(expiresAt) <= Date.now()) {
+    return 'expiresAt must be in the future';
+  }
+  return null;
+}
+
+// Takes effect immediately: tells the user (their sockets close on suspensions and bans)
+// and forces banned users offline so they drop out of presence and nearby
+export async function enforceSanction(fastify: FastifyInstance, sanction: SanctionRow) {
+  fastify.restrictions.forget(sanction.user_id);
+
+  fastify.realtime.publish(userChannel(sanction.user_id), 'moderation.sanction', {
+    kind: sanction.kind,
+    reason: sanction.reason,
+    expiresAt: sanction.expires_at
+  });
+
+  if (sanction.kind !== 'ban') {
+    return;
+  }
+
+  const { data: user } = await fastify.repos.users.findById(sanction.user_id);
+  const { error } = await fastify.repos.users.update(sanction.user_id, { presence_status: 'offline' });
+
+  if (error) {
+    fastify.log.error({ err: error }, 'Error forcing banned user offline');
+    return;
+  }
+
+  fastify.realtime.publish(presenceChannel(sanction.user_id), 'presence.changed', {
+    userId: sanction.user_id,
+    status: 'offline',
+    lastActiveAt: user?.last_active_at ?? null
+  });
+}
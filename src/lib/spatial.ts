@@ -0,0 +1,169 @@
+// In-process grid index over each user's latest location fix, so radius queries only visit
+// the cells that can intersect the circle instead of every online user. Like the realtime
+// hub it lives in a single instance; it is fed by location writes and warmed from recent
+// fixes at startup.
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+// Great-circle distance in km (Haversine formula)
+export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export interface IndexedFix {
+  userId: string;
+  latitude: number;
+  longitude: number;
+  recordedAt: string;
+}
+
+export interface NearbyFix extends IndexedFix {
+  distanceKm: number;
+}
+
+export interface SpatialIndex {
+  // Keeps the newest fix per user; older fixes arriving late are ignored
+  update(fix: IndexedFix): void;
+  remove(userId: string): void;
+  // Users whose latest fix is recorded at or after `since` and lies within the radius
+  query(latitude: number, longitude: number, radiusKm: number, since: string): NearbyFix[];
+  // Drops fixes recorded before `before`; returns how many were removed
+  prune(before: string): number;
+  size(): number;
+}
+
+interface Entry extends IndexedFix {
+  cell: string;
+}
+
+// 0.05° is about 5.5 km of latitude: a maximum-radius query touches a handful of cells
+export function createSpatialIndex(cellDegrees = 0.05): SpatialIndex {
+  const rows = Math.ceil(180 / cellDegrees);
+  const columns = Math.ceil(360 / cellDegrees);
+
+  const entries = new Map<string, Entry>();
+  const cells = new Map<string, Set<string>>();
+
+  const rowOf = (latitude: number) => Math.min(rows - 1, Math.floor((latitude + 90) / cellDegrees));
+  const columnOf = (longitude: number) => ((Math.floor((longitude + 180) / cellDegrees) % columns) + columns) % columns;
+  const keyOf = (row: number, column: number) => `${row}:${column}`;
+
+  const detach = (entry: Entry) => {
+    const members = cells.get(entry.cell);
+    members?.delete(entry.userId);
+    if (members?.size === 0) {
+      cells.delete(entry.cell);
+    }
+  };
+
+  // Cells that may hold points within the radius. Uses the exact bounding coordinates of a
+  // spherical cap, so the circle is covered across cell edges, the antimeridian and the poles.
+  const cellsCovering = (latitude: number, longitude: number, radiusKm: number): string[] => {
+    const angular = radiusKm / EARTH_RADIUS_KM;
+    const minLat = latitude - toDegrees(angular);
+    const maxLat = latitude + toDegrees(angular);
+
+    let columnRange: number[];
+    if (minLat <= -90 || maxLat >= 90) {
+      // The cap contains a pole: every longitude is in reach
+      columnRange = Array.from({ length: columns }, (_, i) => i);
+    } else {
+      const dLon = toDegrees(Math.asin(Math.sin(angular) / Math.cos(toRadians(latitude))));
+      const first = Math.floor((longitude - dLon + 180) / cellDegrees);
+      const last = Math.floor((longitude + dLon + 180) / cellDegrees);
+      const count = Math.min(columns, last - first + 1);
+      columnRange = Array.from({ length: count }, (_, i) => (((first + i) % columns) + columns) % columns);
+    }
+
+    const keys: string[] = [];
+    for (let row = rowOf(Math.max(-90, minLat)); row <= rowOf(Math.min(90, maxLat)); row++) {
+      columnRange.forEach(column => keys.push(keyOf(row, column)));
+    }
+    return keys;
+  };
+
+  return {
+    update(fix) {
+      // Normalised so timestamps with offsets compare correctly as strings
+      const recordedAt = new Date(fix.recordedAt).toISOString();
+
+      const existing = entries.get(fix.userId);
+      if (existing && existing.recordedAt > recordedAt) {
+        return;
+      }
+      if (existing) {
+        detach(existing);
+      }
+
+      const cell = keyOf(rowOf(fix.latitude), columnOf(fix.longitude));
+      entries.set(fix.userId, { ...fix, recordedAt, cell });
+
+      let members = cells.get(cell);
+      if (!members) {
+        members = new Set();
+        cells.set(cell, members);
+      }
+      members.add(fix.userId);
+    },
+
+    remove(userId) {
+      const existing = entries.get(userId);
+      if (existing) {
+        detach(existing);
+        entries.delete(userId);
+      }
+    },
+
+    query(latitude, longitude, radiusKm, since) {
+      const found: NearbyFix[] = [];
+
+      for (const key of cellsCovering(latitude, longitude, radiusKm)) {
+        cells.get(key)?.forEach(userId => {
+          const entry = entries.get(userId)!;
+          if (entry.recordedAt < since) {
+            return;
+          }
+
+          const distanceKm = haversineKm(latitude, longitude, entry.latitude, entry.longitude);
+          if (distanceKm <= radiusKm) {
+            found.push({
+              userId,
+              latitude: entry.latitude,
+              longitude: entry.longitude,
+              recordedAt: entry.recordedAt,
+              distanceKm
+            });
+          }
+        });
+      }
+
+      return found;
+    },
+
+    prune(before) {
+      let removed = 0;
+      for (const entry of [...entries.values()]) {
+        if (entry.recordedAt < before) {
+          detach(entry);
+          entries.delete(entry.userId);
+          removed++;
+        }
+      }
+      return removed;
+    },
+
+    size() {
+      return entries.size;
+    }
+  };
+}
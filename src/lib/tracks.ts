@@ -0,0 +1,143 @@
+// Downsampling and export of a user's location history. Tracks are lists of fixes in
+// recording order; nothing here touches the database.
+
+const METERS_PER_DEGREE = 111320;
+
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  speed: number | null;
+  heading: number | null;
+  recorded_at: string;
+}
+
+// Offset of `p` from `origin` in metres on a local flat projection, accurate over the short
+// distances between neighbouring fixes
+function toMeters(origin: TrackPoint, p: TrackPoint): [number, number] {
+  const scale = Math.cos(origin.latitude * Math.PI / 180);
+  return [
+    (p.longitude - origin.longitude) * METERS_PER_DEGREE * scale,
+    (p.latitude - origin.latitude) * METERS_PER_DEGREE
+  ];
+}
+
+function distanceToSegment(p: TrackPoint, start: TrackPoint, end: TrackPoint): number {
+  const [px, py] = toMeters(start, p);
+  const [ex, ey] = toMeters(start, end);
+  const lengthSquared = ex * ex + ey * ey;
+
+  if (lengthSquared === 0) {
+    return Math.hypot(px, py);
+  }
+
+  const t = Math.max(0, Math.min(1, (px * ex + py * ey) / lengthSquared));
+  return Math.hypot(px - t * ex, py - t * ey);
+}
+
+// Douglas–Peucker: keeps the fixes needed to stay within `toleranceMeters` of the full track
+export function simplifyTrack<T extends TrackPoint>(points: T[], toleranceMeters: number): T[] {
+  if (points.length <= 2) {
+    return points;
+  }
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Iterative to stay clear of the stack limit on long tracks
+  const ranges: [number, number][] = [[0, points.length - 1]];
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop()!;
+
+    let farthest = -1;
+    let farthestDistance = toleranceMeters;
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(points[i], points[first], points[last]);
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    }
+
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      ranges.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+// One fix per `bucketSeconds` window: the most accurate, earliest on ties
+export function bucketTrack<T extends TrackPoint>(points: T[], bucketSeconds: number): T[] {
+  const buckets = new Map<number, T>();
+
+  for (const point of points) {
+    const bucket = Math.floor(Date.parse(point.recorded_at) / (bucketSeconds * 1000));
+    const current = buckets.get(bucket);
+    if (!current || (point.accuracy ?? Infinity) < (current.accuracy ?? Infinity)) {
+      buckets.set(bucket, point);
+    }
+  }
+
+  return [...buckets.values()];
+}
+
+// A single LineString feature; per-fix timestamps ride along in `properties`
+// A LineString needs at least two positions (RFC 7946), so a single fix becomes a Point and
+// an empty track an empty FeatureCollection
+export function toGeoJsonLine(points: TrackPoint[]) {
+  if (points.length === 0) {
+    return { type: 'FeatureCollection' as const, features: [] };
+  }
+
+  return {
+    type: 'Feature' as const,
+    geometry: points.length === 1
+      ? { type: 'Point', coordinates: [points[0].longitude, points[0].latitude] }
+      : { type: 'LineString', coordinates: points.map(p => [p.longitude, p.latitude]) },
+    properties: {
+      times: points.map(p => p.recorded_at)
+    }
+  };
+}
+
+// One Point feature per fix, carrying its accuracy, speed and heading
+export function toGeoJsonPoints(points: TrackPoint[]) {
+  return {
+    type: 'FeatureCollection' as const,
+    features: points.map(p => ({
+      type: 'Feature',
+      geometry: {
+        type: 'Point',
+        coordinates: [p.longitude, p.latitude]
+      },
+      properties: {
+        recorded_at: p.recorded_at,
+        accuracy: p.accuracy,
+        speed: p.speed,
+        heading: p.heading
+      }
+    }))
+  };
+}
+
+// GPX 1.1 with one track segment
+export function toGpx(points: TrackPoint[]): string {
+  const trackPoints = points.map(p =>
+    `      <trkpt lat="${p.latitude}" lon="${p.longitude}"><time>${new Date(p.recorded_at).toISOString()}</time></trkpt>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="untagle" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <trk>',
+    '    <trkseg>',
+    ...trackPoints,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,222 @@
+import { FastifyInstance } from 'fastify';
+import { NewVenue, RepoResult, UserRow, VenueCheckInRow, VenueCheckOutReason, VenueRow } from '../repositories/types';
+import { userChannel } from './realtime';
+import { haversineKm } from './spatial';
+
+const METERS_PER_DEGREE = 111320;
+
+// Fixes less accurate than this never check anyone in automatically
+const MAX_CHECK_IN_ACCURACY_METERS = 100;
+
+// How far outside the shape a fix must be before the user counts as having left, so GPS
+// jitter at the edge does not check people out and back in
+const EXIT_MARGIN_METERS = 30;
+
+// How old the caller's latest fix may be for a manual check-in
+export const CHECK_IN_MAX_FIX_AGE_MS = 5 * 60 * 1000;
+
+export interface Point {
+  latitude: number;
+  longitude: number;
+}
+
+export type VenueShape =
+  | { center: Point; radiusMeters: number }
+  | { polygon: Point[] };
+
+// The stored geometry and bounding box of a shape, or an error for shapes the bounding-box
+// lookup cannot represent (rings crossing the antimeridian or touching a pole)
+export function venueGeometry(shape: VenueShape): Omit<NewVenue, 'name' | 'created_by'> | { error: string } {
+  if ('polygon' in shape) {
+    const latitudes = shape.polygon.map(p => p.latitude);
+    const longitudes = shape.polygon.map(p => p.longitude);
+    const bounds = {
+      min_latitude: Math.min(...latitudes),
+      max_latitude: Math.max(...latitudes),
+      min_longitude: Math.min(...longitudes),
+      max_longitude: Math.max(...longitudes)
+    };
+
+    if (bounds.max_longitude - bounds.min_longitude > 180) {
+      return { error: 'Polygon venues cannot cross the antimeridian' };
+    }
+
+    return {
+      latitude: null,
+      longitude: null,
+      radius_meters: null,
+      polygon: shape.polygon.map(p => [p.longitude, p.latitude]),
+      ...bounds
+    };
+  }
+
+  const { center, radiusMeters } = shape;
+  const dLat = radiusMeters / METERS_PER_DEGREE;
+  const dLon = dLat / Math.cos(center.latitude * Math.PI / 180);
+
+  if (
+    Math.abs(center.latitude) + dLat >= 90 ||
+    center.longitude - dLon < -180 || center.longitude + dLon > 180
+  ) {
+    return { error: 'Circle venues cannot reach a pole or cross the antimeridian' };
+  }
+
+  return {
+    latitude: center.latitude,
+    longitude: center.longitude,
+    radius_meters: radiusMeters,
+    polygon: null,
+    min_latitude: center.latitude - dLat,
+    max_latitude: center.latitude + dLat,
+    min_longitude: center.longitude - dLon,
+    max_longitude: center.longitude + dLon
+  };
+}
+
+// Distance in metres from `point` to the segment a–b on a local flat projection
+function distanceToSegment(point: Point, a: [number, number], b: [number, number]): number {
+  const scale = Math.cos(point.latitude * Math.PI / 180);
+  const ax = (a[0] - point.longitude) * METERS_PER_DEGREE * scale;
+  const ay = (a[1] - point.latitude) * METERS_PER_DEGREE;
+  const ex = (b[0] - a[0]) * METERS_PER_DEGREE * scale;
+  const ey = (b[1] - a[1]) * METERS_PER_DEGREE;
+  const lengthSquared = ex * ex + ey * ey;
+
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * ex + ay * ey) / lengthSquared));
+  return Math.hypot(ax + t * ex, ay + t * ey);
+}
+
+// Whether the point lies in the venue or within `marginMeters` of its edge
+export function venueContains(venue: VenueRow, point: Point, marginMeters = 0): boolean {
+  if (!venue.polygon) {
+    const distanceMeters = haversineKm(venue.latitude!, venue.longitude!, point.latitude, point.longitude) * 1000;
+    return distanceMeters <= venue.radius_meters! + marginMeters;
+  }
+
+  const ring = venue.polygon;
+
+  // Ray casting in longitude/latitude, fine at venue scale
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > point.latitude) !== (yj > point.latitude) &&
+      point.longitude < (xj - xi) * (point.latitude - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  if (inside || marginMeters <= 0) {
+    return inside;
+  }
+
+  return ring.some((vertex, i) => distanceToSegment(point, vertex, ring[(i + 1) % ring.length]) <= marginMeters);
+}
+
+// Whether a fix places the user at the venue for a manual check-in: inside it, or as close
+// as the fix's own accuracy allows
+export function isAtVenue(venue: VenueRow, fix: Point & { accuracy: number | null }): boolean {
+  return venueContains(venue, fix, Math.min(fix.accuracy ?? 0, MAX_CHECK_IN_ACCURACY_METERS));
+}
+
+export interface CheckInChanges {
+  checkedIn: string[];
+  checkedOut: string[];
+}
+
+// Checks the user out of venues the fix has left and, when they opted in to automatic
+// check-in, into venues the fix is inside. The user's own sockets are told either way.
+export async function updateCheckIns(
+  fastify: FastifyInstance,
+  user: UserRow,
+  fix: Point & { accuracy?: number | null }
+): Promise<RepoResult<CheckInChanges>> {
+  const { data: open, error } = await fastify.repos.venues.listOpenCheckIns([user.id]);
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  const { data: openVenues, error: openError } = open.length > 0
+    ? await fastify.repos.venues.findByIds(open.map(c => c.venue_id))
+    : { data: [], error: null };
+
+  if (openError) {
+    return { data: null, error: openError };
+  }
+
+  const venuesById = new Map(openVenues.map(v => [v.id, v]));
+
+  // The fix's own uncertainty widens the margin, so a poor reading alone cannot check someone out
+  const exitMargin = EXIT_MARGIN_METERS + (fix.accuracy ?? 0);
+  const leaving = open.filter(c => {
+    const venue = venuesById.get(c.venue_id);
+    return !venue || !venueContains(venue, fix, exitMargin);
+  });
+
+  const { error: checkOutError } = await checkOut(fastify, leaving, 'left');
+
+  if (checkOutError) {
+    return { data: null, error: checkOutError };
+  }
+
+  const checkedIn: string[] = [];
+
+  if (user.venue_auto_check_in && (fix.accuracy ?? 0) <= MAX_CHECK_IN_ACCURACY_METERS) {
+    const { data: candidates, error: candidatesError } = await fastify.repos.venues.listContaining(
+      fix.latitude,
+      fix.longitude
+    );
+
+    if (candidatesError) {
+      return { data: null, error: candidatesError };
+    }
+
+    const staying = new Set(open.filter(c => !leaving.includes(c)).map(c => c.venue_id));
+
+    for (const venue of candidates) {
+      if (staying.has(venue.id) || !venueContains(venue, fix)) {
+        continue;
+      }
+
+      const { data: checkIn, error: checkInError } = await fastify.repos.venues.checkIn(venue.id, user.id, 'auto');
+
+      if (checkInError) {
+        return { data: null, error: checkInError };
+      }
+
+      checkedIn.push(venue.id);
+      fastify.realtime.publish(userChannel(user.id), 'venue.checked_in', {
+        venueId: venue.id,
+        source: checkIn.source,
+        checkedInAt: checkIn.checked_in_at
+      });
+    }
+  }
+
+  return { data: { checkedIn, checkedOut: leaving.map(c => c.venue_id) }, error: null };
+}
+
+// Closes the check-ins and tells each user's sockets
+export async function checkOut(
+  fastify: FastifyInstance,
+  checkIns: VenueCheckInRow[],
+  reason: VenueCheckOutReason
+): Promise<RepoResult<null>> {
+  if (checkIns.length === 0) {
+    return { data: null, error: null };
+  }
+
+  const { error } = await fastify.repos.venues.checkOut(checkIns.map(c => c.id), reason);
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  checkIns.forEach(c => fastify.realtime.publish(userChannel(c.user_id), 'venue.checked_out', {
+    venueId: c.venue_id,
+    reason
+  }));
+
+  return { data: null, error: null };
+}
@@ -0,0 +1,88 @@
+import fp from 'fastify-plugin';
+import { FastifyInstance } from 'fastify';
+import { AuthUser, TokenVerifier, createTokenVerifierFromEnv } from '../lib/auth';
+import { createRestrictionCache, RestrictionCache } from '../lib/sanctions';
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    // Require a valid Bearer token and populate request.user
+    auth?: boolean;
+  }
+
+  interface FastifyInstance {
+    restrictions: RestrictionCache;
+  }
+
+  interface FastifyRequest {
+    // Only set on routes registered with config.auth
+    user: AuthUser;
+  }
+}
+
+export interface AuthPluginOptions {
+  verifier?: TokenVerifier;
+}
+
+async function authPlugin(fastify: FastifyInstance, options: AuthPluginOptions) {
+  const verify = options.verifier || createTokenVerifierFromEnv();
+
+  fastify.decorateRequest('user', null as unknown as AuthUser);
+
+  fastify.decorate('restrictions', createRestrictionCache(fastify.repos.sanctions));
+
+  // Document the bearer requirement in the OpenAPI spec
+  fastify.addHook('onRoute', (routeOptions) => {
+    if (routeOptions.config?.auth) {
+      routeOptions.schema = {
+        ...routeOptions.schema,
+        security: [{ bearerAuth: [] }]
+      };
+    }
+  });
+
+  fastify.addHook('onRequest', async (request, reply) => {
+    if (!request.routeOptions.config.auth) {
+      return;
+    }
+
+    const authHeader = request.headers.authorization;
+    let token: string | undefined;
+
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+      token = authHeader.substring(7);
+    } else if (request.ws) {
+      // WebSocket handshakes from browsers can only carry the token in the query string
+      token = (request.query as { access_token?: string }).access_token;
+    }
+
+    if (!token) {
+      return reply.code(401).send({ error: 'Unauthorized' });
+    }
+
+    const verified = await verify(token);
+
+    if (!verified) {
+      return reply.code(401).send({ error: 'Invalid token' });
+    }
+
+    // Suspended and banned users get the same answer from every authenticated route
+    const { data: sanction, error } = await fastify.restrictions.find(verified.userId);
+
+    if (error) {
+      fastify.log.error({ err: error }, 'Error checking account restrictions');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+
+    if (sanction) {
+      return reply.code(403).send({
+        error: sanction.kind === 'ban' ? 'Account banned' : 'Account suspended',
+        message: sanction.reason,
+        details: sanction.expires_at ? `Until ${sanction.expires_at}` : undefined
+      });
+    }
+
+    request.user = verified;
+  });
+}
+
+export default fp(authPlugin, { name: 'auth' });
@@ -0,0 +1,21 @@
+import fp from 'fastify-plugin';
+import { FastifyInstance } from 'fastify';
+import { BlockService, createBlockService } from '../lib/blocks';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    // Block lookups cached for the lifetime of the request
+    blocks: BlockService;
+  }
+}
+
+async function blocksPlugin(fastify: FastifyInstance) {
+  fastify.decorateRequest('blocks', null as unknown as BlockService);
+
+  // Cheap to create: nothing is queried until a route asks
+  fastify.addHook('onRequest', async (request) => {
+    request.blocks = createBlockService(fastify.repos.blocks);
+  });
+}
+
+export default fp(blocksPlugin, { name: 'blocks' });
@@ -0,0 +1,24 @@
+import fp from 'fastify-plugin';
+import websocket from '@fastify/websocket';
+import { FastifyInstance } from 'fastify';
+import { createRealtimeHub, RealtimeHub } from '../lib/realtime';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    realtime: RealtimeHub;
+  }
+}
+
+async function realtimePlugin(fastify: FastifyInstance) {
+  await fastify.register(websocket, {
+    options: {
+      maxPayload: 16 * 1024
+    }
+  });
+
+  fastify.decorate('realtime', createRealtimeHub((err) => {
+    fastify.log.error({ err }, 'Realtime listener error');
+  }));
+}
+
+export default fp(realtimePlugin, { name: 'realtime' });
@@ -0,0 +1,65 @@
+import fp from 'fastify-plugin';
+import { FastifyInstance } from 'fastify';
+import { randomBytes } from 'crypto';
+import { createNearbyCursors, NearbyCursors } from '../lib/nearby';
+import { createLocationFuzzer, LocationFuzzer } from '../lib/privacy';
+import { createSpatialIndex, SpatialIndex } from '../lib/spatial';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    locationIndex: SpatialIndex;
+    locationFuzzer: LocationFuzzer;
+    nearbyCursors: NearbyCursors;
+  }
+}
+
+// As long as the widest nearby activity window; older fixes are dropped from the index
+const INDEX_RETENTION_MS = 60 * 60 * 1000;
+
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+async function spatialPlugin(fastify: FastifyInstance) {
+  const index = createSpatialIndex();
+  fastify.decorate('locationIndex', index);
+
+  // Shared across instances so a viewer sees the same fuzzed position, and can page through
+  // nearby results, on each of them
+  let fuzzSecret = process.env.LOCATION_FUZZ_SECRET;
+  if (!fuzzSecret) {
+    fastify.log.warn('LOCATION_FUZZ_SECRET is not set; fuzzed locations change on every restart');
+    fuzzSecret = randomBytes(32).toString('hex');
+  }
+  fastify.decorate('locationFuzzer', createLocationFuzzer(fuzzSecret));
+  fastify.decorate('nearbyCursors', createNearbyCursors(fuzzSecret));
+
+  // Rebuild from the database so a restart does not empty /users/nearby
+  fastify.addHook('onReady', async () => {
+    const since = new Date(Date.now() - INDEX_RETENTION_MS).toISOString();
+    const { data: locations, error } = await fastify.repos.locations.listLatestPerUser(since);
+
+    if (error) {
+      fastify.log.error({ err: error }, 'Error warming the location index');
+      return;
+    }
+
+    locations.forEach(loc => index.update({
+      userId: loc.user_id,
+      latitude: Number(loc.latitude),
+      longitude: Number(loc.longitude),
+      recordedAt: loc.recorded_at
+    }));
+
+    fastify.log.info({ users: index.size() }, 'Location index warmed');
+  });
+
+  const pruneTimer = setInterval(() => {
+    index.prune(new Date(Date.now() - INDEX_RETENTION_MS).toISOString());
+  }, PRUNE_INTERVAL_MS);
+  pruneTimer.unref();
+
+  fastify.addHook('onClose', async () => {
+    clearInterval(pruneTimer);
+  });
+}
+
+export default fp(spatialPlugin, { name: 'spatial' });
@@ -0,0 +1,33 @@
+import fp from 'fastify-plugin';
+import swagger from '@fastify/swagger';
+import swaggerUi from '@fastify/swagger-ui';
+import { FastifyInstance } from 'fastify';
+
+// OpenAPI document built from the route schemas, served at /docs (UI) and /docs/json
+async function swaggerPlugin(fastify: FastifyInstance) {
+  await fastify.register(swagger, {
+    openapi: {
+      openapi: '3.0.3',
+      info: {
+        title: 'Untagle API',
+        description: 'Untagle Backend API with Fastify and Supabase',
+        version: '1.0.0'
+      },
+      components: {
+        securitySchemes: {
+          bearerAuth: {
+            type: 'http',
+            scheme: 'bearer',
+            bearerFormat: 'JWT'
+          }
+        }
+      }
+    }
+  });
+
+  await fastify.register(swaggerUi, {
+    routePrefix: '/docs'
+  });
+}
+
+export default fp(swaggerPlugin, { name: 'swagger' });
@@ -0,0 +1,1025 @@
+import { randomUUID } from 'crypto';
+import { compareKeys, Cursor, PageRequest, PageResult } from '../lib/pagination';
+import {
+  AttachmentRow,
+  AttachmentsRepo,
+  AuthUserRecord,
+  BlockRow,
+  BlocksRepo,
+  ConversationParticipantRow,
+  ConversationRow,
+  ConversationsRepo,
+  EncounterRow,
+  EncountersRepo,
+  LocationRow,
+  LocationShareRow,
+  LocationSharesRepo,
+  LocationsRepo,
+  MessageRow,
+  ReactionRow,
+  RepoResult,
+  ReportMessageRow,
+  ReportRow,
+  ReportsRepo,
+  Repositories,
+  SanctionRow,
+  SanctionsRepo,
+  StorageRepo,
+  UserRow,
+  UsersRepo,
+  VenueCheckInRow,
+  VenueRow,
+  VenuesRepo
+} from './types';
+
+// Backing state for the in-memory repositories; tests seed and inspect it directly
+export interface MemoryStore {
+  users: Map<string, UserRow>;
+  authUsers: Map<string, AuthUserRecord>;
+  locations: LocationRow[];
+  conversations: Map<string, ConversationRow>;
+  participants: ConversationParticipantRow[];
+  messages: MessageRow[];
+  reactions: ReactionRow[];
+  attachments: AttachmentRow[];
+  blocks: BlockRow[];
+  reports: ReportRow[];
+  reportMessages: ReportMessageRow[];
+  sanctions: SanctionRow[];
+  locationShares: LocationShareRow[];
+  encounters: EncounterRow[];
+  venues: VenueRow[];
+  venueCheckIns: VenueCheckInRow[];
+  // bucket -> object paths
+  objects: Map<string, Set<string>>;
+}
+
+export interface MemoryRepositories extends Repositories {
+  store: MemoryStore;
+}
+
+export function createMemoryStore(): MemoryStore {
+  return {
+    users: new Map(),
+    authUsers: new Map(),
+    locations: [],
+    conversations: new Map(),
+    participants: [],
+    messages: [],
+    reactions: [],
+    attachments: [],
+    blocks: [],
+    reports: [],
+    reportMessages: [],
+    sanctions: [],
+    locationShares: [],
+    encounters: [],
+    venues: [],
+    venueCheckIns: [],
+    objects: new Map()
+  };
+}
+
+function ok<T>(data: T): RepoResult<T> {
+  return { data, error: null };
+}
+
+const done = (): RepoResult<null> => ok(null);
+
+// Rows are copied in and out so callers cannot mutate the store by accident
+const copy = <T extends object>(row: T): T => ({ ...row });
+
+function removeWhere<T>(rows: T[], predicate: (row: T) => boolean) {
+  for (let i = rows.length - 1; i >= 0; i--) {
+    if (predicate(rows[i])) {
+      rows.splice(i, 1);
+    }
+  }
+}
+
+// Same keyset semantics as the Supabase queries: filter past the cursor, sort in travel order
+function paginate<T>(rows: T[], page: PageRequest, keyOf: (row: T) => Cursor): PageResult<T> {
+  const sign = page.direction === 'before' ? -1 : 1;
+  const sorted = rows
+    .filter(row => !page.cursor || sign * compareKeys(keyOf(row), page.cursor) > 0)
+    .sort((a, b) => sign * compareKeys(keyOf(a), keyOf(b)));
+
+  return { items: sorted.slice(0, page.limit), hasMore: sorted.length > page.limit };
+}
+
+function createUsersRepo(store: MemoryStore): UsersRepo {
+  return {
+    async findById(id) {
+      const user = store.users.get(id);
+      return ok(user ? copy(user) : null);
+    },
+
+    async findByIds(ids) {
+      return ok(ids
+        .map(id => store.users.get(id))
+        .filter((u): u is UserRow => !!u)
+        .map(copy));
+    },
+
+    async create(user) {
+      const row: UserRow = {
+        bio: null,
+        age: null,
+        location: null,
+        gender: null,
+        profile_image_path: null,
+        profile_image_url: null,
+        presence_status: 'offline',
+        last_active_at: null,
+        location_flagged_until: null,
+        location_flag_reason: null,
+        location_precision: 'approximate',
+        location_visibility: 'nobody',
+        encounters_enabled: true,
+        venue_auto_check_in: false,
+        ...user
+      };
+      store.users.set(row.id, row);
+      return ok(copy(row));
+    },
+
+    async update(id, changes) {
+      const user = store.users.get(id);
+      if (user) {
+        Object.assign(user, changes);
+      }
+      return done();
+    },
+
+    async updateMany(ids, changes) {
+      ids.forEach(id => {
+        const user = store.users.get(id);
+        if (user) {
+          Object.assign(user, changes);
+        }
+      });
+      return done();
+    },
+
+    async delete(id) {
+      store.users.delete(id);
+      return done();
+    },
+
+    async listOnlineInactiveSince(before) {
+      return ok([...store.users.values()]
+        .filter(u => u.presence_status === 'online' && u.last_active_at !== null && u.last_active_at < before)
+        .map(copy));
+    },
+
+    async findAuthUser(id) {
+      const authUser = store.authUsers.get(id);
+      return ok(authUser ? copy(authUser) : null);
+    },
+
+    async deleteAuthUser(id) {
+      store.authUsers.delete(id);
+      return done();
+    }
+  };
+}
+
+function createLocationsRepo(store: MemoryStore): LocationsRepo {
+  const newestFirst = (a: LocationRow, b: LocationRow) => b.recorded_at.localeCompare(a.recorded_at);
+
+  return {
+    async insertMany(locations) {
+      const rows = locations.map(loc => ({
+        id: randomUUID(),
+        ...loc,
+        accuracy: loc.accuracy ?? null,
+        speed: loc.speed ?? null,
+        heading: loc.heading ?? null
+      }));
+      store.locations.push(...rows);
+      return ok(rows.map(copy));
+    },
+
+    async findLatest(userId, since) {
+      const latest = store.locations
+        .filter(loc => loc.user_id === userId && loc.recorded_at >= since)
+        .sort(newestFirst)[0];
+      return ok(latest ? copy(latest) : null);
+    },
+
+    async listSince(since) {
+      return ok(store.locations
+        .filter(loc => loc.recorded_at >= since)
+        .sort(newestFirst)
+        .map(copy));
+    },
+
+    async listLatestPerUser(since) {
+      const latest = new Map<string, LocationRow>();
+      store.locations
+        .filter(loc => loc.recorded_at >= since)
+        .sort(newestFirst)
+        .forEach(loc => {
+          if (!latest.has(loc.user_id)) {
+            latest.set(loc.user_id, loc);
+          }
+        });
+      return ok([...latest.values()].map(copy));
+    },
+
+    async listByUser(userId, from, to, limit) {
+      return ok(store.locations
+        .filter(loc => loc.user_id === userId && loc.recorded_at >= from && loc.recorded_at <= to)
+        .sort((a, b) => a.recorded_at.localeCompare(b.recorded_at))
+        .slice(0, limit)
+        .map(copy));
+    },
+
+    async prune({ downsampleBefore, deleteBefore, intervalSeconds, dryRun }) {
+      const downsampleFrom = Date.parse(deleteBefore);
+      const downsampleTo = Date.parse(downsampleBefore);
+      const isExpired = (loc: LocationRow) => Date.parse(loc.recorded_at) < downsampleFrom;
+
+      // Same choice as prune_locations: the most accurate fix per user and interval, earliest on ties
+      const kept = new Map<string, LocationRow>();
+      const thinned = new Set<string>();
+      store.locations
+        .filter(loc => !isExpired(loc) && Date.parse(loc.recorded_at) < downsampleTo)
+        .sort((a, b) =>
+          (a.accuracy ?? Infinity) - (b.accuracy ?? Infinity) ||
+          a.recorded_at.localeCompare(b.recorded_at) ||
+          a.id.localeCompare(b.id)
+        )
+        .forEach(loc => {
+          const key = `${loc.user_id}:${Math.floor(Date.parse(loc.recorded_at) / (intervalSeconds * 1000))}`;
+          if (kept.has(key)) {
+            thinned.add(loc.id);
+          } else {
+            kept.set(key, loc);
+          }
+        });
+
+      const deleted = store.locations.filter(isExpired).length;
+
+      if (!dryRun) {
+        removeWhere(store.locations, loc => isExpired(loc) || thinned.has(loc.id));
+      }
+
+      return ok({ downsampled: thinned.size, deleted });
+    },
+
+    async deleteByUser(userId) {
+      removeWhere(store.locations, loc => loc.user_id === userId);
+      return done();
+    }
+  };
+}
+
+function createConversationsRepo(store: MemoryStore): ConversationsRepo {
+  // Expired messages stay hidden until the purge removes them
+  const isLive = (message: MessageRow) =>
+    message.expires_at === null || message.expires_at > new Date().toISOString();
+
+  // Mirrors the foreign keys in Postgres: reactions cascade, attachments are unlinked
+  const removeMessagesWhere = (predicate: (message: MessageRow) => boolean) => {
+    const removed = new Set(store.messages.filter(predicate).map(m => m.id));
+    removeWhere(store.messages, m => removed.has(m.id));
+    removeWhere(store.reactions, r => removed.has(r.message_id));
+    store.attachments.forEach(a => {
+      if (a.message_id && removed.has(a.message_id)) {
+        a.message_id = null;
+      }
+    });
+  };
+
+  return {
+    async create(conversation) {
+      const createdAt = new Date().toISOString();
+      const row: ConversationRow = {
+        id: randomUUID(),
+        is_terminated: false,
+        title: null,
+        avatar_url: null,
+        request_status: 'accepted',
+        requested_by: null,
+        message_ttl_seconds: 24 * 60 * 60,
+        frozen_at: null,
+        ...conversation,
+        created_at: createdAt,
+        last_activity_at: createdAt
+      };
+      store.conversations.set(row.id, row);
+      return ok(copy(row));
+    },
+
+    async findById(id) {
+      const conversation = store.conversations.get(id);
+      return ok(conversation ? copy(conversation) : null);
+    },
+
+    async findByIds(ids) {
+      return ok(ids
+        .map(id => store.conversations.get(id))
+        .filter((c): c is ConversationRow => !!c)
+        .map(copy));
+    },
+
+    async update(id, changes) {
+      const conversation = store.conversations.get(id);
+      if (conversation) {
+        Object.assign(conversation, changes);
+      }
+      return done();
+    },
+
+    async terminate(id) {
+      const conversation = store.conversations.get(id);
+      if (conversation) {
+        conversation.is_terminated = true;
+      }
+      return done();
+    },
+
+    async addParticipants(conversationId, userIds, role) {
+      const joinedAt = new Date().toISOString();
+      userIds.forEach(userId => {
+        store.participants.push({
+          conversation_id: conversationId,
+          user_id: userId,
+          joined_at: joinedAt,
+          role,
+          last_read_message_id: null,
+          last_read_at: null
+        });
+      });
+      return done();
+    },
+
+    async removeParticipant(conversationId, userId) {
+      removeWhere(store.participants, p => p.conversation_id === conversationId && p.user_id === userId);
+      return done();
+    },
+
+    async setParticipantRole(conversationId, userId, role) {
+      const participant = store.participants.find(
+        p => p.conversation_id === conversationId && p.user_id === userId
+      );
+      if (participant) {
+        participant.role = role;
+      }
+      return done();
+    },
+
+    async findParticipant(conversationId, userId) {
+      const participant = store.participants.find(
+        p => p.conversation_id === conversationId && p.user_id === userId
+      );
+      return ok(participant ? copy(participant) : null);
+    },
+
+    async listParticipants(conversationId) {
+      return ok(store.participants.filter(p => p.conversation_id === conversationId).map(copy));
+    },
+
+    async listParticipantsIn(conversationIds) {
+      const ids = new Set(conversationIds);
+      return ok(store.participants.filter(p => ids.has(p.conversation_id)).map(copy));
+    },
+
+    async markRead(conversationId, userId, messageId, readAt) {
+      const participant = store.participants.find(
+        p => p.conversation_id === conversationId && p.user_id === userId
+      );
+      if (participant) {
+        participant.last_read_message_id = messageId;
+        participant.last_read_at = readAt;
+      }
+      return done();
+    },
+
+    async countUnread(userId, conversationIds) {
+      const counts: Record<string, number> = {};
+      conversationIds.forEach(conversationId => {
+        const participant = store.participants.find(
+          p => p.conversation_id === conversationId && p.user_id === userId
+        );
+        if (!participant) {
+          return;
+        }
+        counts[conversationId] = store.messages.filter(m =>
+          m.conversation_id === conversationId &&
+          m.sender_id !== userId &&
+          m.kind === 'user' &&
+          isLive(m) &&
+          !store.blocks.some(b =>
+            (b.blocker_id === userId && b.blocked_id === m.sender_id) ||
+            (b.blocker_id === m.sender_id && b.blocked_id === userId)) &&
+          (participant.last_read_at === null || m.created_at > participant.last_read_at)
+        ).length;
+      });
+      return ok(counts);
+    },
+
+    async listParticipationsOf(userIds) {
+      const ids = new Set(userIds);
+      return ok(store.participants.filter(p => ids.has(p.user_id)).map(copy));
+    },
+
+    async listForUser(userId, view, page) {
+      const inView = (c: ConversationRow) => view === 'requests'
+        ? c.request_status === 'pending' && c.requested_by !== userId
+        : c.request_status === 'accepted' || c.requested_by === userId;
+
+      const conversations = store.participants
+        .filter(p => p.user_id === userId)
+        .map(p => store.conversations.get(p.conversation_id))
+        .filter((c): c is ConversationRow => !!c && !c.is_terminated && inView(c));
+
+      const result = paginate(conversations, page, c => ({ createdAt: c.last_activity_at, id: c.id }));
+      return ok({
+        items: result.items.map(c => ({ conversation_id: c.id, conversations: copy(c) })),
+        hasMore: result.hasMore
+      });
+    },
+
+    async removeUserParticipations(userId) {
+      removeWhere(store.participants, p => p.user_id === userId);
+      return done();
+    },
+
+    async insertMessage(message) {
+      const row: MessageRow = { id: randomUUID(), kind: 'user', edited_at: null, expires_at: null, ...message };
+      store.messages.push(row);
+
+      // Mirrors the messages_touch_conversation trigger
+      const conversation = store.conversations.get(row.conversation_id);
+      if (conversation && row.created_at > conversation.last_activity_at) {
+        conversation.last_activity_at = row.created_at;
+      }
+      return ok(copy(row));
+    },
+
+    async findMessage(conversationId, messageId) {
+      const message = store.messages.find(m => m.conversation_id === conversationId && m.id === messageId);
+      return ok(message && isLive(message) ? copy(message) : null);
+    },
+
+    async findMessages(conversationId, messageIds) {
+      const wanted = new Set(messageIds);
+      return ok(store.messages
+        .filter(m => m.conversation_id === conversationId && wanted.has(m.id) && isLive(m))
+        .map(copy));
+    },
+
+    async findLatestMessage(conversationId) {
+      const latest = paginate(
+        store.messages.filter(m => m.conversation_id === conversationId && isLive(m)),
+        { cursor: null, direction: 'before', limit: 1 },
+        m => ({ createdAt: m.created_at, id: m.id })
+      ).items[0];
+      return ok(latest ? copy(latest) : null);
+    },
+
+    async countMessagesBySender(conversationId, senderId) {
+      return ok(store.messages.filter(m =>
+        m.conversation_id === conversationId &&
+        m.sender_id === senderId &&
+        m.kind === 'user'
+      ).length);
+    },
+
+    async listLatestMessages(conversationIds) {
+      const ids = new Set(conversationIds);
+      const latest = new Map<string, MessageRow>();
+      store.messages.forEach(m => {
+        const current = latest.get(m.conversation_id);
+        if (ids.has(m.conversation_id) && isLive(m) && (!current || compareKeys(
+          { createdAt: m.created_at, id: m.id },
+          { createdAt: current.created_at, id: current.id }
+        ) > 0)) {
+          latest.set(m.conversation_id, m);
+        }
+      });
+      return ok([...latest.values()].map(copy));
+    },
+
+    async listMessages(conversationId, page) {
+      const result = paginate(
+        store.messages.filter(m => m.conversation_id === conversationId && isLive(m)),
+        page,
+        m => ({ createdAt: m.created_at, id: m.id })
+      );
+      return ok({ items: result.items.map(copy), hasMore: result.hasMore });
+    },
+
+    async updateMessage(conversationId, messageId, changes) {
+      const message = store.messages.find(m => m.conversation_id === conversationId && m.id === messageId);
+      if (message) {
+        Object.assign(message, changes);
+      }
+      return done();
+    },
+
+    async deleteMessage(conversationId, messageId) {
+      removeMessagesWhere(m => m.conversation_id === conversationId && m.id === messageId);
+      return done();
+    },
+
+    async setReaction(messageId, userId, emoji) {
+      removeWhere(store.reactions, r => r.message_id === messageId && r.user_id === userId);
+      store.reactions.push({
+        message_id: messageId,
+        user_id: userId,
+        emoji,
+        created_at: new Date().toISOString()
+      });
+      return done();
+    },
+
+    async deleteReaction(messageId, userId) {
+      removeWhere(store.reactions, r => r.message_id === messageId && r.user_id === userId);
+      return done();
+    },
+
+    async listReactions(messageIds) {
+      const ids = new Set(messageIds);
+      return ok(store.reactions.filter(r => ids.has(r.message_id)).map(copy));
+    },
+
+    async deleteReactionsByUser(userId) {
+      removeWhere(store.reactions, r => r.user_id === userId);
+      return done();
+    },
+
+    async deleteMessages(conversationId) {
+      removeMessagesWhere(m => m.conversation_id === conversationId);
+      return done();
+    },
+
+    async deleteMessagesBySender(userId) {
+      removeMessagesWhere(m => m.sender_id === userId);
+      return done();
+    },
+
+    async deleteExpiredMessages() {
+      removeMessagesWhere(m => !isLive(m));
+      return done();
+    }
+  };
+}
+
+function createAttachmentsRepo(store: MemoryStore): AttachmentsRepo {
+  return {
+    async create(attachment) {
+      const row: AttachmentRow = { id: randomUUID(), message_id: null, ...attachment };
+      store.attachments.push(row);
+      return ok(copy(row));
+    },
+
+    async findByIds(ids) {
+      const wanted = new Set(ids);
+      return ok(store.attachments.filter(a => wanted.has(a.id)).map(copy));
+    },
+
+    async linkToMessage(ids, messageId) {
+      const wanted = new Set(ids);
+      store.attachments.forEach(a => {
+        if (wanted.has(a.id)) {
+          a.message_id = messageId;
+        }
+      });
+      return done();
+    },
+
+    async listByMessages(messageIds) {
+      const ids = new Set(messageIds);
+      return ok(store.attachments
+        .filter(a => a.message_id !== null && ids.has(a.message_id))
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map(copy));
+    },
+
+    async listByConversation(conversationId) {
+      return ok(store.attachments.filter(a => a.conversation_id === conversationId).map(copy));
+    },
+
+    async listOrphaned(before) {
+      return ok(store.attachments.filter(a => a.message_id === null && a.created_at < before).map(copy));
+    },
+
+    async deleteMany(ids) {
+      const wanted = new Set(ids);
+      removeWhere(store.attachments, a => wanted.has(a.id));
+      return done();
+    }
+  };
+}
+
+function createBlocksRepo(store: MemoryStore): BlocksRepo {
+  return {
+    async find(blockerId, blockedId) {
+      const block = store.blocks.find(b => b.blocker_id === blockerId && b.blocked_id === blockedId);
+      return ok(block ? copy(block) : null);
+    },
+
+    async create(blockerId, blockedId) {
+      store.blocks.push({
+        blocker_id: blockerId,
+        blocked_id: blockedId,
+        created_at: new Date().toISOString()
+      });
+      return done();
+    },
+
+    async delete(blockerId, blockedId) {
+      removeWhere(store.blocks, b => b.blocker_id === blockerId && b.blocked_id === blockedId);
+      return done();
+    },
+
+    async listByBlocker(blockerId, page) {
+      const result = paginate(
+        store.blocks.filter(b => b.blocker_id === blockerId),
+        page,
+        b => ({ createdAt: b.created_at, id: b.blocked_id })
+      );
+      return ok({ items: result.items.map(copy), hasMore: result.hasMore });
+    },
+
+    async listInvolving(userIds) {
+      const wanted = new Set(userIds);
+      return ok(store.blocks
+        .filter(b => wanted.has(b.blocker_id) || wanted.has(b.blocked_id))
+        .map(copy));
+    },
+
+    async deleteInvolving(userId) {
+      removeWhere(store.blocks, b => b.blocker_id === userId || b.blocked_id === userId);
+      return done();
+    }
+  };
+}
+
+function createReportsRepo(store: MemoryStore): ReportsRepo {
+  return {
+    async create(report) {
+      const row: ReportRow = {
+        id: randomUUID(),
+        ...report,
+        status: 'open',
+        action: null,
+        resolution_note: null,
+        resolved_by: null,
+        resolved_at: null,
+        created_at: new Date().toISOString()
+      };
+      store.reports.push(row);
+      return ok(copy(row));
+    },
+
+    async findById(id) {
+      const report = store.reports.find(r => r.id === id);
+      return ok(report ? copy(report) : null);
+    },
+
+    async list(statuses, page) {
+      const result = paginate(
+        store.reports.filter(r => statuses.includes(r.status)),
+        page,
+        r => ({ createdAt: r.created_at, id: r.id })
+      );
+      return ok({ items: result.items.map(copy), hasMore: result.hasMore });
+    },
+
+    async update(id, changes) {
+      const report = store.reports.find(r => r.id === id);
+      if (report) {
+        Object.assign(report, changes);
+      }
+      return done();
+    },
+
+    async addMessages(messages) {
+      messages.forEach(message => {
+        if (!store.reportMessages.some(m => m.report_id === message.report_id && m.message_id === message.message_id)) {
+          store.reportMessages.push(copy(message));
+        }
+      });
+      return done();
+    },
+
+    async listMessages(reportId) {
+      return ok(store.reportMessages
+        .filter(m => m.report_id === reportId)
+        .sort((a, b) => a.sent_at.localeCompare(b.sent_at))
+        .map(copy));
+    },
+
+    async countAgainst(userId) {
+      return ok(store.reports.filter(r => r.reported_user_id === userId).length);
+    }
+  };
+}
+
+function createSanctionsRepo(store: MemoryStore): SanctionsRepo {
+  return {
+    async create(sanction) {
+      const row: SanctionRow = {
+        id: randomUUID(),
+        ...sanction,
+        created_at: new Date().toISOString(),
+        revoked_at: null,
+        revoked_by: null
+      };
+      store.sanctions.push(row);
+      return ok(copy(row));
+    },
+
+    async findById(id) {
+      const sanction = store.sanctions.find(s => s.id === id);
+      return ok(sanction ? copy(sanction) : null);
+    },
+
+    async listByUser(userId) {
+      return ok(store.sanctions
+        .filter(s => s.user_id === userId)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .map(copy));
+    },
+
+    async listActive(userIds, kinds) {
+      const now = new Date().toISOString();
+      return ok(store.sanctions
+        .filter(s =>
+          userIds.includes(s.user_id) &&
+          kinds.includes(s.kind) &&
+          s.revoked_at === null &&
+          (s.expires_at === null || s.expires_at > now)
+        )
+        .map(copy));
+    },
+
+    async revoke(id, revokedBy) {
+      const sanction = store.sanctions.find(s => s.id === id);
+      if (sanction) {
+        sanction.revoked_at = new Date().toISOString();
+        sanction.revoked_by = revokedBy;
+      }
+      return done();
+    }
+  };
+}
+
+function createLocationSharesRepo(store: MemoryStore): LocationSharesRepo {
+  return {
+    async create(share) {
+      const row: LocationShareRow = {
+        id: randomUUID(),
+        ...share,
+        created_at: new Date().toISOString(),
+        revoked_at: null
+      };
+      store.locationShares.push(row);
+      return ok(copy(row));
+    },
+
+    async findById(id) {
+      const share = store.locationShares.find(s => s.id === id);
+      return ok(share ? copy(share) : null);
+    },
+
+    async listActiveByOwner(ownerId) {
+      const now = new Date().toISOString();
+      return ok(store.locationShares
+        .filter(s => s.owner_id === ownerId && s.revoked_at === null && s.expires_at > now)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .map(copy));
+    },
+
+    async listActiveByConversation(conversationId) {
+      const now = new Date().toISOString();
+      return ok(store.locationShares
+        .filter(s => s.conversation_id === conversationId && s.revoked_at === null && s.expires_at > now)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .map(copy));
+    },
+
+    async revoke(id) {
+      const share = store.locationShares.find(s => s.id === id);
+      if (share) {
+        share.revoked_at = new Date().toISOString();
+      }
+      return done();
+    },
+
+    async revokeByConversation(conversationId, ownerId) {
+      const now = new Date().toISOString();
+      store.locationShares
+        .filter(s =>
+          s.conversation_id === conversationId &&
+          (ownerId === undefined || s.owner_id === ownerId) &&
+          s.revoked_at === null
+        )
+        .forEach(s => {
+          s.revoked_at = now;
+        });
+      return done();
+    },
+
+    async revokeBetween(userA, userB) {
+      const now = new Date().toISOString();
+      store.locationShares
+        .filter(s =>
+          s.revoked_at === null &&
+          ((s.owner_id === userA && s.grantee_id === userB) || (s.owner_id === userB && s.grantee_id === userA))
+        )
+        .forEach(s => {
+          s.revoked_at = now;
+        });
+      return done();
+    },
+
+    async deleteInvolving(userId) {
+      removeWhere(store.locationShares, s => s.owner_id === userId || s.grantee_id === userId);
+      return done();
+    }
+  };
+}
+
+function createEncountersRepo(store: MemoryStore): EncountersRepo {
+  return {
+    async findByPairs(pairs) {
+      const wanted = new Set(pairs.map(([a, b]) => `${a}:${b}`));
+      return ok(store.encounters
+        .filter(e => wanted.has(`${e.user_a}:${e.user_b}`))
+        .map(copy));
+    },
+
+    async upsertMany(encounters) {
+      encounters.forEach(encounter => {
+        const existing = store.encounters.find(e => e.user_a === encounter.user_a && e.user_b === encounter.user_b);
+        if (existing) {
+          Object.assign(existing, encounter);
+        } else {
+          store.encounters.push({ id: randomUUID(), ...encounter, created_at: new Date().toISOString() });
+        }
+      });
+      return done();
+    },
+
+    async listForUser(userId, page) {
+      const result = paginate(
+        store.encounters.filter(e => e.user_a === userId || e.user_b === userId),
+        page,
+        e => ({ createdAt: e.last_crossed_at, id: e.id })
+      );
+      return ok({ items: result.items.map(copy), hasMore: result.hasMore });
+    },
+
+    async deleteInvolving(userId) {
+      removeWhere(store.encounters, e => e.user_a === userId || e.user_b === userId);
+      return done();
+    }
+  };
+}
+
+function createVenuesRepo(store: MemoryStore): VenuesRepo {
+  return {
+    async create(venue) {
+      const row: VenueRow = { id: randomUUID(), ...venue, created_at: new Date().toISOString() };
+      store.venues.push(row);
+      return ok(copy(row));
+    },
+
+    async findById(id) {
+      const venue = store.venues.find(v => v.id === id);
+      return ok(venue ? copy(venue) : null);
+    },
+
+    async findByIds(ids) {
+      return ok(store.venues.filter(v => ids.includes(v.id)).map(copy));
+    },
+
+    async listContaining(latitude, longitude) {
+      return ok(store.venues
+        .filter(v =>
+          v.min_latitude <= latitude && v.max_latitude >= latitude &&
+          v.min_longitude <= longitude && v.max_longitude >= longitude
+        )
+        .map(copy));
+    },
+
+    async delete(id) {
+      removeWhere(store.venueCheckIns, c => c.venue_id === id);
+      removeWhere(store.venues, v => v.id === id);
+      return done();
+    },
+
+    async checkIn(venueId, userId, source) {
+      const row: VenueCheckInRow = {
+        id: randomUUID(),
+        venue_id: venueId,
+        user_id: userId,
+        source,
+        checked_in_at: new Date().toISOString(),
+        checked_out_at: null,
+        check_out_reason: null
+      };
+      store.venueCheckIns.push(row);
+      return ok(copy(row));
+    },
+
+    async findOpenCheckIn(venueId, userId) {
+      const checkIn = store.venueCheckIns.find(c =>
+        c.venue_id === venueId && c.user_id === userId && c.checked_out_at === null
+      );
+      return ok(checkIn ? copy(checkIn) : null);
+    },
+
+    async listOpenCheckIns(userIds) {
+      return ok(store.venueCheckIns
+        .filter(c => userIds.includes(c.user_id) && c.checked_out_at === null)
+        .map(copy));
+    },
+
+    async listPeople(venueId, page) {
+      const result = paginate(
+        store.venueCheckIns.filter(c => c.venue_id === venueId && c.checked_out_at === null),
+        page,
+        c => ({ createdAt: c.checked_in_at, id: c.id })
+      );
+      return ok({ items: result.items.map(copy), hasMore: result.hasMore });
+    },
+
+    async checkOut(checkInIds, reason) {
+      const now = new Date().toISOString();
+      store.venueCheckIns
+        .filter(c => checkInIds.includes(c.id) && c.checked_out_at === null)
+        .forEach(c => {
+          c.checked_out_at = now;
+          c.check_out_reason = reason;
+        });
+      return done();
+    },
+
+    async deleteCheckInsByUser(userId) {
+      removeWhere(store.venueCheckIns, c => c.user_id === userId);
+      return done();
+    }
+  };
+}
+
+function createStorageRepo(store: MemoryStore): StorageRepo {
+  const bucketOf = (bucket: string) => {
+    let objects = store.objects.get(bucket);
+    if (!objects) {
+      objects = new Set();
+      store.objects.set(bucket, objects);
+    }
+    return objects;
+  };
+
+  return {
+    async createSignedUploadUrl(bucket, path) {
+      // The object is treated as uploaded as soon as the URL is issued
+      bucketOf(bucket).add(path);
+      const token = randomUUID();
+      return ok({
+        signedUrl: `memory://${bucket}/${path}?token=${token}`,
+        token
+      });
+    },
+
+    getPublicUrl(bucket, path) {
+      return `memory://${bucket}/${path}`;
+    },
+
+    async createSignedUrls(bucket, paths, expiresInSeconds) {
+      const expires = Date.now() + expiresInSeconds * 1000;
+      return ok(paths.map(path => `memory://${bucket}/${path}?token=${randomUUID()}&expires=${expires}`));
+    },
+
+    async remove(bucket, paths) {
+      const objects = bucketOf(bucket);
+      paths.forEach(path => objects.delete(path));
+      return done();
+    }
+  };
+}
+
+// Complete network-free implementation for running the API under fastify.inject
+export function createMemoryRepositories(store: MemoryStore = createMemoryStore()): MemoryRepositories {
+  return {
+    store,
+    users: createUsersRepo(store),
+    locations: createLocationsRepo(store),
+    conversations: createConversationsRepo(store),
+    attachments: createAttachmentsRepo(store),
+    blocks: createBlocksRepo(store),
+    reports: createReportsRepo(store),
+    sanctions: createSanctionsRepo(store),
+    locationShares: createLocationSharesRepo(store),
+    encounters: createEncountersRepo(store),
+    venues: createVenuesRepo(store),
+    storage: createStorageRepo(store)
+  };
+}
@@ -0,0 +1,1041 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { PageRequest, PageResult } from '../lib/pagination';
+import {
+  AttachmentsRepo,
+  BlocksRepo,
+  ConversationsRepo,
+  EncounterRow,
+  EncountersRepo,
+  LocationSharesRepo,
+  LocationRow,
+  LocationsRepo,
+  RepoError,
+  RepoResult,
+  ReportsRepo,
+  Repositories,
+  SanctionsRepo,
+  StorageRepo,
+  ConversationRow,
+  UsersRepo,
+  VenuesRepo
+} from './types';
+
+interface SupabaseResponse {
+  data: unknown;
+  error: RepoError | null;
+}
+
+function toResult<T>(response: SupabaseResponse): RepoResult<T> {
+  if (response.error) {
+    return { data: null, error: { message: response.error.message, code: response.error.code } };
+  }
+  return { data: response.data as T, error: null };
+}
+
+function toEmptyResult(response: { error: RepoError | null }): RepoResult<null> {
+  if (response.error) {
+    return { data: null, error: { message: response.error.message, code: response.error.code } };
+  }
+  return { data: null, error: null };
+}
+
+function toListResult<T>(response: SupabaseResponse): RepoResult<T[]> {
+  const result = toResult<T[] | null>(response);
+  return result.error ? result : { data: result.data || [], error: null };
+}
+
+// PostgREST caps every response (1000 rows by default), so lists without a natural bound are
+// read range by range until a short page. The query must be totally ordered for ranges to line up.
+const LIST_PAGE_SIZE = 1000;
+
+async function listAll<T>(
+  fetchRange: (from: number, to: number) => PromiseLike<SupabaseResponse>
+): Promise<RepoResult<T[]>> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += LIST_PAGE_SIZE) {
+    const result = toListResult<T>(await fetchRange(from, from + LIST_PAGE_SIZE - 1));
+
+    if (result.error) {
+      return result;
+    }
+
+    rows.push(...result.data);
+
+    if (result.data.length < LIST_PAGE_SIZE) {
+      return { data: rows, error: null };
+    }
+  }
+}
+
+// PostgREST filter selecting rows past the cursor in the page direction
+function keysetFilter(page: PageRequest, idColumn: string, keyColumn = 'created_at'): string | null {
+  if (!page.cursor) {
+    return null;
+  }
+
+  const op = page.direction === 'before' ? 'lt' : 'gt';
+  const key = `"${page.cursor.createdAt}"`;
+  return `${keyColumn}.${op}.${key},and(${keyColumn}.eq.${key},${idColumn}.${op}.${page.cursor.id})`;
+}
+
+// Expired messages stay hidden until delete_old_messages purges them
+function liveMessageFilter(): string {
+  return `expires_at.is.null,expires_at.gt."${new Date().toISOString()}"`;
+}
+
+// Pages are fetched with limit + 1 rows to know whether another page exists
+function toPageResult<T>(response: SupabaseResponse, limit: number): RepoResult<PageResult<T>> {
+  const result = toListResult<T>(response);
+  if (result.error) {
+    return result;
+  }
+  return {
+    data: { items: result.data.slice(0, limit), hasMore: result.data.length > limit },
+    error: null
+  };
+}
+
+function createUsersRepo(client: SupabaseClient): UsersRepo {
+  return {
+    async findById(id) {
+      return toResult(await client.from('users').select('*').eq('id', id).maybeSingle());
+    },
+
+    async findByIds(ids) {
+      return toListResult(await client.from('users').select('*').in('id', ids));
+    },
+
+    async create(user) {
+      return toResult(await client.from('users').insert(user).select().single());
+    },
+
+    async update(id, changes) {
+      return toEmptyResult(await client.from('users').update(changes).eq('id', id));
+    },
+
+    async updateMany(ids, changes) {
+      return toEmptyResult(await client.from('users').update(changes).in('id', ids));
+    },
+
+    async delete(id) {
+      return toEmptyResult(await client.from('users').delete().eq('id', id));
+    },
+
+    async listOnlineInactiveSince(before) {
+      return toListResult(await client
+        .from('users')
+        .select('*')
+        .eq('presence_status', 'online')
+        .lt('last_active_at', before));
+    },
+
+    async findAuthUser(id) {
+      const { data, error } = await client.auth.admin.getUserById(id);
+      if (error) {
+        return { data: null, error: { message: error.message, code: error.code } };
+      }
+      if (!data.user) {
+        return { data: null, error: null };
+      }
+      return {
+        data: {
+          id: data.user.id,
+          email: data.user.email ?? null,
+          name: data.user.user_metadata?.name ?? null,
+          created_at: data.user.created_at
+        },
+        error: null
+      };
+    },
+
+    async deleteAuthUser(id) {
+      const { error } = await client.auth.admin.deleteUser(id);
+      if (error) {
+        return { data: null, error: { message: error.message, code: error.code } };
+      }
+      return { data: null, error: null };
+    }
+  };
+}
+
+function createLocationsRepo(client: SupabaseClient): LocationsRepo {
+  return {
+    async insertMany(locations) {
+      return toListResult(await client.from('locations').insert(locations).select());
+    },
+
+    async findLatest(userId, since) {
+      return toResult(await client
+        .from('locations')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('recorded_at', since)
+        .order('recorded_at', { ascending: false })
+        .limit(1)
+        .maybeSingle());
+    },
+
+    async listSince(since) {
+      const result = await listAll<LocationRow>((from, to) => client
+        .from('locations')
+        .select('*')
+        .gte('recorded_at', since)
+        .order('recorded_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(from, to));
+
+      if (result.error) {
+        return result;
+      }
+
+      // Fixes inserted while paging shift older rows into the next range, so some arrive twice
+      return { data: [...new Map(result.data.map(loc => [loc.id, loc])).values()], error: null };
+    },
+
+    async listLatestPerUser(since) {
+      return listAll((from, to) => client
+        .rpc('latest_locations_since', { p_since: since })
+        .order('user_id')
+        .range(from, to));
+    },
+
+    async listByUser(userId, from, to, limit) {
+      return toListResult(await client
+        .from('locations')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('recorded_at', from)
+        .lte('recorded_at', to)
+        .order('recorded_at', { ascending: true })
+        .limit(limit));
+    },
+
+    async prune({ downsampleBefore, deleteBefore, intervalSeconds, dryRun }) {
+      const result = toListResult<{ downsampled: number; deleted: number }>(await client
+        .rpc('prune_locations', {
+          p_downsample_before: downsampleBefore,
+          p_delete_before: deleteBefore,
+          p_interval_seconds: intervalSeconds,
+          p_dry_run: dryRun
+        }));
+
+      if (result.error) {
+        return result;
+      }
+
+      const [counts] = result.data;
+      return {
+        data: { downsampled: Number(counts?.downsampled ?? 0), deleted: Number(counts?.deleted ?? 0) },
+        error: null
+      };
+    },
+
+    async deleteByUser(userId) {
+      return toEmptyResult(await client.from('locations').delete().eq('user_id', userId));
+    }
+  };
+}
+
+function createConversationsRepo(client: SupabaseClient): ConversationsRepo {
+  return {
+    async create(conversation) {
+      const createdAt = new Date().toISOString();
+      return toResult(await client
+        .from('conversations')
+        .insert({
+          ...conversation,
+          is_terminated: false,
+          created_at: createdAt,
+          last_activity_at: createdAt
+        })
+        .select()
+        .single());
+    },
+
+    async findById(id) {
+      return toResult(await client.from('conversations').select('*').eq('id', id).maybeSingle());
+    },
+
+    async findByIds(ids) {
+      return toListResult(await client.from('conversations').select('*').in('id', ids));
+    },
+
+    async update(id, changes) {
+      return toEmptyResult(await client.from('conversations').update(changes).eq('id', id));
+    },
+
+    async terminate(id) {
+      return toEmptyResult(await client
+        .from('conversations')
+        .update({ is_terminated: true })
+        .eq('id', id));
+    },
+
+    async addParticipants(conversationId, userIds, role) {
+      const joinedAt = new Date().toISOString();
+      return toEmptyResult(await client
+        .from('conversation_participants')
+        .insert(userIds.map(userId => ({
+          conversation_id: conversationId,
+          user_id: userId,
+          joined_at: joinedAt,
+          role
+        }))));
+    },
+
+    async removeParticipant(conversationId, userId) {
+      return toEmptyResult(await client
+        .from('conversation_participants')
+        .delete()
+        .eq('conversation_id', conversationId)
+        .eq('user_id', userId));
+    },
+
+    async setParticipantRole(conversationId, userId, role) {
+      return toEmptyResult(await client
+        .from('conversation_participants')
+        .update({ role })
+        .eq('conversation_id', conversationId)
+        .eq('user_id', userId));
+    },
+
+    async findParticipant(conversationId, userId) {
+      return toResult(await client
+        .from('conversation_participants')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .eq('user_id', userId)
+        .maybeSingle());
+    },
+
+    async listParticipants(conversationId) {
+      return toListResult(await client
+        .from('conversation_participants')
+        .select('*')
+        .eq('conversation_id', conversationId));
+    },
+
+    async listParticipantsIn(conversationIds) {
+      return toListResult(await client
+        .from('conversation_participants')
+        .select('*')
+        .in('conversation_id', conversationIds));
+    },
+
+    async markRead(conversationId, userId, messageId, readAt) {
+      return toEmptyResult(await client
+        .from('conversation_participants')
+        .update({ last_read_message_id: messageId, last_read_at: readAt })
+        .eq('conversation_id', conversationId)
+        .eq('user_id', userId));
+    },
+
+    async countUnread(userId, conversationIds) {
+      const result = toListResult<{ conversation_id: string; unread_count: number }>(await client
+        .rpc('count_unread_messages', {
+          p_user_id: userId,
+          p_conversation_ids: conversationIds
+        }));
+
+      if (result.error) {
+        return result;
+      }
+
+      const counts: Record<string, number> = {};
+      result.data.forEach(row => {
+        counts[row.conversation_id] = Number(row.unread_count);
+      });
+      return { data: counts, error: null };
+    },
+
+    async listParticipationsOf(userIds) {
+      return toListResult(await client
+        .from('conversation_participants')
+        .select('*')
+        .in('user_id', userIds));
+    },
+
+    async listForUser(userId, view, page) {
+      const ascending = page.direction === 'after';
+      let query = client
+        .from('conversations')
+        .select('id, is_terminated, is_group, title, avatar_url, request_status, requested_by, message_ttl_seconds, frozen_at, created_at, last_activity_at, conversation_participants!inner(user_id)')
+        .eq('conversation_participants.user_id', userId)
+        .eq('is_terminated', false);
+
+      query = view === 'requests'
+        ? query.eq('request_status', 'pending').neq('requested_by', userId)
+        : query.or(`request_status.eq.accepted,requested_by.eq.${userId}`);
+
+      const filter = keysetFilter(page, 'id', 'last_activity_at');
+      if (filter) {
+        query = query.or(filter);
+      }
+
+      const result = toPageResult<ConversationRow>(await query
+        .order('last_activity_at', { ascending })
+        .order('id', { ascending })
+        .limit(page.limit + 1), page.limit);
+
+      if (result.error) {
+        return result;
+      }
+
+      return {
+        data: {
+          items: result.data.items.map(c => ({
+            conversation_id: c.id,
+            conversations: {
+              id: c.id,
+              is_terminated: c.is_terminated,
+              is_group: c.is_group,
+              title: c.title,
+              avatar_url: c.avatar_url,
+              request_status: c.request_status,
+              requested_by: c.requested_by,
+              message_ttl_seconds: c.message_ttl_seconds,
+              frozen_at: c.frozen_at,
+              created_at: c.created_at,
+              last_activity_at: c.last_activity_at
+            }
+          })),
+          hasMore: result.data.hasMore
+        },
+        error: null
+      };
+    },
+
+    async removeUserParticipations(userId) {
+      return toEmptyResult(await client
+        .from('conversation_participants')
+        .delete()
+        .eq('user_id', userId));
+    },
+
+    async insertMessage(message) {
+      return toResult(await client.from('messages').insert(message).select().single());
+    },
+
+    async findMessage(conversationId, messageId) {
+      return toResult(await client
+        .from('messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .eq('id', messageId)
+        .or(liveMessageFilter())
+        .maybeSingle());
+    },
+
+    async findMessages(conversationId, messageIds) {
+      return toListResult(await client
+        .from('messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .in('id', messageIds)
+        .or(liveMessageFilter()));
+    },
+
+    async findLatestMessage(conversationId) {
+      return toResult(await client
+        .from('messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .or(liveMessageFilter())
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(1)
+        .maybeSingle());
+    },
+
+    async countMessagesBySender(conversationId, senderId) {
+      const { count, error } = await client
+        .from('messages')
+        .select('id', { count: 'exact', head: true })
+        .eq('conversation_id', conversationId)
+        .eq('sender_id', senderId)
+        .eq('kind', 'user');
+      if (error) {
+        return { data: null, error: { message: error.message, code: error.code } };
+      }
+      return { data: count ?? 0, error: null };
+    },
+
+    async listLatestMessages(conversationIds) {
+      return toListResult(await client.rpc('latest_messages', { p_conversation_ids: conversationIds }));
+    },
+
+    async listMessages(conversationId, page) {
+      const ascending = page.direction === 'after';
+      let query = client
+        .from('messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .or(liveMessageFilter());
+
+      const filter = keysetFilter(page, 'id');
+      if (filter) {
+        query = query.or(filter);
+      }
+
+      return toPageResult(await query
+        .order('created_at', { ascending })
+        .order('id', { ascending })
+        .limit(page.limit + 1), page.limit);
+    },
+
+    async updateMessage(conversationId, messageId, changes) {
+      return toEmptyResult(await client
+        .from('messages')
+        .update(changes)
+        .eq('conversation_id', conversationId)
+        .eq('id', messageId));
+    },
+
+    async deleteMessage(conversationId, messageId) {
+      return toEmptyResult(await client
+        .from('messages')
+        .delete()
+        .eq('conversation_id', conversationId)
+        .eq('id', messageId));
+    },
+
+    async setReaction(messageId, userId, emoji) {
+      return toEmptyResult(await client
+        .from('message_reactions')
+        .upsert({
+          message_id: messageId,
+          user_id: userId,
+          emoji,
+          created_at: new Date().toISOString()
+        }, { onConflict: 'message_id,user_id' }));
+    },
+
+    async deleteReaction(messageId, userId) {
+      return toEmptyResult(await client
+        .from('message_reactions')
+        .delete()
+        .eq('message_id', messageId)
+        .eq('user_id', userId));
+    },
+
+    async listReactions(messageIds) {
+      return toListResult(await client
+        .from('message_reactions')
+        .select('*')
+        .in('message_id', messageIds)
+        .order('created_at', { ascending: true }));
+    },
+
+    async deleteReactionsByUser(userId) {
+      return toEmptyResult(await client.from('message_reactions').delete().eq('user_id', userId));
+    },
+
+    async deleteMessages(conversationId) {
+      return toEmptyResult(await client
+        .from('messages')
+        .delete()
+        .eq('conversation_id', conversationId));
+    },
+
+    async deleteMessagesBySender(userId) {
+      return toEmptyResult(await client.from('messages').delete().eq('sender_id', userId));
+    },
+
+    async deleteExpiredMessages() {
+      return toEmptyResult(await client.rpc('delete_old_messages'));
+    }
+  };
+}
+
+function createAttachmentsRepo(client: SupabaseClient): AttachmentsRepo {
+  return {
+    async create(attachment) {
+      return toResult(await client.from('attachments').insert(attachment).select().single());
+    },
+
+    async findByIds(ids) {
+      return toListResult(await client.from('attachments').select('*').in('id', ids));
+    },
+
+    async linkToMessage(ids, messageId) {
+      return toEmptyResult(await client
+        .from('attachments')
+        .update({ message_id: messageId })
+        .in('id', ids));
+    },
+
+    async listByMessages(messageIds) {
+      return toListResult(await client
+        .from('attachments')
+        .select('*')
+        .in('message_id', messageIds)
+        .order('created_at', { ascending: true }));
+    },
+
+    async listByConversation(conversationId) {
+      return toListResult(await client
+        .from('attachments')
+        .select('*')
+        .eq('conversation_id', conversationId));
+    },
+
+    async listOrphaned(before) {
+      return toListResult(await client
+        .from('attachments')
+        .select('*')
+        .is('message_id', null)
+        .lt('created_at', before));
+    },
+
+    async deleteMany(ids) {
+      return toEmptyResult(await client.from('attachments').delete().in('id', ids));
+    }
+  };
+}
+
+function createBlocksRepo(client: SupabaseClient): BlocksRepo {
+  return {
+    async find(blockerId, blockedId) {
+      return toResult(await client
+        .from('blocks')
+        .select('*')
+        .eq('blocker_id', blockerId)
+        .eq('blocked_id', blockedId)
+        .maybeSingle());
+    },
+
+    async create(blockerId, blockedId) {
+      return toEmptyResult(await client
+        .from('blocks')
+        .insert({
+          blocker_id: blockerId,
+          blocked_id: blockedId,
+          created_at: new Date().toISOString()
+        }));
+    },
+
+    async delete(blockerId, blockedId) {
+      return toEmptyResult(await client
+        .from('blocks')
+        .delete()
+        .eq('blocker_id', blockerId)
+        .eq('blocked_id', blockedId));
+    },
+
+    async listByBlocker(blockerId, page) {
+      const ascending = page.direction === 'after';
+      let query = client
+        .from('blocks')
+        .select('*')
+        .eq('blocker_id', blockerId);
+
+      const filter = keysetFilter(page, 'blocked_id');
+      if (filter) {
+        query = query.or(filter);
+      }
+
+      return toPageResult(await query
+        .order('created_at', { ascending })
+        .order('blocked_id', { ascending })
+        .limit(page.limit + 1), page.limit);
+    },
+
+    async listInvolving(userIds) {
+      const ids = userIds.join(',');
+      return toListResult(await client
+        .from('blocks')
+        .select('*')
+        .or(`blocker_id.in.(${ids}),blocked_id.in.(${ids})`));
+    },
+
+    async deleteInvolving(userId) {
+      return toEmptyResult(await client
+        .from('blocks')
+        .delete()
+        .or(`blocker_id.eq.${userId},blocked_id.eq.${userId}`));
+    }
+  };
+}
+
+function createReportsRepo(client: SupabaseClient): ReportsRepo {
+  return {
+    async create(report) {
+      return toResult(await client
+        .from('reports')
+        .insert({
+          ...report,
+          status: 'open',
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single());
+    },
+
+    async findById(id) {
+      return toResult(await client.from('reports').select('*').eq('id', id).maybeSingle());
+    },
+
+    async list(statuses, page) {
+      const ascending = page.direction === 'after';
+      let query = client
+        .from('reports')
+        .select('*')
+        .in('status', statuses);
+
+      const filter = keysetFilter(page, 'id');
+      if (filter) {
+        query = query.or(filter);
+      }
+
+      return toPageResult(await query
+        .order('created_at', { ascending })
+        .order('id', { ascending })
+        .limit(page.limit + 1), page.limit);
+    },
+
+    async update(id, changes) {
+      return toEmptyResult(await client.from('reports').update(changes).eq('id', id));
+    },
+
+    async addMessages(messages) {
+      return toEmptyResult(await client
+        .from('report_messages')
+        .upsert(messages, { onConflict: 'report_id,message_id', ignoreDuplicates: true }));
+    },
+
+    async listMessages(reportId) {
+      return toListResult(await client
+        .from('report_messages')
+        .select('*')
+        .eq('report_id', reportId)
+        .order('sent_at', { ascending: true }));
+    },
+
+    async countAgainst(userId) {
+      const { count, error } = await client
+        .from('reports')
+        .select('id', { count: 'exact', head: true })
+        .eq('reported_user_id', userId);
+      if (error) {
+        return { data: null, error: { message: error.message, code: error.code } };
+      }
+      return { data: count ?? 0, error: null };
+    }
+  };
+}
+
+function createSanctionsRepo(client: SupabaseClient): SanctionsRepo {
+  return {
+    async create(sanction) {
+      return toResult(await client
+        .from('user_sanctions')
+        .insert({
+          ...sanction,
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single());
+    },
+
+    async findById(id) {
+      return toResult(await client.from('user_sanctions').select('*').eq('id', id).maybeSingle());
+    },
+
+    async listByUser(userId) {
+      return toListResult(await client
+        .from('user_sanctions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false }));
+    },
+
+    async listActive(userIds, kinds) {
+      return toListResult(await client
+        .from('user_sanctions')
+        .select('*')
+        .in('user_id', userIds)
+        .in('kind', kinds)
+        .is('revoked_at', null)
+        .or(`expires_at.is.null,expires_at.gt."${new Date().toISOString()}"`));
+    },
+
+    async revoke(id, revokedBy) {
+      return toEmptyResult(await client
+        .from('user_sanctions')
+        .update({ revoked_at: new Date().toISOString(), revoked_by: revokedBy })
+        .eq('id', id));
+    }
+  };
+}
+
+function createLocationSharesRepo(client: SupabaseClient): LocationSharesRepo {
+  return {
+    async create(share) {
+      return toResult(await client
+        .from('location_shares')
+        .insert({
+          ...share,
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single());
+    },
+
+    async findById(id) {
+      return toResult(await client.from('location_shares').select('*').eq('id', id).maybeSingle());
+    },
+
+    async listActiveByOwner(ownerId) {
+      return toListResult(await client
+        .from('location_shares')
+        .select('*')
+        .eq('owner_id', ownerId)
+        .is('revoked_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: false }));
+    },
+
+    async listActiveByConversation(conversationId) {
+      return toListResult(await client
+        .from('location_shares')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .is('revoked_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: false }));
+    },
+
+    async revoke(id) {
+      return toEmptyResult(await client
+        .from('location_shares')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id));
+    },
+
+    async revokeByConversation(conversationId, ownerId) {
+      let query = client
+        .from('location_shares')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('conversation_id', conversationId)
+        .is('revoked_at', null);
+
+      if (ownerId) {
+        query = query.eq('owner_id', ownerId);
+      }
+
+      return toEmptyResult(await query);
+    },
+
+    async revokeBetween(userA, userB) {
+      return toEmptyResult(await client
+        .from('location_shares')
+        .update({ revoked_at: new Date().toISOString() })
+        .is('revoked_at', null)
+        .or(`and(owner_id.eq.${userA},grantee_id.eq.${userB}),and(owner_id.eq.${userB},grantee_id.eq.${userA})`));
+    },
+
+    async deleteInvolving(userId) {
+      return toEmptyResult(await client
+        .from('location_shares')
+        .delete()
+        .or(`owner_id.eq.${userId},grantee_id.eq.${userId}`));
+    }
+  };
+}
+
+function createEncountersRepo(client: SupabaseClient): EncountersRepo {
+  return {
+    async findByPairs(pairs) {
+      // Fetches the cross product of both sides, then keeps the exact pairs
+      const result = toListResult<EncounterRow>(await client
+        .from('encounters')
+        .select('*')
+        .in('user_a', [...new Set(pairs.map(([a]) => a))])
+        .in('user_b', [...new Set(pairs.map(([, b]) => b))]));
+
+      if (result.error) {
+        return result;
+      }
+
+      const wanted = new Set(pairs.map(([a, b]) => `${a}:${b}`));
+      return { data: result.data.filter(e => wanted.has(`${e.user_a}:${e.user_b}`)), error: null };
+    },
+
+    async upsertMany(encounters) {
+      return toEmptyResult(await client
+        .from('encounters')
+        .upsert(encounters, { onConflict: 'user_a,user_b' }));
+    },
+
+    async listForUser(userId, page) {
+      const ascending = page.direction === 'after';
+      let query = client
+        .from('encounters')
+        .select('*')
+        .or(`user_a.eq.${userId},user_b.eq.${userId}`);
+
+      const filter = keysetFilter(page, 'id', 'last_crossed_at');
+      if (filter) {
+        query = query.or(filter);
+      }
+
+      return toPageResult(await query
+        .order('last_crossed_at', { ascending })
+        .order('id', { ascending })
+        .limit(page.limit + 1), page.limit);
+    },
+
+    async deleteInvolving(userId) {
+      return toEmptyResult(await client
+        .from('encounters')
+        .delete()
+        .or(`user_a.eq.${userId},user_b.eq.${userId}`));
+    }
+  };
+}
+
+function createVenuesRepo(client: SupabaseClient): VenuesRepo {
+  return {
+    async create(venue) {
+      return toResult(await client
+        .from('venues')
+        .insert({
+          ...venue,
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single());
+    },
+
+    async findById(id) {
+      return toResult(await client.from('venues').select('*').eq('id', id).maybeSingle());
+    },
+
+    async findByIds(ids) {
+      return toListResult(await client.from('venues').select('*').in('id', ids));
+    },
+
+    async listContaining(latitude, longitude) {
+      return toListResult(await client
+        .from('venues')
+        .select('*')
+        .lte('min_latitude', latitude)
+        .gte('max_latitude', latitude)
+        .lte('min_longitude', longitude)
+        .gte('max_longitude', longitude));
+    },
+
+    async delete(id) {
+      return toEmptyResult(await client.from('venues').delete().eq('id', id));
+    },
+
+    async checkIn(venueId, userId, source) {
+      return toResult(await client
+        .from('venue_check_ins')
+        .insert({
+          venue_id: venueId,
+          user_id: userId,
+          source,
+          checked_in_at: new Date().toISOString()
+        })
+        .select()
+        .single());
+    },
+
+    async findOpenCheckIn(venueId, userId) {
+      return toResult(await client
+        .from('venue_check_ins')
+        .select('*')
+        .eq('venue_id', venueId)
+        .eq('user_id', userId)
+        .is('checked_out_at', null)
+        .maybeSingle());
+    },
+
+    async listOpenCheckIns(userIds) {
+      return toListResult(await client
+        .from('venue_check_ins')
+        .select('*')
+        .in('user_id', userIds)
+        .is('checked_out_at', null));
+    },
+
+    async listPeople(venueId, page) {
+      const ascending = page.direction === 'after';
+      let query = client
+        .from('venue_check_ins')
+        .select('*')
+        .eq('venue_id', venueId)
+        .is('checked_out_at', null);
+
+      const filter = keysetFilter(page, 'id', 'checked_in_at');
+      if (filter) {
+        query = query.or(filter);
+      }
+
+      return toPageResult(await query
+        .order('checked_in_at', { ascending })
+        .order('id', { ascending })
+        .limit(page.limit + 1), page.limit);
+    },
+
+    async checkOut(checkInIds, reason) {
+      return toEmptyResult(await client
+        .from('venue_check_ins')
+        .update({ checked_out_at: new Date().toISOString(), check_out_reason: reason })
+        .in('id', checkInIds)
+        .is('checked_out_at', null));
+    },
+
+    async deleteCheckInsByUser(userId) {
+      return toEmptyResult(await client.from('venue_check_ins').delete().eq('user_id', userId));
+    }
+  };
+}
+
+function createStorageRepo(client: SupabaseClient): StorageRepo {
+  return {
+    async createSignedUploadUrl(bucket, path) {
+      const { data, error } = await client.storage.from(bucket).createSignedUploadUrl(path);
+      if (error || !data) {
+        return { data: null, error: { message: error?.message || 'No upload URL returned' } };
+      }
+      return { data: { signedUrl: data.signedUrl, token: data.token }, error: null };
+    },
+
+    getPublicUrl(bucket, path) {
+      return client.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+    },
+
+    async createSignedUrls(bucket, paths, expiresInSeconds) {
+      const { data, error } = await client.storage.from(bucket).createSignedUrls(paths, expiresInSeconds);
+      if (error || !data) {
+        return { data: null, error: { message: error?.message || 'No signed URLs returned' } };
+      }
+      const urls = new Map(data.map(item => [item.path, item.signedUrl]));
+      return { data: paths.map(path => urls.get(path) || ''), error: null };
+    },
+
+    async remove(bucket, paths) {
+      const { error } = await client.storage.from(bucket).remove(paths);
+      return error ? { data: null, error: { message: error.message } } : { data: null, error: null };
+    }
+  };
+}
+
+export function createSupabaseRepositories(client: SupabaseClient): Repositories {
+  return {
+    users: createUsersRepo(client),
+    locations: createLocationsRepo(client),
+    conversations: createConversationsRepo(client),
+    attachments: createAttachmentsRepo(client),
+    blocks: createBlocksRepo(client),
+    reports: createReportsRepo(client),
+    sanctions: createSanctionsRepo(client),
+    locationShares: createLocationSharesRepo(client),
+    encounters: createEncountersRepo(client),
+    venues: createVenuesRepo(client),
+    storage: createStorageRepo(client)
+  };
+}
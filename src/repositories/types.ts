@@ -0,0 +1,495 @@
+import { PageRequest, PageResult } from '../lib/pagination';
+
+// Row shapes mirror the Supabase tables; repositories return them as-is
+
+export type PresenceStatus = 'online' | 'offline';
+
+export interface UserRow {
+  id: string;
+  email: string;
+  name: string | null;
+  bio: string | null;
+  age: number | null;
+  location: string | null;
+  gender: string | null;
+  profile_image_path: string | null;
+  profile_image_url: string | null;
+  presence_status: PresenceStatus | null;
+  last_active_at: string | null;
+  location_flagged_until: string | null;
+  location_flag_reason: LocationFlagReason | null;
+  location_precision: LocationPrecision;
+  location_visibility: LocationVisibility;
+  encounters_enabled: boolean;
+  venue_auto_check_in: boolean;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export type NewUser = Pick<UserRow, 'id' | 'email' | 'name' | 'created_at' | 'updated_at'>;
+
+export type UserUpdate = Partial<Omit<UserRow, 'id' | 'email' | 'created_at'>>;
+
+export interface AuthUserRecord {
+  id: string;
+  email: string | null;
+  name: string | null;
+  created_at: string;
+}
+
+// Grid others see a user's location snapped to (see lib/privacy)
+export type LocationPrecision = 'precise' | 'approximate' | 'coarse';
+
+// Who may see a user's location without an explicit share
+export type LocationVisibility = 'nobody' | 'conversations' | 'nearby';
+
+// Why a location update was judged implausible
+export type LocationFlagReason = 'out_of_range' | 'future_timestamp' | 'teleport';
+
+export interface LocationRow {
+  id: string;
+  user_id: string;
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  speed: number | null;
+  heading: number | null;
+  recorded_at: string;
+  created_at: string;
+}
+
+export type NewLocation = Omit<LocationRow, 'id' | 'accuracy' | 'speed' | 'heading'> & {
+  accuracy?: number | null;
+  speed?: number | null;
+  heading?: number | null;
+};
+
+// One-to-one conversations start as a pending request until the recipient accepts
+export type RequestStatus = 'pending' | 'accepted';
+
+export interface ConversationRow {
+  id: string;
+  is_terminated: boolean;
+  is_group: boolean;
+  title: string | null;
+  avatar_url: string | null;
+  request_status: RequestStatus;
+  requested_by: string | null;
+  // Disappearing-message timer; null when off
+  message_ttl_seconds: number | null;
+  // Set while a block separates the two people of a one-to-one conversation
+  frozen_at: string | null;
+  created_at: string;
+  // created_at of the newest message, or of the conversation itself
+  last_activity_at: string;
+}
+
+export type NewConversation = Pick<ConversationRow, 'is_group'> &
+  Partial<Pick<ConversationRow, 'title' | 'avatar_url' | 'request_status' | 'requested_by'>>;
+
+export type ConversationUpdate = Partial<Pick<ConversationRow, 'title' | 'avatar_url' | 'request_status' | 'message_ttl_seconds' | 'frozen_at'>>;
+
+// `inbox`: accepted conversations plus requests the user sent; `requests`: pending requests sent to the user
+export type ConversationView = 'inbox' | 'requests';
+
+// Groups have one owner; admins manage members; one-to-one participants are plain members
+export type ParticipantRole = 'owner' | 'admin' | 'member';
+
+export interface ConversationParticipantRow {
+  conversation_id: string;
+  user_id: string;
+  joined_at: string;
+  role: ParticipantRole;
+  last_read_message_id: string | null;
+  // created_at of the last read message (the read position), not the time of reading
+  last_read_at: string | null;
+}
+
+export interface UserConversation {
+  conversation_id: string;
+  conversations: ConversationRow;
+}
+
+// System messages record conversation events (such as timer changes) in the timeline
+export type MessageKind = 'user' | 'system';
+
+export interface MessageRow {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  body: string;
+  kind: MessageKind;
+  created_at: string;
+  edited_at: string | null;
+  // Set from the conversation's timer when sent; expired messages are never returned
+  expires_at: string | null;
+}
+
+export type NewMessage = Omit<MessageRow, 'id' | 'edited_at' | 'kind' | 'expires_at'> &
+  Partial<Pick<MessageRow, 'kind' | 'expires_at'>>;
+
+export type MessageUpdate = Pick<MessageRow, 'body' | 'edited_at'>;
+
+// One reaction per user per message
+export interface ReactionRow {
+  message_id: string;
+  user_id: string;
+  emoji: string;
+  created_at: string;
+}
+
+export interface AttachmentRow {
+  id: string;
+  conversation_id: string;
+  uploader_id: string | null;
+  // Null until the message is sent, and after it is deleted
+  message_id: string | null;
+  storage_path: string;
+  content_type: string;
+  created_at: string;
+}
+
+export type NewAttachment = Omit<AttachmentRow, 'id' | 'message_id'>;
+
+export interface BlockRow {
+  blocker_id: string;
+  blocked_id: string;
+  created_at: string;
+}
+
+export type ReportCategory = 'harassment' | 'fake_profile' | 'spam' | 'inappropriate_content' | 'other';
+
+// `open` and `reviewing` are the moderation queue; `resolved` and `dismissed` are closed
+export type ReportStatus = 'open' | 'reviewing' | 'resolved' | 'dismissed';
+
+export type SanctionKind = 'warn' | 'suspend' | 'ban';
+
+export interface ReportRow {
+  id: string;
+  // Null once the reporter's account is deleted
+  reporter_id: string | null;
+  reported_user_id: string;
+  category: ReportCategory;
+  details: string | null;
+  conversation_id: string | null;
+  status: ReportStatus;
+  // Sanction applied when the report was resolved, if any
+  action: SanctionKind | null;
+  resolution_note: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export type NewReport = Pick<ReportRow, 'reporter_id' | 'reported_user_id' | 'category' | 'details' | 'conversation_id'>;
+
+export type ReportUpdate = Partial<Pick<ReportRow, 'status' | 'action' | 'resolution_note' | 'resolved_by' | 'resolved_at'>>;
+
+// Copy of a reported message, taken when the report is filed
+export interface ReportMessageRow {
+  report_id: string;
+  message_id: string;
+  sender_id: string | null;
+  body: string;
+  sent_at: string;
+}
+
+export interface SanctionRow {
+  id: string;
+  user_id: string;
+  kind: SanctionKind;
+  reason: string;
+  // Null for warnings and permanent sanctions
+  expires_at: string | null;
+  report_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  // Set when an admin lifts the sanction early
+  revoked_at: string | null;
+  revoked_by: string | null;
+}
+
+export type NewSanction = Omit<SanctionRow, 'id' | 'created_at' | 'revoked_at' | 'revoked_by'>;
+
+// Grants either one user (grantee_id) or every participant of a conversation; the latter is
+// also the conversation's live-location session
+export interface LocationShareRow {
+  id: string;
+  owner_id: string;
+  grantee_id: string | null;
+  conversation_id: string | null;
+  expires_at: string;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+export type NewLocationShare = Omit<LocationShareRow, 'id' | 'created_at' | 'revoked_at'>;
+
+// Two users who crossed paths, stored once per pair with user_a < user_b. Place and times
+// are bucketed before they are stored.
+export interface EncounterRow {
+  id: string;
+  user_a: string;
+  user_b: string;
+  times_crossed: number;
+  first_crossed_at: string;
+  last_crossed_at: string;
+  latitude: number;
+  longitude: number;
+  created_at: string;
+}
+
+export type EncounterUpsert = Omit<EncounterRow, 'id' | 'created_at'>;
+
+// A circle (latitude, longitude, radius_meters) or a polygon ring of [longitude, latitude]
+// pairs; the bounding box covers either shape
+export interface VenueRow {
+  id: string;
+  name: string;
+  latitude: number | null;
+  longitude: number | null;
+  radius_meters: number | null;
+  polygon: [number, number][] | null;
+  min_latitude: number;
+  max_latitude: number;
+  min_longitude: number;
+  max_longitude: number;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type NewVenue = Omit<VenueRow, 'id' | 'created_at'>;
+
+export type VenueCheckInSource = 'auto' | 'manual';
+
+export type VenueCheckOutReason = 'manual' | 'left' | 'offline';
+
+export interface VenueCheckInRow {
+  id: string;
+  venue_id: string;
+  user_id: string;
+  source: VenueCheckInSource;
+  checked_in_at: string;
+  checked_out_at: string | null;
+  check_out_reason: VenueCheckOutReason | null;
+}
+
+export interface SignedUploadUrl {
+  signedUrl: string;
+  token: string;
+}
+
+export interface RepoError {
+  message: string;
+  code?: string;
+}
+
+// Same { data, error } contract as supabase-js, so routes handle failures the same way
+export type RepoResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: RepoError };
+
+export interface UsersRepo {
+  findById(id: string): Promise<RepoResult<UserRow | null>>;
+  findByIds(ids: string[]): Promise<RepoResult<UserRow[]>>;
+  create(user: NewUser): Promise<RepoResult<UserRow>>;
+  update(id: string, changes: UserUpdate): Promise<RepoResult<null>>;
+  updateMany(ids: string[], changes: UserUpdate): Promise<RepoResult<null>>;
+  delete(id: string): Promise<RepoResult<null>>;
+  // Users marked online whose last heartbeat is before `before`
+  listOnlineInactiveSince(before: string): Promise<RepoResult<UserRow[]>>;
+  findAuthUser(id: string): Promise<RepoResult<AuthUserRecord | null>>;
+  deleteAuthUser(id: string): Promise<RepoResult<null>>;
+}
+
+// Cut-offs for pruning location history (see prune_locations in Postgres)
+export interface LocationPrunePolicy {
+  // Fixes before this are thinned to one per user and interval
+  downsampleBefore: string;
+  // Fixes before this are deleted
+  deleteBefore: string;
+  intervalSeconds: number;
+  // Only count what would be removed
+  dryRun: boolean;
+}
+
+export interface LocationPruneResult {
+  downsampled: number;
+  deleted: number;
+}
+
+export interface LocationsRepo {
+  insertMany(locations: NewLocation[]): Promise<RepoResult<LocationRow[]>>;
+  // Most recent fix for a user recorded at or after `since`
+  findLatest(userId: string, since: string): Promise<RepoResult<LocationRow | null>>;
+  // Fixes of every user recorded at or after `since`, newest first
+  listSince(since: string): Promise<RepoResult<LocationRow[]>>;
+  // The latest fix of each user recorded at or after `since`
+  listLatestPerUser(since: string): Promise<RepoResult<LocationRow[]>>;
+  // A user's fixes recorded in [from, to], oldest first, at most `limit`
+  listByUser(userId: string, from: string, to: string, limit: number): Promise<RepoResult<LocationRow[]>>;
+  // Rows removed (or, on a dry run, that would be) by downsampling and by deletion
+  prune(policy: LocationPrunePolicy): Promise<RepoResult<LocationPruneResult>>;
+  deleteByUser(userId: string): Promise<RepoResult<null>>;
+}
+
+export interface ConversationsRepo {
+  create(conversation: NewConversation): Promise<RepoResult<ConversationRow>>;
+  findById(id: string): Promise<RepoResult<ConversationRow | null>>;
+  findByIds(ids: string[]): Promise<RepoResult<ConversationRow[]>>;
+  update(id: string, changes: ConversationUpdate): Promise<RepoResult<null>>;
+  terminate(id: string): Promise<RepoResult<null>>;
+  addParticipants(conversationId: string, userIds: string[], role: ParticipantRole): Promise<RepoResult<null>>;
+  removeParticipant(conversationId: string, userId: string): Promise<RepoResult<null>>;
+  setParticipantRole(conversationId: string, userId: string, role: ParticipantRole): Promise<RepoResult<null>>;
+  findParticipant(conversationId: string, userId: string): Promise<RepoResult<ConversationParticipantRow | null>>;
+  listParticipants(conversationId: string): Promise<RepoResult<ConversationParticipantRow[]>>;
+  // Participant rows of all the given conversations
+  listParticipantsIn(conversationIds: string[]): Promise<RepoResult<ConversationParticipantRow[]>>;
+  markRead(conversationId: string, userId: string, messageId: string, readAt: string): Promise<RepoResult<null>>;
+  // Unread messages from others per conversation, for the given user; senders blocked in either
+  // direction are left out, as in message listings
+  countUnread(userId: string, conversationIds: string[]): Promise<RepoResult<Record<string, number>>>;
+  // Every participant row belonging to any of the given users
+  listParticipationsOf(userIds: string[]): Promise<RepoResult<ConversationParticipantRow[]>>;
+  // Active conversations of a user, keyed by conversation (last_activity_at, id)
+  listForUser(userId: string, view: ConversationView, page: PageRequest): Promise<RepoResult<PageResult<UserConversation>>>;
+  removeUserParticipations(userId: string): Promise<RepoResult<null>>;
+  insertMessage(message: NewMessage): Promise<RepoResult<MessageRow>>;
+  findMessage(conversationId: string, messageId: string): Promise<RepoResult<MessageRow | null>>;
+  findMessages(conversationId: string, messageIds: string[]): Promise<RepoResult<MessageRow[]>>;
+  findLatestMessage(conversationId: string): Promise<RepoResult<MessageRow | null>>;
+  // User (non-system) messages the sender has in the conversation
+  countMessagesBySender(conversationId: string, senderId: string): Promise<RepoResult<number>>;
+  // Newest message of each given conversation that has any
+  listLatestMessages(conversationIds: string[]): Promise<RepoResult<MessageRow[]>>;
+  // Messages of a conversation, keyed by (created_at, id)
+  listMessages(conversationId: string, page: PageRequest): Promise<RepoResult<PageResult<MessageRow>>>;
+  updateMessage(conversationId: string, messageId: string, changes: MessageUpdate): Promise<RepoResult<null>>;
+  // Deletes a single message along with its reactions
+  deleteMessage(conversationId: string, messageId: string): Promise<RepoResult<null>>;
+  // Adds or replaces the user's reaction
+  setReaction(messageId: string, userId: string, emoji: string): Promise<RepoResult<null>>;
+  deleteReaction(messageId: string, userId: string): Promise<RepoResult<null>>;
+  listReactions(messageIds: string[]): Promise<RepoResult<ReactionRow[]>>;
+  deleteReactionsByUser(userId: string): Promise<RepoResult<null>>;
+  deleteMessages(conversationId: string): Promise<RepoResult<null>>;
+  deleteMessagesBySender(userId: string): Promise<RepoResult<null>>;
+  // Purges messages whose expires_at has passed (delete_old_messages in Postgres)
+  deleteExpiredMessages(): Promise<RepoResult<null>>;
+}
+
+export interface AttachmentsRepo {
+  create(attachment: NewAttachment): Promise<RepoResult<AttachmentRow>>;
+  findByIds(ids: string[]): Promise<RepoResult<AttachmentRow[]>>;
+  linkToMessage(ids: string[], messageId: string): Promise<RepoResult<null>>;
+  listByMessages(messageIds: string[]): Promise<RepoResult<AttachmentRow[]>>;
+  listByConversation(conversationId: string): Promise<RepoResult<AttachmentRow[]>>;
+  // Attachments without a message (never sent, or the message is gone) created before `before`
+  listOrphaned(before: string): Promise<RepoResult<AttachmentRow[]>>;
+  deleteMany(ids: string[]): Promise<RepoResult<null>>;
+}
+
+export interface BlocksRepo {
+  find(blockerId: string, blockedId: string): Promise<RepoResult<BlockRow | null>>;
+  create(blockerId: string, blockedId: string): Promise<RepoResult<null>>;
+  delete(blockerId: string, blockedId: string): Promise<RepoResult<null>>;
+  // Blocks created by a user, keyed by (created_at, blocked_id)
+  listByBlocker(blockerId: string, page: PageRequest): Promise<RepoResult<PageResult<BlockRow>>>;
+  // Blocks in either direction that involve any of the users
+  listInvolving(userIds: string[]): Promise<RepoResult<BlockRow[]>>;
+  deleteInvolving(userId: string): Promise<RepoResult<null>>;
+}
+
+export interface ReportsRepo {
+  create(report: NewReport): Promise<RepoResult<ReportRow>>;
+  findById(id: string): Promise<RepoResult<ReportRow | null>>;
+  // Reports in the given statuses, keyed by (created_at, id)
+  list(statuses: ReportStatus[], page: PageRequest): Promise<RepoResult<PageResult<ReportRow>>>;
+  update(id: string, changes: ReportUpdate): Promise<RepoResult<null>>;
+  addMessages(messages: ReportMessageRow[]): Promise<RepoResult<null>>;
+  // Snapshots of a report, oldest message first
+  listMessages(reportId: string): Promise<RepoResult<ReportMessageRow[]>>;
+  countAgainst(userId: string): Promise<RepoResult<number>>;
+}
+
+export interface LocationSharesRepo {
+  create(share: NewLocationShare): Promise<RepoResult<LocationShareRow>>;
+  findById(id: string): Promise<RepoResult<LocationShareRow | null>>;
+  // Shares granted by the owner that are neither expired nor revoked, newest first
+  listActiveByOwner(ownerId: string): Promise<RepoResult<LocationShareRow[]>>;
+  // Active shares to a conversation, newest first
+  listActiveByConversation(conversationId: string): Promise<RepoResult<LocationShareRow[]>>;
+  revoke(id: string): Promise<RepoResult<null>>;
+  // Ends the active shares to a conversation, only those of `ownerId` when given
+  revokeByConversation(conversationId: string, ownerId?: string): Promise<RepoResult<null>>;
+  // Ends the active shares either user granted directly to the other
+  revokeBetween(userA: string, userB: string): Promise<RepoResult<null>>;
+  // Shares the user granted or received
+  deleteInvolving(userId: string): Promise<RepoResult<null>>;
+}
+
+export interface EncountersRepo {
+  // Rows for the given pairs that exist, each pair ordered as [user_a, user_b]
+  findByPairs(pairs: [string, string][]): Promise<RepoResult<EncounterRow[]>>;
+  // Inserts or replaces by (user_a, user_b)
+  upsertMany(encounters: EncounterUpsert[]): Promise<RepoResult<null>>;
+  // Encounters involving a user, keyed by (last_crossed_at, id)
+  listForUser(userId: string, page: PageRequest): Promise<RepoResult<PageResult<EncounterRow>>>;
+  deleteInvolving(userId: string): Promise<RepoResult<null>>;
+}
+
+export interface VenuesRepo {
+  create(venue: NewVenue): Promise<RepoResult<VenueRow>>;
+  findById(id: string): Promise<RepoResult<VenueRow | null>>;
+  findByIds(ids: string[]): Promise<RepoResult<VenueRow[]>>;
+  // Venues whose bounding box contains the point; callers test the exact shape
+  listContaining(latitude: number, longitude: number): Promise<RepoResult<VenueRow[]>>;
+  delete(id: string): Promise<RepoResult<null>>;
+  checkIn(venueId: string, userId: string, source: VenueCheckInSource): Promise<RepoResult<VenueCheckInRow>>;
+  findOpenCheckIn(venueId: string, userId: string): Promise<RepoResult<VenueCheckInRow | null>>;
+  // Check-ins not yet checked out, of any of the users
+  listOpenCheckIns(userIds: string[]): Promise<RepoResult<VenueCheckInRow[]>>;
+  // Open check-ins at a venue, keyed by (checked_in_at, id)
+  listPeople(venueId: string, page: PageRequest): Promise<RepoResult<PageResult<VenueCheckInRow>>>;
+  checkOut(checkInIds: string[], reason: VenueCheckOutReason): Promise<RepoResult<null>>;
+  deleteCheckInsByUser(userId: string): Promise<RepoResult<null>>;
+}
+
+export interface SanctionsRepo {
+  create(sanction: NewSanction): Promise<RepoResult<SanctionRow>>;
+  findById(id: string): Promise<RepoResult<SanctionRow | null>>;
+  // Newest first
+  listByUser(userId: string): Promise<RepoResult<SanctionRow[]>>;
+  // Sanctions of the given kinds that are neither expired nor revoked
+  listActive(userIds: string[], kinds: SanctionKind[]): Promise<RepoResult<SanctionRow[]>>;
+  revoke(id: string, revokedBy: string): Promise<RepoResult<null>>;
+}
+
+export interface StorageRepo {
+  createSignedUploadUrl(bucket: string, path: string): Promise<RepoResult<SignedUploadUrl>>;
+  getPublicUrl(bucket: string, path: string): string;
+  // Time-limited download URLs, in the order of `paths`
+  createSignedUrls(bucket: string, paths: string[], expiresInSeconds: number): Promise<RepoResult<string[]>>;
+  remove(bucket: string, paths: string[]): Promise<RepoResult<null>>;
+}
+
+export interface Repositories {
+  users: UsersRepo;
+  locations: LocationsRepo;
+  conversations: ConversationsRepo;
+  attachments: AttachmentsRepo;
+  blocks: BlocksRepo;
+  reports: ReportsRepo;
+  sanctions: SanctionsRepo;
+  locationShares: LocationSharesRepo;
+  encounters: EncountersRepo;
+  venues: VenuesRepo;
+  storage: StorageRepo;
+}
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    repos: Repositories;
+  }
+}
@@ -1,31 +1,28 @@
-import { FastifyInstance } from 'fastify';
-import { supabaseAdmin, verifyToken } from '../lib/supabase';
-
-interface DeleteAccountBody {
-  confirmation: boolean;
-}
-
-export async function accountRoutes(fastify: FastifyInstance) {
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { UserUpdate } from '../repositories/types';
+import { SuccessResponse, errorResponses } from '../schemas/common';
+import {
+  AccountProfile,
+  DeleteAccountBody,
+  DeleteAccountResponse,
+  UpdateProfileBody
+} from '../schemas/account';
+
+export const accountRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
   // Get user profile
-  fastify.get('/account/profile', async (request, reply) => {
-    try {
-      const authHeader = request.headers.authorization;
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return reply.code(401).send({ error: 'Unauthorized' });
+  fastify.get('/account/profile', {
+    config: { auth: true },
+    schema: {
+      tags: ['account'],
+      summary: 'Get the caller\'s own profile, creating it if missing',
+      response: {
+        200: AccountProfile,
+        ...errorResponses(401, 404, 500)
       }
-
-      const token = authHeader.substring(7);
-      const verified = await verifyToken(token);
-      
-      if (!verified) {
-        return reply.code(401).send({ error: 'Invalid token' });
-      }
-
-      const { data: profile, error } = await supabaseAdmin
-        .from('users')
-        .select('*')
-        .eq('id', verified.userId)
-        .maybeSingle();
+    }
+  }, async (request, reply) => {
+    try {
+      const { data: profile, error } = await fastify.repos.users.findById(request.user.userId);
 
       if (error) {
         fastify.log.error({ err: error }, 'Error fetching profile');
@@ -35,35 +32,31 @@ export async function accountRoutes(fastify: FastifyInstance) {
       // If profile doesn't exist, create it as a fallback
       // This handles edge cases where the trigger didn't fire
       if (!profile) {
-        fastify.log.warn({ userId: verified.userId }, 'Profile not found, attempting to create');
+        fastify.log.warn({ userId: request.user.userId }, 'Profile not found, attempting to create');
         
         // Get user info from auth
-        const { data: authUser, error: authError } = await supabaseAdmin.auth.admin.getUserById(verified.userId);
+        const { data: authUser, error: authError } = await fastify.repos.users.findAuthUser(request.user.userId);
         
-        if (authError || !authUser) {
+        if (authError || !authUser || !authUser.email) {
           fastify.log.error({ err: authError }, 'Auth user not found');
           return reply.code(404).send({ error: 'User not found' });
         }
 
         // Create the missing user record
-        const { data: newProfile, error: createError } = await supabaseAdmin
-          .from('users')
-          .insert({
-            id: authUser.user.id,
-            email: authUser.user.email!,
-            name: authUser.user.user_metadata?.name || authUser.user.email!.split('@')[0],
-            created_at: authUser.user.created_at,
-            updated_at: new Date().toISOString()
-          })
-          .select()
-          .single();
+        const { data: newProfile, error: createError } = await fastify.repos.users.create({
+          id: authUser.id,
+          email: authUser.email,
+          name: authUser.name || authUser.email.split('@')[0],
+          created_at: authUser.created_at,
+          updated_at: new Date().toISOString()
+        });
 
         if (createError) {
           fastify.log.error({ err: createError }, 'Error creating profile');
           return reply.code(500).send({ error: 'Failed to create profile' });
         }
 
-        fastify.log.info({ userId: verified.userId }, 'Profile created successfully');
+        fastify.log.info({ userId: request.user.userId }, 'Profile created successfully');
         return newProfile;
       }
 
@@ -75,42 +68,35 @@ export async function accountRoutes(fastify: FastifyInstance) {
   });
 
   // Delete user account
-  fastify.post('/account/delete', async (request, reply) => {
-    try {
-      const authHeader = request.headers.authorization;
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return reply.code(401).send({ error: 'Unauthorized' });
-      }
-
-      const token = authHeader.substring(7);
-      const verified = await verifyToken(token);
-      
-      if (!verified) {
-        return reply.code(401).send({ error: 'Invalid token' });
+  fastify.post('/account/delete', {
+    config: { auth: true },
+    schema: {
+      tags: ['account'],
+      summary: 'Permanently delete the caller\'s account and data',
+      body: DeleteAccountBody,
+      response: {
+        200: DeleteAccountResponse,
+        ...errorResponses(400, 401, 500)
       }
-
-      const { confirmation } = request.body as DeleteAccountBody;
+    }
+  }, async (request, reply) => {
+    try {
+      const { confirmation } = request.body;
 
       if (!confirmation) {
         return reply.code(400).send({ error: 'Confirmation required' });
       }
 
-      const userId = verified.userId;
+      const userId = request.user.userId;
 
       // Log deletion request for audit
       fastify.log.info(`Account deletion requested for user: ${userId}`);
 
       // Delete user's profile images from storage
-      const { data: userData } = await supabaseAdmin
-        .from('users')
-        .select('profile_image_path')
-        .eq('id', userId)
-        .single();
+      const { data: userData } = await fastify.repos.users.findById(userId);
 
       if (userData?.profile_image_path) {
-        const { error: storageError } = await supabaseAdmin.storage
-          .from('profiles')
-          .remove([userData.profile_image_path]);
+        const { error: storageError } = await fastify.repos.storage.remove('profiles', [userData.profile_image_path]);
 
         if (storageError) {
           fastify.log.error({ err: storageError }, 'Error deleting profile image');
@@ -118,34 +104,32 @@ export async function accountRoutes(fastify: FastifyInstance) {
       }
 
       // Delete user's locations
-      await supabaseAdmin
-        .from('locations')
-        .delete()
-        .eq('user_id', userId);
+      await fastify.repos.locations.deleteByUser(userId);
+      fastify.locationIndex.remove(userId);
 
       // Delete user's messages
-      await supabaseAdmin
-        .from('messages')
-        .delete()
-        .eq('sender_id', userId);
+      await fastify.repos.conversations.deleteMessagesBySender(userId);
+
+      // Delete user's reactions on other people's messages
+      await fastify.repos.conversations.deleteReactionsByUser(userId);
 
       // Delete user's conversation participations
-      await supabaseAdmin
-        .from('conversation_participants')
-        .delete()
-        .eq('user_id', userId);
+      await fastify.repos.conversations.removeUserParticipations(userId);
 
       // Delete blocks where user is blocker or blocked
-      await supabaseAdmin
-        .from('blocks')
-        .delete()
-        .or(`blocker_id.eq.${userId},blocked_id.eq.${userId}`);
+      await fastify.repos.blocks.deleteInvolving(userId);
+
+      // Delete location shares the user granted or received
+      await fastify.repos.locationShares.deleteInvolving(userId);
+
+      // Delete crossed paths with other users
+      await fastify.repos.encounters.deleteInvolving(userId);
+
+      // Delete venue check-ins
+      await fastify.repos.venues.deleteCheckInsByUser(userId);
 
       // Delete user record from users table
-      const { error: userError } = await supabaseAdmin
-        .from('users')
-        .delete()
-        .eq('id', userId);
+      const { error: userError } = await fastify.repos.users.delete(userId);
 
       if (userError) {
         fastify.log.error({ err: userError }, 'Error deleting user');
@@ -153,7 +137,7 @@ export async function accountRoutes(fastify: FastifyInstance) {
       }
 
       // Delete from Supabase Auth
-      const { error: authError } = await supabaseAdmin.auth.admin.deleteUser(userId);
+      const { error: authError } = await fastify.repos.users.deleteAuthUser(userId);
 
       if (authError) {
         fastify.log.error({ err: authError }, 'Error deleting auth user');
@@ -169,30 +153,24 @@ export async function accountRoutes(fastify: FastifyInstance) {
   });
 
   // Update user profile (name, bio, age, location, gender - all optional)
-  fastify.patch('/account/profile', async (request, reply) => {
-    try {
-      const authHeader = request.headers.authorization;
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return reply.code(401).send({ error: 'Unauthorized' });
-      }
-
-      const token = authHeader.substring(7);
-      const verified = await verifyToken(token);
-      
-      if (!verified) {
-        return reply.code(401).send({ error: 'Invalid token' });
+  fastify.patch('/account/profile', {
+    config: { auth: true },
+    schema: {
+      tags: ['account'],
+      summary: 'Update the caller\'s profile fields',
+      body: UpdateProfileBody,
+      response: {
+        200: SuccessResponse,
+        ...errorResponses(400, 401, 500)
       }
-
-      const { name, bio, age, location, gender } = request.body as { 
-        name?: string;
-        bio?: string;
-        age?: number;
-        location?: string;
-        gender?: string;
-      };
+    }
+  }, async (request, reply) => {
+    try {
+      // Lengths, age range and gender values are enforced by UpdateProfileBody
+      const { name, bio, age, location, gender } = request.body;
 
       // Build update object dynamically (only update provided fields)
-      const updates: any = {
+      const updates: UserUpdate = {
         updated_at: new Date().toISOString()
       };
 
@@ -204,19 +182,13 @@ export async function accountRoutes(fastify: FastifyInstance) {
         updates.name = name.trim();
       }
 
-      // Validate and add bio if provided
+      // Add bio if provided
       if (bio !== undefined) {
-        if (bio.length > 500) {
-          return reply.code(400).send({ error: 'Bio must be 500 characters or less' });
-        }
         updates.bio = bio.trim() || null;
       }
 
-      // Validate and add age if provided
+      // Add age if provided
       if (age !== undefined) {
-        if (age !== null && (age < 13 || age > 120)) {
-          return reply.code(400).send({ error: 'Age must be between 13 and 120' });
-        }
         updates.age = age;
       }
 
@@ -225,21 +197,12 @@ export async function accountRoutes(fastify: FastifyInstance) {
         updates.location = location.trim() || null;
       }
 
-      // Validate and add gender if provided
+      // Add gender if provided
       if (gender !== undefined) {
-        const validGenders = ['masculine', 'feminine', 'non-binary', 'other'];
-        if (gender !== null && !validGenders.includes(gender)) {
-          return reply.code(400).send({ 
-            error: 'Gender must be one of: masculine, feminine, non-binary, other' 
-          });
-        }
         updates.gender = gender;
       }
 
-      const { error } = await supabaseAdmin
-        .from('users')
-        .update(updates)
-        .eq('id', verified.userId);
+      const { error } = await fastify.repos.users.update(request.user.userId, updates);
 
       if (error) {
         fastify.log.error({ err: error }, 'Error updating profile');
@@ -252,4 +215,4 @@ export async function accountRoutes(fastify: FastifyInstance) {
       return reply.code(500).send({ error: 'Internal server error' });
     }
   });
-}
+};
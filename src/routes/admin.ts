@@ -0,0 +1,16 @@
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { moderationRoutes } from './moderation';
+import { venueAdminRoutes } from './venue';
+
+// Everything registered here is served under /api/admin and requires the admin role claim.
+// The check runs after authentication, so routes without config.auth are refused too.
+export const adminRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
+  fastify.addHook('onRequest', async (request, reply) => {
+    if (!request.user?.isAdmin) {
+      return reply.code(403).send({ error: 'Admin access required' });
+    }
+  });
+
+  await fastify.register(moderationRoutes);
+  await fastify.register(venueAdminRoutes);
+};
@@ -1,56 +1,40 @@
-import { FastifyInstance } from 'fastify';
-import { supabaseAdmin, verifyToken } from '../lib/supabase';
-
-interface BlockUserBody {
-  blockedUserId: string;
-}
-
-export async function blockRoutes(fastify: FastifyInstance) {
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { blockUser } from '../lib/blocks';
+import { setDirectConversationsFrozen } from '../lib/conversations';
+import { toPage, toPageRequest } from '../lib/pagination';
+import { PageQuery, SuccessResponse, errorResponses } from '../schemas/common';
+import { BlockedUserPage, BlockedUserParams, BlockUserBody } from '../schemas/block';
+
+export const blockRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
   // Block a user
-  fastify.post('/blocks', async (request, reply) => {
-    try {
-      const authHeader = request.headers.authorization;
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return reply.code(401).send({ error: 'Unauthorized' });
-      }
-
-      const token = authHeader.substring(7);
-      const verified = await verifyToken(token);
-      
-      if (!verified) {
-        return reply.code(401).send({ error: 'Invalid token' });
-      }
-
-      const { blockedUserId } = request.body as BlockUserBody;
-
-      if (!blockedUserId) {
-        return reply.code(400).send({ error: 'Blocked user ID is required' });
+  fastify.post('/blocks', {
+    config: { auth: true },
+    schema: {
+      tags: ['blocks'],
+      summary: 'Block a user, freezing any one-to-one conversation with them',
+      body: BlockUserBody,
+      response: {
+        200: SuccessResponse,
+        ...errorResponses(400, 401, 500)
       }
+    }
+  }, async (request, reply) => {
+    try {
+      const { blockedUserId } = request.body;
 
-      if (blockedUserId === verified.userId) {
+      if (blockedUserId === request.user.userId) {
         return reply.code(400).send({ error: 'Cannot block yourself' });
       }
 
       // Check if block already exists
-      const { data: existing } = await supabaseAdmin
-        .from('blocks')
-        .select('*')
-        .eq('blocker_id', verified.userId)
-        .eq('blocked_id', blockedUserId)
-        .single();
+      const { data: existing } = await fastify.repos.blocks.find(request.user.userId, blockedUserId);
 
       if (existing) {
         return reply.code(400).send({ error: 'User is already blocked' });
       }
 
       // Create block
-      const { error } = await supabaseAdmin
-        .from('blocks')
-        .insert({
-          blocker_id: verified.userId,
-          blocked_id: blockedUserId,
-          created_at: new Date().toISOString()
-        });
+      const { error } = await blockUser(fastify, request.blocks, request.user.userId, blockedUserId);
 
       if (error) {
         fastify.log.error({ err: error }, 'Error creating block');
@@ -65,33 +49,38 @@ export async function blockRoutes(fastify: FastifyInstance) {
   });
 
   // Unblock a user
-  fastify.delete('/blocks/:blockedUserId', async (request, reply) => {
-    try {
-      const authHeader = request.headers.authorization;
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return reply.code(401).send({ error: 'Unauthorized' });
-      }
-
-      const token = authHeader.substring(7);
-      const verified = await verifyToken(token);
-      
-      if (!verified) {
-        return reply.code(401).send({ error: 'Invalid token' });
+  fastify.delete('/blocks/:blockedUserId', {
+    config: { auth: true },
+    schema: {
+      tags: ['blocks'],
+      summary: 'Unblock a user; shared one-to-one conversations reopen unless they block the caller too',
+      params: BlockedUserParams,
+      response: {
+        200: SuccessResponse,
+        ...errorResponses(400, 401, 500)
       }
+    }
+  }, async (request, reply) => {
+    try {
+      const { blockedUserId } = request.params;
 
-      const { blockedUserId } = request.params as { blockedUserId: string };
-
-      const { error } = await supabaseAdmin
-        .from('blocks')
-        .delete()
-        .eq('blocker_id', verified.userId)
-        .eq('blocked_id', blockedUserId);
+      const { error } = await fastify.repos.blocks.delete(request.user.userId, blockedUserId);
 
       if (error) {
         fastify.log.error({ err: error }, 'Error removing block');
         return reply.code(500).send({ error: 'Failed to unblock user' });
       }
 
+      request.blocks.forget([request.user.userId, blockedUserId]);
+
+      const { data: stillBlocked, error: blockError } = await request.blocks.isBlocked(request.user.userId, blockedUserId);
+
+      if (blockError) {
+        fastify.log.error({ err: blockError }, 'Error checking blocks');
+      } else if (!stillBlocked) {
+        await setDirectConversationsFrozen(fastify, request.user.userId, blockedUserId, false);
+      }
+
       return { success: true };
     } catch (error) {
       fastify.log.error({ err: error }, 'Unblock user error');
@@ -100,35 +89,49 @@ export async function blockRoutes(fastify: FastifyInstance) {
   });
 
   // List blocked users
-  fastify.get('/blocks', async (request, reply) => {
-    try {
-      const authHeader = request.headers.authorization;
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return reply.code(401).send({ error: 'Unauthorized' });
+  fastify.get('/blocks', {
+    config: { auth: true },
+    schema: {
+      tags: ['blocks'],
+      summary: 'List users blocked by the caller, newest first',
+      querystring: PageQuery,
+      response: {
+        200: BlockedUserPage,
+        ...errorResponses(400, 401, 500)
       }
-
-      const token = authHeader.substring(7);
-      const verified = await verifyToken(token);
-      
-      if (!verified) {
-        return reply.code(401).send({ error: 'Invalid token' });
+    }
+  }, async (request, reply) => {
+    try {
+      const pageRequest = toPageRequest(request.query);
+      if ('error' in pageRequest) {
+        return reply.code(400).send({ error: pageRequest.error });
       }
 
-      const { data, error } = await supabaseAdmin
-        .from('blocks')
-        .select('blocked_id, created_at')
-        .eq('blocker_id', verified.userId)
-        .order('created_at', { ascending: false });
+      const { page } = pageRequest;
+      const { data, error } = await fastify.repos.blocks.listByBlocker(request.user.userId, page);
 
       if (error) {
         fastify.log.error({ err: error }, 'Error fetching blocks');
         return reply.code(500).send({ error: 'Failed to fetch blocked users' });
       }
 
-      return data || [];
+      const { items, nextCursor } = toPage(
+        data,
+        page,
+        block => ({ createdAt: block.created_at, id: block.blocked_id }),
+        'desc'
+      );
+
+      return {
+        blocks: items.map(block => ({
+          blocked_id: block.blocked_id,
+          created_at: block.created_at
+        })),
+        nextCursor
+      };
     } catch (error) {
       fastify.log.error({ err: error }, 'Get blocks error');
       return reply.code(500).send({ error: 'Internal server error' });
     }
   });
-}
+};
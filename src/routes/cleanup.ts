@@ -1,31 +1,53 @@
-import type { FastifyInstance } from 'fastify';
-import { supabaseAdmin } from '../lib/supabase';
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { deleteAttachments, PENDING_ATTACHMENT_TTL_MS } from '../lib/attachments';
+import { encounterSettingsFromEnv, recordEncounters } from '../lib/encounters';
+import { retentionPolicy, retentionSettingsFromEnv } from '../lib/locations';
+import { presenceChannel } from '../lib/realtime';
+import { checkOut } from '../lib/venues';
+import { errorResponses } from '../schemas/common';
+import {
+  CleanupEncountersResponse,
+  CleanupHeaders,
+  CleanupLocationsBody,
+  CleanupLocationsResponse,
+  CleanupMessagesResponse,
+  CleanupRequestBody,
+  CleanupStatusResponse,
+  InactiveUsersResponse
+} from '../schemas/cleanup';
 
-interface CleanupRequestBody {
-  secret?: string;
-}
+// Refuses everything when no secret is configured
+const hasCleanupSecret = (provided: string | undefined) => {
+  const expectedSecret = process.env.CLEANUP_SECRET;
+  return !!expectedSecret && !!provided && provided === expectedSecret;
+};
 
-export async function cleanupRoutes(fastify: FastifyInstance) {
+export const cleanupRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
   // Marcar usuários inativos como offline
-  fastify.post('/cleanup/inactive-users', async (request, reply) => {
+  fastify.post('/cleanup/inactive-users', {
+    schema: {
+      tags: ['cleanup'],
+      summary: 'Mark users without a recent heartbeat as offline',
+      response: {
+        200: InactiveUsersResponse,
+        ...errorResponses(500)
+      }
+    }
+  }, async (_request, reply) => {
     try {
       fastify.log.info('🧹 Starting inactive users cleanup');
 
       // Get users who are marked online but haven't sent heartbeat in 60 seconds
       const sixtySecondsAgo = new Date(Date.now() - 60 * 1000).toISOString();
 
-      const { data: inactiveUsers, error: fetchError } = await supabaseAdmin
-        .from('users')
-        .select('id, name, email, last_active_at, presence_status')
-        .eq('presence_status', 'online')
-        .lt('last_active_at', sixtySecondsAgo);
+      const { data: inactiveUsers, error: fetchError } = await fastify.repos.users.listOnlineInactiveSince(sixtySecondsAgo);
 
       if (fetchError) {
         fastify.log.error({ err: fetchError }, '❌ Error fetching inactive users');
         return reply.code(500).send({ error: 'Failed to fetch inactive users' });
       }
 
-      if (!inactiveUsers || inactiveUsers.length === 0) {
+      if (inactiveUsers.length === 0) {
         fastify.log.info('✅ No inactive users to clean up');
         return reply.send({ 
           success: true, 
@@ -42,10 +64,7 @@ export async function cleanupRoutes(fastify: FastifyInstance) {
       // Mark them as offline
       const userIds = inactiveUsers.map(u => u.id);
 
-      const { error: updateError } = await supabaseAdmin
-        .from('users')
-        .update({ presence_status: 'offline' })
-        .in('id', userIds);
+      const { error: updateError } = await fastify.repos.users.updateMany(userIds, { presence_status: 'offline' });
 
       if (updateError) {
         fastify.log.error({ err: updateError }, '❌ Error updating users');
@@ -54,6 +73,27 @@ export async function cleanupRoutes(fastify: FastifyInstance) {
 
       fastify.log.info({ count: inactiveUsers.length }, '✅ Marked inactive users as offline');
 
+      // Offline users are no longer at any venue
+      const { data: checkIns, error: checkInsError } = await fastify.repos.venues.listOpenCheckIns(userIds);
+
+      if (checkInsError) {
+        fastify.log.error({ err: checkInsError }, '❌ Error fetching venue check-ins');
+      } else {
+        const { error: checkOutError } = await checkOut(fastify, checkIns, 'offline');
+
+        if (checkOutError) {
+          fastify.log.error({ err: checkOutError }, '❌ Error checking out inactive users');
+        }
+      }
+
+      inactiveUsers.forEach(u => {
+        fastify.realtime.publish(presenceChannel(u.id), 'presence.changed', {
+          userId: u.id,
+          status: 'offline',
+          lastActiveAt: u.last_active_at
+        });
+      });
+
       return reply.send({ 
         success: true, 
         updated: inactiveUsers.length,
@@ -68,20 +108,28 @@ export async function cleanupRoutes(fastify: FastifyInstance) {
 
   // Protected endpoint to manually trigger message cleanup
   // This can be called by Railway Cron or manually for testing
-  fastify.post('/cleanup/messages', async (request, reply) => {
+  fastify.post('/cleanup/messages', {
+    schema: {
+      tags: ['cleanup'],
+      summary: 'Purge messages whose disappearing timer has run out',
+      body: CleanupRequestBody,
+      headers: CleanupHeaders,
+      response: {
+        200: CleanupMessagesResponse,
+        ...errorResponses(401, 500)
+      }
+    }
+  }, async (request, reply) => {
     try {
-      const body = request.body as CleanupRequestBody;
-      
       // Validate secret key to prevent unauthorized access
-      const secret = body.secret || request.headers['x-cleanup-secret'];
-      const expectedSecret = process.env.CLEANUP_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+      const secret = request.body.secret || request.headers['x-cleanup-secret'];
 
-        if (!secret || secret !== expectedSecret) {
+        if (!hasCleanupSecret(secret)) {
           return reply.code(401).send({ error: 'Unauthorized' });
         }
 
         // Call the delete_old_messages() function
-        const { error } = await supabaseAdmin.rpc('delete_old_messages');
+        const { error } = await fastify.repos.conversations.deleteExpiredMessages();
 
         if (error) {
           fastify.log.error({ error }, 'Failed to delete old messages');
@@ -92,10 +140,21 @@ export async function cleanupRoutes(fastify: FastifyInstance) {
         }
 
         fastify.log.info('Successfully deleted old messages');
-        
+
+        // Attachments of deleted messages and uploads that were never sent
+        const orphanedBefore = new Date(Date.now() - PENDING_ATTACHMENT_TTL_MS).toISOString();
+        const { data: orphaned, error: orphanedError } = await fastify.repos.attachments.listOrphaned(orphanedBefore);
+
+        if (orphanedError) {
+          fastify.log.error({ err: orphanedError }, 'Failed to list orphaned attachments');
+        }
+
+        const attachmentsDeleted = await deleteAttachments(fastify, orphaned || []);
+
         return reply.send({ 
           success: true,
           message: 'Old messages deleted successfully',
+          attachmentsDeleted,
           timestamp: new Date().toISOString()
         });
 
@@ -109,11 +168,119 @@ export async function cleanupRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // Thin out and purge old location fixes; same secret as the message cleanup
+  fastify.post('/cleanup/locations', {
+    schema: {
+      tags: ['cleanup'],
+      summary: 'Downsample location fixes past the full-resolution window and delete those past retention',
+      body: CleanupLocationsBody,
+      headers: CleanupHeaders,
+      response: {
+        200: CleanupLocationsResponse,
+        ...errorResponses(401, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const secret = request.body.secret || request.headers['x-cleanup-secret'];
+
+      if (!hasCleanupSecret(secret)) {
+        return reply.code(401).send({ error: 'Unauthorized' });
+      }
+
+      const settings = retentionSettingsFromEnv();
+
+      if ('error' in settings) {
+        fastify.log.error({ reason: settings.error }, 'Invalid location retention settings');
+        return reply.code(500).send({ error: 'Invalid location retention settings', details: settings.error });
+      }
+
+      const dryRun = request.body.dryRun ?? false;
+      const { data, error } = await fastify.repos.locations.prune(retentionPolicy(settings, dryRun));
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Failed to prune locations');
+        return reply.code(500).send({ error: 'Failed to prune locations', details: error.message });
+      }
+
+      fastify.log.info({ ...data, dryRun }, '🧹 Location retention applied');
+
+      return {
+        success: true,
+        dryRun,
+        downsampled: data.downsampled,
+        deleted: data.deleted,
+        policy: settings,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Location cleanup error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Record crossed paths from recent fixes; meant to run on a schedule shorter than the lookback
+  fastify.post('/cleanup/encounters', {
+    schema: {
+      tags: ['cleanup'],
+      summary: 'Scan recent location fixes for users who crossed paths',
+      body: CleanupRequestBody,
+      headers: CleanupHeaders,
+      response: {
+        200: CleanupEncountersResponse,
+        ...errorResponses(401, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const secret = request.body.secret || request.headers['x-cleanup-secret'];
+
+      if (!hasCleanupSecret(secret)) {
+        return reply.code(401).send({ error: 'Unauthorized' });
+      }
+
+      const settings = encounterSettingsFromEnv();
+
+      if ('error' in settings) {
+        fastify.log.error({ reason: settings.error }, 'Invalid encounter settings');
+        return reply.code(500).send({ error: 'Invalid encounter settings', details: settings.error });
+      }
+
+      const { data, error } = await recordEncounters(fastify, settings);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Failed to record encounters');
+        return reply.code(500).send({ error: 'Failed to record encounters', details: error.message });
+      }
+
+      fastify.log.info(data, '🧹 Encounters recorded');
+
+      return {
+        success: true,
+        fixes: data.fixes,
+        recorded: data.recorded,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Encounter scan error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
   // Health check for cleanup service
-  fastify.get('/cleanup/status', async (_request: unknown, reply) => {
+  fastify.get('/cleanup/status', {
+    schema: {
+      tags: ['cleanup'],
+      summary: 'Check that the message cleanup function is reachable',
+      response: {
+        200: CleanupStatusResponse,
+        500: CleanupStatusResponse
+      }
+    }
+  }, async (_request, reply) => {
     try {
       // Check if the delete_old_messages function exists
-      const { error } = await supabaseAdmin.rpc('delete_old_messages');
+      const { error } = await fastify.repos.conversations.deleteExpiredMessages();
 
       return reply.send({
         status: error ? 'error' : 'ok',
@@ -127,4 +294,4 @@ export async function cleanupRoutes(fastify: FastifyInstance) {
       });
     }
   });
-}
+};
@@ -1,98 +1,220 @@
-import { FastifyInstance } from 'fastify';
-import { supabaseAdmin, verifyToken } from '../lib/supabase';
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { signAttachments } from '../lib/attachments';
+import { BlockService, blockUser } from '../lib/blocks';
+import {
+  DISAPPEARING_TIMERS,
+  findUnconnected,
+  listDirectConversations,
+  messageExpiry,
+  publishToParticipants,
+  terminateConversation
+} from '../lib/conversations';
+import { endLiveLocations, SHARE_DURATIONS } from '../lib/locations';
+import { PageRequest, toPage, toPageRequest } from '../lib/pagination';
+import { AttachmentRow, ConversationView } from '../repositories/types';
+import { PageQuery, SuccessResponse, errorResponses } from '../schemas/common';
+import {
+  ConversationPage,
+  ConversationParams,
+  CreateConversationBody,
+  CreateConversationResponse,
+  DeclineRequestBody,
+  MarkReadBody,
+  MarkReadResponse,
+  MessagePage,
+  SendMessageBody,
+  SendMessageResponse,
+  LiveLocationList,
+  LiveLocationSession,
+  SetDisappearingBody,
+  SetDisappearingResponse,
+  StartLiveLocationBody
+} from '../schemas/conversation';
 
-interface CreateConversationBody {
-  participantIds: string[];
-}
+// Length of the last-message preview in the conversation list
+const SNIPPET_LENGTH = 100;
 
-interface SendMessageBody {
-  conversationId: string;
-  body: string;
-}
+// Messages a sender may send before the recipient accepts the request
+const REQUEST_MESSAGE_LIMIT = 3;
+
+export const conversationRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
+  // One page of the caller's conversations with counterpart profiles, last message and unread count;
+  // null when loading failed (already logged)
+  const listConversations = async (
+    userId: string,
+    blocks: BlockService,
+    view: ConversationView,
+    page: PageRequest
+  ): Promise<ConversationPage | null> => {
+    const { data, error } = await fastify.repos.conversations.listForUser(userId, view, page);
+
+    if (error) {
+      fastify.log.error({ err: error }, 'Error fetching conversations');
+      return null;
+    }
+
+    const { items, nextCursor } = toPage(
+      data,
+      page,
+      c => ({ createdAt: c.conversations.last_activity_at, id: c.conversation_id }),
+      'desc'
+    );
+
+    if (items.length === 0) {
+      return { conversations: [], nextCursor };
+    }
+
+    const conversationIds = items.map(c => c.conversation_id);
+
+    const [participantsResult, latestResult, unreadResult, blocksResult] = await Promise.all([
+      fastify.repos.conversations.listParticipantsIn(conversationIds),
+      fastify.repos.conversations.listLatestMessages(conversationIds),
+      fastify.repos.conversations.countUnread(userId, conversationIds),
+      blocks.blockedIds(userId)
+    ]);
+
+    const failed = [participantsResult, latestResult, unreadResult, blocksResult].find(r => r.error);
+    if (failed) {
+      fastify.log.error({ err: failed.error }, 'Error loading conversation details');
+      return null;
+    }
+
+    const participants = participantsResult.data || [];
+    const unread = unreadResult.data || {};
+
+    // Same rule as GET /profile/:userId: a block in either direction hides the user
+    const blockedIds = blocksResult.data || new Set<string>();
+
+    const counterpartIds = [...new Set(participants
+      .map(p => p.user_id)
+      .filter(id => id !== userId && !blockedIds.has(id)))];
+
+    const { data: users, error: usersError } = counterpartIds.length > 0
+      ? await fastify.repos.users.findByIds(counterpartIds)
+      : { data: [], error: null };
+
+    if (usersError) {
+      fastify.log.error({ err: usersError }, 'Error loading conversation participants');
+      return null;
+    }
+
+    const profiles = new Map(users.map(u => [u.id, {
+      id: u.id,
+      name: u.name,
+      profile_image_url: u.profile_image_url,
+      presence_status: u.presence_status,
+      last_active_at: u.last_active_at
+    }]));
+
+    const latest = new Map((latestResult.data || []).map(m => [m.conversation_id, m]));
+
+    const conversations = items.flatMap(c => {
+      const others = participants.filter(p => p.conversation_id === c.conversation_id && p.user_id !== userId);
+      const visible = others.flatMap(p => {
+        const profile = profiles.get(p.user_id);
+        return profile ? [profile] : [];
+      });
+
+      // Conversations whose every counterpart is blocked drop out of the list
+      if (others.length > 0 && visible.length === 0) {
+        return [];
+      }
+
+      const message = latest.get(c.conversation_id);
+
+      return [{
+        ...c,
+        participants: visible,
+        last_message: message ? {
+          id: message.id,
+          sender_id: message.sender_id,
+          body: message.body.length > SNIPPET_LENGTH
+            ? `${message.body.slice(0, SNIPPET_LENGTH - 1)}…`
+            : message.body,
+          created_at: message.created_at
+        } : null,
+        unread_count: unread[c.conversation_id] ?? 0
+      }];
+    });
+
+    return { conversations, nextCursor };
+  };
 
-export async function conversationRoutes(fastify: FastifyInstance) {
   // Create a new conversation
-  fastify.post('/conversations', async (request, reply) => {
-    try {
-      const authHeader = request.headers.authorization;
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return reply.code(401).send({ error: 'Unauthorized' });
+  fastify.post('/conversations', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'Create a conversation, or return the existing one-to-one conversation',
+      body: CreateConversationBody,
+      response: {
+        200: CreateConversationResponse,
+        ...errorResponses(400, 401, 403, 500)
       }
+    }
+  }, async (request, reply) => {
+    try {
+      const { participantIds, title } = request.body;
 
-      const token = authHeader.substring(7);
-      const verified = await verifyToken(token);
-      
-      if (!verified) {
-        return reply.code(401).send({ error: 'Invalid token' });
+      // Include the creator in participants
+      const allParticipants = [...new Set([request.user.userId, ...participantIds])];
+      const isGroup = allParticipants.length > 2;
+
+      if (title && !isGroup) {
+        return reply.code(400).send({ error: 'Only group conversations can have a title' });
       }
 
-      const { participantIds } = request.body as CreateConversationBody;
+      // Check for blocks between any two participants, the creator included
+      const { data: blockedId, error: blockError } = await request.blocks.findBlocked(
+        allParticipants,
+        allParticipants
+      );
 
-      if (!Array.isArray(participantIds) || participantIds.length === 0) {
-        return reply.code(400).send({ error: 'Invalid participant IDs' });
+      if (blockError) {
+        fastify.log.error({ err: blockError }, 'Error checking blocks');
+        return reply.code(500).send({ error: 'Failed to create conversation' });
       }
 
-      // Include the creator in participants
-      const allParticipants = [...new Set([verified.userId, ...participantIds])];
-
-      // Check for blocks between any participants
-      for (const participantId of allParticipants) {
-        if (participantId !== verified.userId) {
-          const { data: blockData } = await supabaseAdmin
-            .from('blocks')
-            .select('*')
-            .or(`blocker_id.eq.${verified.userId},blocked_id.eq.${verified.userId}`)
-            .or(`blocker_id.eq.${participantId},blocked_id.eq.${participantId}`)
-            .limit(1);
-
-          if (blockData && blockData.length > 0) {
-            return reply.code(403).send({ error: 'Cannot create conversation with blocked user' });
-          }
+      if (blockedId) {
+        return reply.code(403).send({ error: 'Cannot create conversation with blocked user' });
+      }
+
+      // A group lands straight in everyone's inbox, so it may only include people who already
+      // accepted a conversation with the creator
+      if (isGroup) {
+        const { data: unconnectedId, error: connectionError } = await findUnconnected(
+          fastify,
+          request.user.userId,
+          allParticipants.filter(id => id !== request.user.userId)
+        );
+
+        if (connectionError) {
+          fastify.log.error({ err: connectionError }, 'Error checking conversations');
+          return reply.code(500).send({ error: 'Failed to create conversation' });
+        }
+
+        if (unconnectedId) {
+          return reply.code(403).send({ error: 'Groups can only include people who accepted a conversation with you' });
         }
       }
 
       // Check if conversation already exists between these participants
-      if (allParticipants.length === 2) {
-        const { data: existingConvs } = await supabaseAdmin
-          .from('conversation_participants')
-          .select('conversation_id')
-          .in('user_id', allParticipants);
-
-        if (existingConvs && existingConvs.length > 0) {
-          // Group by conversation_id and count participants
-          const convCounts = new Map<string, number>();
-          existingConvs.forEach((cp: any) => {
-            convCounts.set(cp.conversation_id, (convCounts.get(cp.conversation_id) || 0) + 1);
-          });
-
-          // Find conversation where both users are participants
-          for (const [convId, count] of convCounts.entries()) {
-            if (count === 2) {
-              // Verify conversation is not terminated
-              const { data: conv } = await supabaseAdmin
-                .from('conversations')
-                .select('id, is_terminated')
-                .eq('id', convId)
-                .single();
-
-              if (conv && !conv.is_terminated) {
-                fastify.log.info({ conversationId: conv.id }, 'Found existing conversation');
-                return { conversationId: conv.id, conversation: conv };
-              }
-            }
-          }
+      if (!isGroup) {
+        const { data: existing } = await listDirectConversations(fastify, allParticipants[0], allParticipants[1]);
+
+        if (existing && existing.length > 0) {
+          fastify.log.info({ conversationId: existing[0].id }, 'Found existing conversation');
+          return { conversationId: existing[0].id, conversation: existing[0] };
         }
       }
 
-      // Create conversation
-      const { data: conversation, error: convError } = await supabaseAdmin
-        .from('conversations')
-        .insert({ 
-          is_terminated: false,
-          created_at: new Date().toISOString()
-        })
-        .select()
-        .single();
+      // Create conversation; first contact between two users lands in the recipient's requests
+      const { data: conversation, error: convError } = await fastify.repos.conversations.create({
+        is_group: isGroup,
+        title: title ?? null,
+        request_status: isGroup ? 'accepted' : 'pending',
+        requested_by: isGroup ? null : request.user.userId
+      });
 
       if (convError || !conversation) {
         fastify.log.error({ err: convError }, 'Error creating conversation');
@@ -100,21 +222,31 @@ export async function conversationRoutes(fastify: FastifyInstance) {
       }
 
       // Add participants
-      const participants = allParticipants.map(id => ({
-        conversation_id: conversation.id,
-        user_id: id,
-        joined_at: new Date().toISOString()
-      }));
-
-      const { error: partError } = await supabaseAdmin
-        .from('conversation_participants')
-        .insert(participants);
+      const { error: partError } = await fastify.repos.conversations.addParticipants(
+        conversation.id,
+        allParticipants,
+        'member'
+      );
 
       if (partError) {
         fastify.log.error({ err: partError }, 'Error adding participants');
         return reply.code(500).send({ error: 'Failed to add participants' });
       }
 
+      // The creator owns a group
+      if (isGroup) {
+        const { error: roleError } = await fastify.repos.conversations.setParticipantRole(
+          conversation.id,
+          request.user.userId,
+          'owner'
+        );
+
+        if (roleError) {
+          fastify.log.error({ err: roleError }, 'Error assigning group owner');
+          return reply.code(500).send({ error: 'Failed to add participants' });
+        }
+      }
+
       return { conversationId: conversation.id, conversation };
     } catch (error) {
       fastify.log.error({ err: error }, 'Create conversation error');
@@ -123,67 +255,146 @@ export async function conversationRoutes(fastify: FastifyInstance) {
   });
 
   // Send a message
-  fastify.post('/conversations/:id/messages', async (request, reply) => {
-    try {
-      const authHeader = request.headers.authorization;
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return reply.code(401).send({ error: 'Unauthorized' });
-      }
-
-      const token = authHeader.substring(7);
-      const verified = await verifyToken(token);
-      
-      if (!verified) {
-        return reply.code(401).send({ error: 'Invalid token' });
+  fastify.post('/conversations/:id/messages', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'Send a message with text, uploaded image attachments, or both',
+      params: ConversationParams,
+      body: SendMessageBody,
+      response: {
+        200: SendMessageResponse,
+        ...errorResponses(400, 401, 403, 500)
       }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id: conversationId } = request.params;
+      const body = (request.body.body ?? '').trim();
+      const attachmentIds = [...new Set(request.body.attachmentIds ?? [])];
 
-      const { id: conversationId } = request.params as { id: string };
-      const { body } = request.body as SendMessageBody;
-
-      if (!body || body.trim().length === 0) {
+      if (body.length === 0 && attachmentIds.length === 0) {
         return reply.code(400).send({ error: 'Message body is required' });
       }
 
       // Verify user is a participant
-      const { data: participant, error: partError } = await supabaseAdmin
-        .from('conversation_participants')
-        .select('*')
-        .eq('conversation_id', conversationId)
-        .eq('user_id', verified.userId)
-        .single();
+      const { data: participant, error: partError } = await fastify.repos.conversations.findParticipant(
+        conversationId,
+        request.user.userId
+      );
 
       if (partError || !participant) {
         return reply.code(403).send({ error: 'Not a participant of this conversation' });
       }
 
       // Check if conversation is terminated
-      const { data: conversation } = await supabaseAdmin
-        .from('conversations')
-        .select('is_terminated')
-        .eq('id', conversationId)
-        .single();
+      const { data: conversation } = await fastify.repos.conversations.findById(conversationId);
 
       if (conversation?.is_terminated) {
         return reply.code(400).send({ error: 'Conversation is terminated' });
       }
 
-      // Insert message
-      const { data: message, error: msgError } = await supabaseAdmin
-        .from('messages')
-        .insert({
-          conversation_id: conversationId,
-          sender_id: verified.userId,
-          body: body.trim(),
-          created_at: new Date().toISOString()
-        })
-        .select()
-        .single();
+      // A block in either direction ends one-to-one messaging; groups carry on
+      if (conversation && !conversation.is_group) {
+        const [{ data: participants, error: listError }, { data: blockedIds, error: blockError }] = await Promise.all([
+          fastify.repos.conversations.listParticipants(conversationId),
+          request.blocks.blockedIds(request.user.userId)
+        ]);
+
+        if (listError || blockError) {
+          fastify.log.error({ err: listError || blockError }, 'Error checking blocks');
+          return reply.code(500).send({ error: 'Failed to send message' });
+        }
+
+        if (participants.some(p => blockedIds.has(p.user_id))) {
+          return reply.code(403).send({ error: 'Conversation is frozen' });
+        }
+      }
+
+      if (conversation?.request_status === 'pending') {
+        if (conversation.requested_by !== request.user.userId) {
+          return reply.code(403).send({ error: 'Accept the message request before replying' });
+        }
+
+        const { data: sent, error: countError } = await fastify.repos.conversations.countMessagesBySender(
+          conversationId,
+          request.user.userId
+        );
+
+        if (countError) {
+          fastify.log.error({ err: countError }, 'Error counting request messages');
+          return reply.code(500).send({ error: 'Failed to send message' });
+        }
+
+        if (sent >= REQUEST_MESSAGE_LIMIT) {
+          return reply.code(403).send({ error: 'Message limit reached until the request is accepted' });
+        }
+      }
+
+      // Attachments must be unsent uploads of this sender in this conversation
+      let attachments: AttachmentRow[] = [];
+      if (attachmentIds.length > 0) {
+        const { data, error } = await fastify.repos.attachments.findByIds(attachmentIds);
+
+        if (error) {
+          fastify.log.error({ err: error }, 'Error fetching attachments');
+          return reply.code(500).send({ error: 'Failed to send message' });
+        }
+
+        attachments = data.filter(a =>
+          a.conversation_id === conversationId &&
+          a.uploader_id === request.user.userId &&
+          a.message_id === null
+        );
+
+        if (attachments.length !== attachmentIds.length) {
+          return reply.code(400).send({ error: 'Invalid attachment' });
+        }
+      }
+
+      // Insert message; the conversation's timer decides when it disappears
+      const createdAt = new Date().toISOString();
+      const { data: message, error: msgError } = await fastify.repos.conversations.insertMessage({
+        conversation_id: conversationId,
+        sender_id: request.user.userId,
+        body,
+        created_at: createdAt,
+        expires_at: messageExpiry(conversation, createdAt)
+      });
 
       if (msgError || !message) {
         fastify.log.error({ err: msgError }, 'Error sending message');
         return reply.code(500).send({ error: 'Failed to send message' });
       }
 
+      if (attachments.length > 0) {
+        const { error: linkError } = await fastify.repos.attachments.linkToMessage(attachmentIds, message.id);
+
+        if (linkError) {
+          fastify.log.error({ err: linkError }, 'Error linking attachments');
+          await fastify.repos.conversations.deleteMessage(conversationId, message.id);
+          return reply.code(500).send({ error: 'Failed to send message' });
+        }
+      }
+
+      const signed = await signAttachments(fastify, attachments.map(a => ({ ...a, message_id: message.id })));
+
+      await publishToParticipants(fastify, conversationId, 'message.created', {
+        conversationId,
+        message: {
+          id: message.id,
+          sender_id: message.sender_id,
+          body: message.body,
+          kind: message.kind,
+          created_at: message.created_at,
+          edited_at: message.edited_at,
+          expires_at: message.expires_at,
+          read_by: [],
+          reactions: [],
+          attachments: signed?.get(message.id) || []
+        }
+      });
+
       return { messageId: message.id };
     } catch (error) {
       fastify.log.error({ err: error }, 'Send message error');
@@ -192,47 +403,114 @@ export async function conversationRoutes(fastify: FastifyInstance) {
   });
 
   // Get conversation messages
-  fastify.get('/conversations/:id/messages', async (request, reply) => {
-    try {
-      const authHeader = request.headers.authorization;
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return reply.code(401).send({ error: 'Unauthorized' });
+  fastify.get('/conversations/:id/messages', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'List a page of messages, oldest first within the page (latest page by default)',
+      params: ConversationParams,
+      querystring: PageQuery,
+      response: {
+        200: MessagePage,
+        ...errorResponses(400, 401, 403, 500)
       }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id: conversationId } = request.params;
 
-      const token = authHeader.substring(7);
-      const verified = await verifyToken(token);
-      
-      if (!verified) {
-        return reply.code(401).send({ error: 'Invalid token' });
+      const pageRequest = toPageRequest(request.query);
+      if ('error' in pageRequest) {
+        return reply.code(400).send({ error: pageRequest.error });
       }
 
-      const { id: conversationId } = request.params as { id: string };
+      const { page } = pageRequest;
 
-      // Verify user is a participant
-      const { data: participant } = await supabaseAdmin
-        .from('conversation_participants')
-        .select('*')
-        .eq('conversation_id', conversationId)
-        .eq('user_id', verified.userId)
-        .single();
+      // Verify user is a participant; the other rows give read positions for read_by
+      const [{ data: participants }, { data: conversation }, blocksResult] = await Promise.all([
+        fastify.repos.conversations.listParticipants(conversationId),
+        fastify.repos.conversations.findById(conversationId),
+        request.blocks.blockedIds(request.user.userId)
+      ]);
 
-      if (!participant) {
+      if (!participants?.some(p => p.user_id === request.user.userId) || !conversation) {
         return reply.code(403).send({ error: 'Not a participant of this conversation' });
       }
 
+      if (blocksResult.error) {
+        fastify.log.error({ err: blocksResult.error }, 'Error checking blocks');
+        return reply.code(500).send({ error: 'Failed to fetch messages' });
+      }
+
+      // One-to-one history closes on a block; in groups only the blocked person's messages are hidden
+      const blockedIds = blocksResult.data;
+      if (!conversation.is_group && participants.some(p => blockedIds.has(p.user_id))) {
+        return reply.code(403).send({ error: 'Conversation is frozen' });
+      }
+
       // Get messages
-      const { data: messages, error } = await supabaseAdmin
-        .from('messages')
-        .select('id, sender_id, body, created_at')
-        .eq('conversation_id', conversationId)
-        .order('created_at', { ascending: true });
+      const { data, error } = await fastify.repos.conversations.listMessages(conversationId, page);
 
       if (error) {
         fastify.log.error({ err: error }, 'Error fetching messages');
         return reply.code(500).send({ error: 'Failed to fetch messages' });
       }
 
-      return messages || [];
+      const { items, nextCursor } = toPage(
+        data,
+        page,
+        message => ({ createdAt: message.created_at, id: message.id }),
+        'asc'
+      );
+
+      const visible = items.filter(m => !blockedIds.has(m.sender_id));
+      const messageIds = visible.map(m => m.id);
+
+      const [reactionsResult, attachmentsResult] = messageIds.length > 0
+        ? await Promise.all([
+          fastify.repos.conversations.listReactions(messageIds),
+          fastify.repos.attachments.listByMessages(messageIds)
+        ])
+        : [{ data: [], error: null }, { data: [], error: null }];
+
+      if (reactionsResult.error || attachmentsResult.error) {
+        fastify.log.error({ err: reactionsResult.error || attachmentsResult.error }, 'Error fetching message details');
+        return reply.code(500).send({ error: 'Failed to fetch messages' });
+      }
+
+      const reactions = reactionsResult.data;
+      const attachments = await signAttachments(fastify, attachmentsResult.data);
+
+      if (!attachments) {
+        return reply.code(500).send({ error: 'Failed to fetch messages' });
+      }
+
+      const readPositions = participants
+        .filter(p => p.last_read_at !== null)
+        .map(p => ({ userId: p.user_id, readAt: Date.parse(p.last_read_at as string) }));
+
+      return {
+        messages: visible.map(message => {
+          const createdAt = Date.parse(message.created_at);
+          return {
+            id: message.id,
+            sender_id: message.sender_id,
+            body: message.body,
+            kind: message.kind,
+            created_at: message.created_at,
+            edited_at: message.edited_at,
+            expires_at: message.expires_at,
+            read_by: readPositions
+              .filter(r => r.userId !== message.sender_id && r.readAt >= createdAt)
+              .map(r => r.userId),
+            reactions: reactions
+              .filter(r => r.message_id === message.id)
+              .map(r => ({ user_id: r.user_id, emoji: r.emoji })),
+            attachments: attachments.get(message.id) || []
+          };
+        }),
+        nextCursor
+      };
     } catch (error) {
       fastify.log.error({ err: error }, 'Get messages error');
       return reply.code(500).send({ error: 'Internal server error' });
@@ -240,101 +518,613 @@ export async function conversationRoutes(fastify: FastifyInstance) {
   });
 
   // List user conversations
-  fastify.get('/conversations', async (request, reply) => {
+  fastify.get('/conversations', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'List the caller\'s conversations and sent requests, most recently active first',
+      querystring: PageQuery,
+      response: {
+        200: ConversationPage,
+        ...errorResponses(400, 401, 500)
+      }
+    }
+  }, async (request, reply) => {
     try {
-      const authHeader = request.headers.authorization;
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return reply.code(401).send({ error: 'Unauthorized' });
-      }
-
-      const token = authHeader.substring(7);
-      const verified = await verifyToken(token);
-      
-      if (!verified) {
-        return reply.code(401).send({ error: 'Invalid token' });
-      }
-
-      // Get all conversations where user is a participant
-      const { data: conversations, error } = await supabaseAdmin
-        .from('conversation_participants')
-        .select(`
-          conversation_id,
-          conversations!inner (
-            id,
-            is_terminated,
-            created_at
-          )
-        `)
-        .eq('user_id', verified.userId)
-        .eq('conversations.is_terminated', false)
-        .order('created_at', { foreignTable: 'conversations', ascending: false });
+      const pageRequest = toPageRequest(request.query);
+      if ('error' in pageRequest) {
+        return reply.code(400).send({ error: pageRequest.error });
+      }
 
-      if (error) {
-        fastify.log.error({ err: error }, 'Error fetching conversations');
+      const result = await listConversations(request.user.userId, request.blocks, 'inbox', pageRequest.page);
+
+      if (!result) {
         return reply.code(500).send({ error: 'Failed to fetch conversations' });
       }
 
-      return conversations || [];
+      return result;
     } catch (error) {
       fastify.log.error({ err: error }, 'Get conversations error');
       return reply.code(500).send({ error: 'Internal server error' });
     }
   });
 
-  // Terminate conversation
-  fastify.post('/conversations/:id/terminate', async (request, reply) => {
+  // List incoming message requests
+  fastify.get('/conversations/requests', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'List pending message requests sent to the caller, most recently active first',
+      querystring: PageQuery,
+      response: {
+        200: ConversationPage,
+        ...errorResponses(400, 401, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const pageRequest = toPageRequest(request.query);
+      if ('error' in pageRequest) {
+        return reply.code(400).send({ error: pageRequest.error });
+      }
+
+      const result = await listConversations(request.user.userId, request.blocks, 'requests', pageRequest.page);
+
+      if (!result) {
+        return reply.code(500).send({ error: 'Failed to fetch conversations' });
+      }
+
+      return result;
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Get message requests error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Accept a message request
+  fastify.post('/conversations/:id/accept', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'Accept a message request sent to the caller',
+      params: ConversationParams,
+      response: {
+        200: CreateConversationResponse,
+        ...errorResponses(400, 401, 403, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id: conversationId } = request.params;
+
+      const { data: participant } = await fastify.repos.conversations.findParticipant(
+        conversationId,
+        request.user.userId
+      );
+      const { data: conversation } = await fastify.repos.conversations.findById(conversationId);
+
+      if (!participant || !conversation) {
+        return reply.code(403).send({ error: 'Not a participant of this conversation' });
+      }
+
+      if (conversation.is_terminated) {
+        return reply.code(400).send({ error: 'Conversation is terminated' });
+      }
+
+      if (conversation.request_status !== 'pending' || conversation.requested_by === request.user.userId) {
+        return reply.code(400).send({ error: 'No pending request to accept' });
+      }
+
+      if (conversation.frozen_at) {
+        return reply.code(403).send({ error: 'Conversation is frozen' });
+      }
+
+      const { error } = await fastify.repos.conversations.update(conversationId, { request_status: 'accepted' });
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error accepting message request');
+        return reply.code(500).send({ error: 'Failed to accept request' });
+      }
+
+      await publishToParticipants(fastify, conversationId, 'conversation.request_accepted', {
+        conversationId,
+        acceptedBy: request.user.userId
+      });
+
+      return { conversationId, conversation: { ...conversation, request_status: 'accepted' as const } };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Accept request error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Decline a message request
+  fastify.post('/conversations/:id/decline', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'Decline a message request, deleting it and optionally blocking the sender',
+      params: ConversationParams,
+      body: DeclineRequestBody,
+      response: {
+        200: SuccessResponse,
+        ...errorResponses(400, 401, 403, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id: conversationId } = request.params;
+      const { block } = request.body;
+
+      const { data: participant } = await fastify.repos.conversations.findParticipant(
+        conversationId,
+        request.user.userId
+      );
+      const { data: conversation } = await fastify.repos.conversations.findById(conversationId);
+
+      if (!participant || !conversation) {
+        return reply.code(403).send({ error: 'Not a participant of this conversation' });
+      }
+
+      if (conversation.is_terminated) {
+        return reply.code(400).send({ error: 'Conversation is terminated' });
+      }
+
+      if (conversation.request_status !== 'pending' || conversation.requested_by === request.user.userId) {
+        return reply.code(400).send({ error: 'No pending request to decline' });
+      }
+
+      if (block && conversation.requested_by) {
+        const { error: blockError } = await blockUser(
+          fastify,
+          request.blocks,
+          request.user.userId,
+          conversation.requested_by
+        );
+
+        if (blockError) {
+          fastify.log.error({ err: blockError }, 'Error creating block');
+          return reply.code(500).send({ error: 'Failed to block user' });
+        }
+      }
+
+      // Declining ends the request the same way terminating ends a conversation
+      const { error: convError } = await terminateConversation(fastify, conversationId);
+
+      if (convError) {
+        fastify.log.error({ err: convError }, 'Error terminating conversation');
+        return reply.code(500).send({ error: 'Failed to decline request' });
+      }
+
+      await publishToParticipants(fastify, conversationId, 'conversation.terminated', {
+        conversationId,
+        terminatedBy: request.user.userId
+      });
+
+      return { success: true };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Decline request error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Set the disappearing-message timer
+  fastify.put('/conversations/:id/disappearing', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'Set how long new messages last (off, 1h, 24h or 7d); recorded as a system message',
+      params: ConversationParams,
+      body: SetDisappearingBody,
+      response: {
+        200: SetDisappearingResponse,
+        ...errorResponses(400, 401, 403, 500)
+      }
+    }
+  }, async (request, reply) => {
     try {
-      const authHeader = request.headers.authorization;
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return reply.code(401).send({ error: 'Unauthorized' });
+      const { id: conversationId } = request.params;
+      const { timer } = request.body;
+      const ttlSeconds = DISAPPEARING_TIMERS[timer];
+
+      const { data: participant } = await fastify.repos.conversations.findParticipant(
+        conversationId,
+        request.user.userId
+      );
+      const { data: conversation } = await fastify.repos.conversations.findById(conversationId);
+
+      if (!participant || !conversation) {
+        return reply.code(403).send({ error: 'Not a participant of this conversation' });
+      }
+
+      if (conversation.is_terminated) {
+        return reply.code(400).send({ error: 'Conversation is terminated' });
+      }
+
+      if (conversation.frozen_at) {
+        return reply.code(403).send({ error: 'Conversation is frozen' });
+      }
+
+      if (conversation.request_status === 'pending') {
+        return reply.code(400).send({ error: 'Message request has not been accepted yet' });
       }
 
-      const token = authHeader.substring(7);
-      const verified = await verifyToken(token);
-      
-      if (!verified) {
-        return reply.code(401).send({ error: 'Invalid token' });
+      if (conversation.message_ttl_seconds === ttlSeconds) {
+        return { messageTtlSeconds: ttlSeconds, messageId: null };
       }
 
-      const { id: conversationId } = request.params as { id: string };
+      const { error } = await fastify.repos.conversations.update(conversationId, { message_ttl_seconds: ttlSeconds });
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error updating disappearing timer');
+        return reply.code(500).send({ error: 'Failed to update timer' });
+      }
+
+      // The notice itself stays for as long as the conversation
+      const { data: message, error: msgError } = await fastify.repos.conversations.insertMessage({
+        conversation_id: conversationId,
+        sender_id: request.user.userId,
+        body: timer === 'off' ? 'Disappearing messages turned off' : `Disappearing messages set to ${timer}`,
+        kind: 'system',
+        created_at: new Date().toISOString(),
+        expires_at: null
+      });
+
+      if (msgError) {
+        fastify.log.error({ err: msgError }, 'Error recording timer change');
+        return reply.code(500).send({ error: 'Failed to update timer' });
+      }
+
+      await publishToParticipants(fastify, conversationId, 'conversation.updated', {
+        conversationId,
+        messageTtlSeconds: ttlSeconds,
+        updatedBy: request.user.userId
+      });
+
+      await publishToParticipants(fastify, conversationId, 'message.created', {
+        conversationId,
+        message: {
+          id: message.id,
+          sender_id: message.sender_id,
+          body: message.body,
+          kind: message.kind,
+          created_at: message.created_at,
+          edited_at: message.edited_at,
+          expires_at: message.expires_at,
+          read_by: [],
+          reactions: [],
+          attachments: []
+        }
+      });
+
+      return { messageTtlSeconds: ttlSeconds, messageId: message.id };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Set disappearing timer error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Mark messages as read up to a message
+  fastify.post('/conversations/:id/read', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'Mark the conversation as read up to a message (the latest by default)',
+      params: ConversationParams,
+      body: MarkReadBody,
+      response: {
+        200: MarkReadResponse,
+        ...errorResponses(400, 401, 403, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id: conversationId } = request.params;
+      const { messageId } = request.body;
 
       // Verify user is a participant
-      const { data: participant } = await supabaseAdmin
-        .from('conversation_participants')
-        .select('*')
-        .eq('conversation_id', conversationId)
-        .eq('user_id', verified.userId)
-        .single();
+      const { data: participant } = await fastify.repos.conversations.findParticipant(
+        conversationId,
+        request.user.userId
+      );
 
       if (!participant) {
         return reply.code(403).send({ error: 'Not a participant of this conversation' });
       }
 
-      // Delete all messages
-      const { error: msgError } = await supabaseAdmin
-        .from('messages')
-        .delete()
-        .eq('conversation_id', conversationId);
+      const { data: message, error: msgError } = messageId
+        ? await fastify.repos.conversations.findMessage(conversationId, messageId)
+        : await fastify.repos.conversations.findLatestMessage(conversationId);
 
       if (msgError) {
-        fastify.log.error({ err: msgError }, 'Error deleting messages');
+        fastify.log.error({ err: msgError }, 'Error fetching message');
+        return reply.code(500).send({ error: 'Failed to mark as read' });
+      }
+
+      if (!message) {
+        if (messageId) {
+          return reply.code(404).send({ error: 'Message not found' });
+        }
+        // Nothing to read yet
+        return {
+          success: true,
+          lastReadMessageId: participant.last_read_message_id,
+          lastReadAt: participant.last_read_at
+        };
+      }
+
+      // Read positions only move forward
+      if (participant.last_read_at && Date.parse(message.created_at) <= Date.parse(participant.last_read_at)) {
+        return {
+          success: true,
+          lastReadMessageId: participant.last_read_message_id,
+          lastReadAt: participant.last_read_at
+        };
+      }
+
+      const { error } = await fastify.repos.conversations.markRead(
+        conversationId,
+        request.user.userId,
+        message.id,
+        message.created_at
+      );
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error marking conversation as read');
+        return reply.code(500).send({ error: 'Failed to mark as read' });
+      }
+
+      await publishToParticipants(fastify, conversationId, 'conversation.read', {
+        conversationId,
+        userId: request.user.userId,
+        lastReadMessageId: message.id,
+        lastReadAt: message.created_at
+      });
+
+      return { success: true, lastReadMessageId: message.id, lastReadAt: message.created_at };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Mark read error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Start sharing live location
+  fastify.post('/conversations/:id/live-location', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'Share the caller\'s live location with the conversation for a limited time, replacing any running session',
+      params: ConversationParams,
+      body: StartLiveLocationBody,
+      response: {
+        200: LiveLocationSession,
+        ...errorResponses(400, 401, 403, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id: conversationId } = request.params;
+      const { userId } = request.user;
+
+      const { data: participant } = await fastify.repos.conversations.findParticipant(conversationId, userId);
+      const { data: conversation } = await fastify.repos.conversations.findById(conversationId);
+
+      if (!participant || !conversation) {
+        return reply.code(403).send({ error: 'Not a participant of this conversation' });
+      }
+
+      if (conversation.is_terminated) {
+        return reply.code(400).send({ error: 'Conversation is terminated' });
+      }
+
+      if (conversation.frozen_at) {
+        return reply.code(403).send({ error: 'Conversation is frozen' });
+      }
+
+      if (conversation.request_status === 'pending') {
+        return reply.code(400).send({ error: 'Message request has not been accepted yet' });
+      }
+
+      const { error: revokeError } = await fastify.repos.locationShares.revokeByConversation(conversationId, userId);
+
+      if (revokeError) {
+        fastify.log.error({ err: revokeError }, 'Error ending previous live location');
+        return reply.code(500).send({ error: 'Failed to start live location' });
+      }
+
+      const { data: session, error } = await fastify.repos.locationShares.create({
+        owner_id: userId,
+        grantee_id: null,
+        conversation_id: conversationId,
+        expires_at: new Date(Date.now() + SHARE_DURATIONS[request.body.duration]).toISOString()
+      });
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error starting live location');
+        return reply.code(500).send({ error: 'Failed to start live location' });
+      }
+
+      await publishToParticipants(fastify, conversationId, 'live_location.started', {
+        conversationId,
+        userId,
+        expiresAt: session.expires_at
+      });
+
+      return { user_id: userId, started_at: session.created_at, expires_at: session.expires_at };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Start live location error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Stop sharing live location
+  fastify.delete('/conversations/:id/live-location', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'Stop sharing the caller\'s live location with the conversation',
+      params: ConversationParams,
+      response: {
+        200: SuccessResponse,
+        ...errorResponses(400, 401, 403, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id: conversationId } = request.params;
+      const { userId } = request.user;
+
+      const { data: participant } = await fastify.repos.conversations.findParticipant(conversationId, userId);
+
+      if (!participant) {
+        return reply.code(403).send({ error: 'Not a participant of this conversation' });
+      }
+
+      const { data: ended, error } = await endLiveLocations(fastify, conversationId, userId);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error stopping live location');
+        return reply.code(500).send({ error: 'Failed to stop live location' });
+      }
+
+      if (ended === 0) {
+        return reply.code(404).send({ error: 'No live location to stop' });
+      }
+
+      return { success: true };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Stop live location error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Get live locations
+  fastify.get('/conversations/:id/live-location', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'List the conversation\'s running live-location sessions with each sharer\'s latest fix',
+      params: ConversationParams,
+      response: {
+        200: LiveLocationList,
+        ...errorResponses(400, 401, 403, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id: conversationId } = request.params;
+      const { userId } = request.user;
+
+      const { data: participant } = await fastify.repos.conversations.findParticipant(conversationId, userId);
+      const { data: conversation } = await fastify.repos.conversations.findById(conversationId);
+
+      if (!participant || !conversation) {
+        return reply.code(403).send({ error: 'Not a participant of this conversation' });
+      }
+
+      if (conversation.is_terminated) {
+        return { sessions: [] };
+      }
+
+      const { data: sessions, error } = await fastify.repos.locationShares.listActiveByConversation(conversationId);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error fetching live locations');
+        return reply.code(500).send({ error: 'Failed to fetch live locations' });
       }
 
-      // Mark conversation as terminated
-      const { error: convError } = await supabaseAdmin
-        .from('conversations')
-        .update({ is_terminated: true })
-        .eq('id', conversationId);
+      // Group members separated by a block do not see each other
+      const { data: blocked, error: blockError } = await request.blocks.blockedIds(userId);
+
+      if (blockError) {
+        fastify.log.error({ err: blockError }, 'Error checking blocks');
+        return reply.code(500).send({ error: 'Failed to fetch live locations' });
+      }
+
+      const visible = sessions.filter(s => !blocked.has(s.owner_id));
+
+      const fixes = await Promise.all(visible.map(s =>
+        fastify.repos.locations.findLatest(s.owner_id, s.created_at)
+      ));
+
+      const failed = fixes.find(r => r.error);
+      if (failed) {
+        fastify.log.error({ err: failed.error }, 'Error fetching live location fixes');
+        return reply.code(500).send({ error: 'Failed to fetch live locations' });
+      }
+
+      return {
+        sessions: visible.map((s, i) => {
+          const fix = fixes[i].data;
+          return {
+            user_id: s.owner_id,
+            started_at: s.created_at,
+            expires_at: s.expires_at,
+            location: fix && {
+              latitude: Number(fix.latitude),
+              longitude: Number(fix.longitude),
+              accuracy: fix.accuracy,
+              recorded_at: fix.recorded_at
+            }
+          };
+        })
+      };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Get live locations error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Terminate conversation
+  fastify.post('/conversations/:id/terminate', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'Terminate a conversation and delete its messages and attachments (owner only for groups)',
+      params: ConversationParams,
+      response: {
+        200: SuccessResponse,
+        ...errorResponses(400, 401, 403, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id: conversationId } = request.params;
+
+      // Verify user is a participant
+      const { data: participant } = await fastify.repos.conversations.findParticipant(
+        conversationId,
+        request.user.userId
+      );
+
+      if (!participant) {
+        return reply.code(403).send({ error: 'Not a participant of this conversation' });
+      }
+
+      // Groups end for everyone, so only their owner may do it; members leave instead
+      const { data: conversation } = await fastify.repos.conversations.findById(conversationId);
+
+      if (conversation?.is_group && participant.role !== 'owner') {
+        return reply.code(403).send({ error: 'Only the group owner can terminate it' });
+      }
+
+      // Delete all messages and attachments, then mark conversation as terminated
+      const { error: convError } = await terminateConversation(fastify, conversationId);
 
       if (convError) {
         fastify.log.error({ err: convError }, 'Error terminating conversation');
         return reply.code(500).send({ error: 'Failed to terminate conversation' });
       }
 
+      await publishToParticipants(fastify, conversationId, 'conversation.terminated', {
+        conversationId,
+        terminatedBy: request.user.userId
+      });
+
       return { success: true };
     } catch (error) {
       fastify.log.error({ err: error }, 'Terminate conversation error');
       return reply.code(500).send({ error: 'Internal server error' });
     }
   });
-}
+};
@@ -0,0 +1,94 @@
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { toPage, toPageRequest } from '../lib/pagination';
+import { PageQuery, errorResponses } from '../schemas/common';
+import { EncounterPage } from '../schemas/encounter';
+
+export const encounterRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
+  // List crossed paths
+  fastify.get('/encounters', {
+    config: { auth: true },
+    schema: {
+      tags: ['encounters'],
+      summary: 'List users the caller crossed paths with, most recent first',
+      querystring: PageQuery,
+      response: {
+        200: EncounterPage,
+        ...errorResponses(400, 401, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { userId } = request.user;
+
+      const pageRequest = toPageRequest(request.query);
+      if ('error' in pageRequest) {
+        return reply.code(400).send({ error: pageRequest.error });
+      }
+
+      const { page } = pageRequest;
+      const { data, error } = await fastify.repos.encounters.listForUser(userId, page);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error fetching encounters');
+        return reply.code(500).send({ error: 'Failed to fetch encounters' });
+      }
+
+      const { items, nextCursor } = toPage(
+        data,
+        page,
+        e => ({ createdAt: e.last_crossed_at, id: e.id }),
+        'desc'
+      );
+
+      const otherIds = items.map(e => e.user_a === userId ? e.user_b : e.user_a);
+
+      const { data: blocked, error: blockError } = await request.blocks.blockedIds(userId);
+
+      if (blockError) {
+        fastify.log.error({ err: blockError }, 'Error checking blocks');
+        return reply.code(500).send({ error: 'Failed to fetch encounters' });
+      }
+
+      const [usersResult, bansResult] = await Promise.all([
+        fastify.repos.users.findByIds(otherIds),
+        fastify.repos.sanctions.listActive(otherIds, ['ban'])
+      ]);
+
+      if (usersResult.error || bansResult.error) {
+        fastify.log.error({ err: usersResult.error || bansResult.error }, 'Error fetching users');
+        return reply.code(500).send({ error: 'Failed to fetch encounters' });
+      }
+
+      // Someone blocked or banned since the crossing, or who has opted out, drops out of the list
+      const bannedUserIds = new Set(bansResult.data.map(b => b.user_id));
+      const users = new Map(usersResult.data
+        .filter(u => u.encounters_enabled && !bannedUserIds.has(u.id) && !blocked.has(u.id))
+        .map(u => [u.id, u]));
+
+      return {
+        encounters: items.flatMap(e => {
+          const u = users.get(e.user_a === userId ? e.user_b : e.user_a);
+          if (!u) {
+            return [];
+          }
+
+          return [{
+            user: {
+              id: u.id,
+              name: u.name || u.email.split('@')[0],
+              profile_image_url: u.profile_image_url
+            },
+            times_crossed: e.times_crossed,
+            first_crossed_at: e.first_crossed_at,
+            last_crossed_at: e.last_crossed_at,
+            place: { latitude: e.latitude, longitude: e.longitude }
+          }];
+        }),
+        nextCursor
+      };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Get encounters error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+};
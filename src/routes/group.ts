@@ -0,0 +1,462 @@
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { findUnconnected, publishToParticipants, terminateConversation } from '../lib/conversations';
+import { endLiveLocations } from '../lib/locations';
+import { userChannel } from '../lib/realtime';
+import { ConversationParticipantRow, ConversationRow } from '../repositories/types';
+import { SuccessResponse, errorResponses } from '../schemas/common';
+import {
+  AddParticipantsBody,
+  ConversationParams,
+  CreateConversationResponse,
+  ParticipantList,
+  ParticipantParams,
+  SetRoleBody,
+  UpdateConversationBody
+} from '../schemas/conversation';
+
+type GroupAccess =
+  | { conversation: ConversationRow; participant: ConversationParticipantRow; error: null }
+  | { conversation: null; participant: null; error: { code: 400 | 403; message: string } };
+
+const isManager = (participant: ConversationParticipantRow) =>
+  participant.role === 'owner' || participant.role === 'admin';
+
+const toParticipant = (p: ConversationParticipantRow) => ({
+  user_id: p.user_id,
+  role: p.role,
+  joined_at: p.joined_at
+});
+
+export const groupRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
+  // Loads an active group and the caller's participant row
+  const loadGroup = async (conversationId: string, userId: string): Promise<GroupAccess> => {
+    const [{ data: conversation }, { data: participant }] = await Promise.all([
+      fastify.repos.conversations.findById(conversationId),
+      fastify.repos.conversations.findParticipant(conversationId, userId)
+    ]);
+
+    if (!conversation || !participant) {
+      return { conversation: null, participant: null, error: { code: 403, message: 'Not a participant of this conversation' } };
+    }
+    if (!conversation.is_group) {
+      return { conversation: null, participant: null, error: { code: 400, message: 'Not a group conversation' } };
+    }
+    if (conversation.is_terminated) {
+      return { conversation: null, participant: null, error: { code: 400, message: 'Conversation is terminated' } };
+    }
+
+    return { conversation, participant, error: null };
+  };
+
+  // Update group title and avatar
+  fastify.patch('/conversations/:id', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'Set a group\'s title or avatar (owner and admins)',
+      params: ConversationParams,
+      body: UpdateConversationBody,
+      response: {
+        200: CreateConversationResponse,
+        ...errorResponses(400, 401, 403, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id: conversationId } = request.params;
+      const { title, avatarUrl } = request.body;
+
+      const group = await loadGroup(conversationId, request.user.userId);
+      if (group.error) {
+        return reply.code(group.error.code).send({ error: group.error.message });
+      }
+
+      if (!isManager(group.participant)) {
+        return reply.code(403).send({ error: 'Only group owners and admins can do this' });
+      }
+
+      const changes = {
+        ...(title !== undefined && { title }),
+        ...(avatarUrl !== undefined && { avatar_url: avatarUrl })
+      };
+
+      const { error } = await fastify.repos.conversations.update(conversationId, changes);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error updating conversation');
+        return reply.code(500).send({ error: 'Failed to update conversation' });
+      }
+
+      const conversation = { ...group.conversation, ...changes };
+
+      await publishToParticipants(fastify, conversationId, 'conversation.updated', {
+        conversationId,
+        title: conversation.title,
+        avatarUrl: conversation.avatar_url,
+        updatedBy: request.user.userId
+      });
+
+      return { conversationId, conversation };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Update conversation error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // List group participants and their roles
+  fastify.get('/conversations/:id/participants', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'List the participants of a conversation with their roles',
+      params: ConversationParams,
+      response: {
+        200: ParticipantList,
+        ...errorResponses(400, 401, 403, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id: conversationId } = request.params;
+
+      const { data: participants, error } = await fastify.repos.conversations.listParticipants(conversationId);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error fetching participants');
+        return reply.code(500).send({ error: 'Failed to fetch participants' });
+      }
+
+      if (!participants.some(p => p.user_id === request.user.userId)) {
+        return reply.code(403).send({ error: 'Not a participant of this conversation' });
+      }
+
+      return { participants: participants.map(toParticipant) };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Get participants error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Add participants to a group
+  fastify.post('/conversations/:id/participants', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'Add users to a group (owner and admins)',
+      params: ConversationParams,
+      body: AddParticipantsBody,
+      response: {
+        200: ParticipantList,
+        ...errorResponses(400, 401, 403, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id: conversationId } = request.params;
+
+      const group = await loadGroup(conversationId, request.user.userId);
+      if (group.error) {
+        return reply.code(group.error.code).send({ error: group.error.message });
+      }
+
+      if (!isManager(group.participant)) {
+        return reply.code(403).send({ error: 'Only group owners and admins can do this' });
+      }
+
+      const { data: participants, error: partError } = await fastify.repos.conversations.listParticipants(conversationId);
+
+      if (partError) {
+        fastify.log.error({ err: partError }, 'Error fetching participants');
+        return reply.code(500).send({ error: 'Failed to add participants' });
+      }
+
+      const memberIds = new Set(participants.map(p => p.user_id));
+      const newIds = [...new Set(request.body.userIds)].filter(id => !memberIds.has(id));
+
+      if (newIds.length === 0) {
+        return { participants: participants.map(toParticipant) };
+      }
+
+      const { data: users, error: usersError } = await fastify.repos.users.findByIds(newIds);
+
+      if (usersError) {
+        fastify.log.error({ err: usersError }, 'Error fetching users');
+        return reply.code(500).send({ error: 'Failed to add participants' });
+      }
+
+      if (users.length !== newIds.length) {
+        return reply.code(404).send({ error: 'User not found' });
+      }
+
+      // Same rule as creating a conversation, applied against every current member
+      const { data: blockedId, error: blockError } = await request.blocks.findBlocked([...memberIds], newIds);
+
+      if (blockError) {
+        fastify.log.error({ err: blockError }, 'Error checking blocks');
+        return reply.code(500).send({ error: 'Failed to add participants' });
+      }
+
+      if (blockedId) {
+        return reply.code(403).send({ error: 'Cannot add a blocked user to this conversation' });
+      }
+
+      // Same rule as creating a group: the adder vouches for each new member
+      const { data: unconnectedId, error: connectionError } = await findUnconnected(
+        fastify,
+        request.user.userId,
+        newIds
+      );
+
+      if (connectionError) {
+        fastify.log.error({ err: connectionError }, 'Error checking conversations');
+        return reply.code(500).send({ error: 'Failed to add participants' });
+      }
+
+      if (unconnectedId) {
+        return reply.code(403).send({ error: 'Groups can only include people who accepted a conversation with you' });
+      }
+
+      const { error } = await fastify.repos.conversations.addParticipants(conversationId, newIds, 'member');
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error adding participants');
+        return reply.code(500).send({ error: 'Failed to add participants' });
+      }
+
+      await publishToParticipants(fastify, conversationId, 'conversation.participants_added', {
+        conversationId,
+        userIds: newIds,
+        addedBy: request.user.userId
+      });
+
+      const { data: updated } = await fastify.repos.conversations.listParticipants(conversationId);
+
+      return { participants: (updated || []).map(toParticipant) };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Add participants error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Change a participant's role
+  fastify.patch('/conversations/:id/participants/:userId', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'Promote or demote a group participant, or hand over ownership (owner only)',
+      params: ParticipantParams,
+      body: SetRoleBody,
+      response: {
+        200: ParticipantList,
+        ...errorResponses(400, 401, 403, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id: conversationId, userId } = request.params;
+      const { role } = request.body;
+
+      const group = await loadGroup(conversationId, request.user.userId);
+      if (group.error) {
+        return reply.code(group.error.code).send({ error: group.error.message });
+      }
+
+      if (group.participant.role !== 'owner') {
+        return reply.code(403).send({ error: 'Only the group owner can change roles' });
+      }
+
+      if (userId === request.user.userId) {
+        return reply.code(400).send({ error: 'Cannot change your own role' });
+      }
+
+      const { data: target } = await fastify.repos.conversations.findParticipant(conversationId, userId);
+
+      if (!target) {
+        return reply.code(404).send({ error: 'Participant not found' });
+      }
+
+      const { error } = await fastify.repos.conversations.setParticipantRole(conversationId, userId, role);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error changing participant role');
+        return reply.code(500).send({ error: 'Failed to change role' });
+      }
+
+      // A group has a single owner: the previous one steps down to admin
+      if (role === 'owner') {
+        const { error: demoteError } = await fastify.repos.conversations.setParticipantRole(
+          conversationId,
+          request.user.userId,
+          'admin'
+        );
+
+        if (demoteError) {
+          fastify.log.error({ err: demoteError }, 'Error demoting previous owner');
+          return reply.code(500).send({ error: 'Failed to change role' });
+        }
+      }
+
+      await publishToParticipants(fastify, conversationId, 'conversation.role_changed', {
+        conversationId,
+        userId,
+        role,
+        changedBy: request.user.userId
+      });
+
+      const { data: updated } = await fastify.repos.conversations.listParticipants(conversationId);
+
+      return { participants: (updated || []).map(toParticipant) };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Change role error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Remove a participant from a group
+  fastify.delete('/conversations/:id/participants/:userId', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'Remove a participant from a group (owner, or admins for plain members)',
+      params: ParticipantParams,
+      response: {
+        200: SuccessResponse,
+        ...errorResponses(400, 401, 403, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id: conversationId, userId } = request.params;
+
+      const group = await loadGroup(conversationId, request.user.userId);
+      if (group.error) {
+        return reply.code(group.error.code).send({ error: group.error.message });
+      }
+
+      if (userId === request.user.userId) {
+        return reply.code(400).send({ error: 'Use leave to exit a group' });
+      }
+
+      if (!isManager(group.participant)) {
+        return reply.code(403).send({ error: 'Only group owners and admins can do this' });
+      }
+
+      const { data: target } = await fastify.repos.conversations.findParticipant(conversationId, userId);
+
+      if (!target) {
+        return reply.code(404).send({ error: 'Participant not found' });
+      }
+
+      // Admins manage members; only the owner can remove another admin
+      if (isManager(target) && group.participant.role !== 'owner') {
+        return reply.code(403).send({ error: 'Only the group owner can remove admins' });
+      }
+
+      const { error } = await fastify.repos.conversations.removeParticipant(conversationId, userId);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error removing participant');
+        return reply.code(500).send({ error: 'Failed to remove participant' });
+      }
+
+      const { error: liveError } = await endLiveLocations(fastify, conversationId, userId);
+
+      if (liveError) {
+        fastify.log.error({ err: liveError }, 'Error ending live location');
+      }
+
+      const event = { conversationId, userId, removedBy: request.user.userId };
+      await publishToParticipants(fastify, conversationId, 'conversation.participant_removed', event);
+      fastify.realtime.publish(userChannel(userId), 'conversation.participant_removed', event);
+
+      return { success: true };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Remove participant error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Leave a group without ending it for the others
+  fastify.post('/conversations/:id/leave', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'Leave a group; ownership passes on, and the group ends with its last member',
+      params: ConversationParams,
+      response: {
+        200: SuccessResponse,
+        ...errorResponses(400, 401, 403, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id: conversationId } = request.params;
+      const { userId } = request.user;
+
+      const group = await loadGroup(conversationId, userId);
+      if (group.error) {
+        return reply.code(group.error.code).send({ error: group.error.message });
+      }
+
+      const { error } = await fastify.repos.conversations.removeParticipant(conversationId, userId);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error leaving conversation');
+        return reply.code(500).send({ error: 'Failed to leave conversation' });
+      }
+
+      const { error: liveError } = await endLiveLocations(fastify, conversationId, userId);
+
+      if (liveError) {
+        fastify.log.error({ err: liveError }, 'Error ending live location');
+      }
+
+      const { data: remaining, error: partError } = await fastify.repos.conversations.listParticipants(conversationId);
+
+      if (partError) {
+        fastify.log.error({ err: partError }, 'Error fetching participants');
+        return reply.code(500).send({ error: 'Failed to leave conversation' });
+      }
+
+      if (remaining.length === 0) {
+        // Nobody left to read it
+        const { error: convError } = await terminateConversation(fastify, conversationId);
+
+        if (convError) {
+          fastify.log.error({ err: convError }, 'Error terminating conversation');
+        }
+      } else if (group.participant.role === 'owner') {
+        // Longest-standing admin takes over, otherwise the longest-standing member
+        const successor = [...remaining].sort((a, b) =>
+          Number(b.role === 'admin') - Number(a.role === 'admin') || a.joined_at.localeCompare(b.joined_at)
+        )[0];
+
+        const { error: roleError } = await fastify.repos.conversations.setParticipantRole(
+          conversationId,
+          successor.user_id,
+          'owner'
+        );
+
+        if (roleError) {
+          fastify.log.error({ err: roleError }, 'Error transferring group ownership');
+        } else {
+          await publishToParticipants(fastify, conversationId, 'conversation.role_changed', {
+            conversationId,
+            userId: successor.user_id,
+            role: 'owner',
+            changedBy: userId
+          });
+        }
+      }
+
+      const event = { conversationId, userId, removedBy: userId };
+      await publishToParticipants(fastify, conversationId, 'conversation.participant_removed', event);
+      fastify.realtime.publish(userChannel(userId), 'conversation.participant_removed', event);
+
+      return { success: true };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Leave conversation error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+};
@@ -1,59 +1,68 @@
-import { FastifyInstance } from 'fastify';
-import { supabaseAdmin, verifyToken } from '../lib/supabase';
-
-interface LocationData {
-  latitude: number;
-  longitude: number;
-  accuracy?: number;
-  speed?: number;
-  heading?: number;
-  recordedAt: string;
-}
-
-interface LocationBatchBody {
-  userId: string;
-  locations: LocationData[];
-}
-
-export async function locationRoutes(fastify: FastifyInstance) {
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { publishToParticipants } from '../lib/conversations';
+import { canViewLocation, checkFixes, LOCATION_FLAG_MS, SHARE_DURATIONS } from '../lib/locations';
+import { userChannel } from '../lib/realtime';
+import { errorResponses, Nullable } from '../schemas/common';
+import { CheckInChanges, updateCheckIns } from '../lib/venues';
+import { notifyNearby } from '../lib/nearby';
+import { bucketTrack, simplifyTrack, toGeoJsonLine, toGeoJsonPoints, toGpx, TrackPoint } from '../lib/tracks';
+import { LocationShareRow } from '../repositories/types';
+import {
+  CreateLocationShareBody,
+  LatestLocation,
+  LocationBatchBody,
+  LocationBatchResponse,
+  LocationHistoryQuery,
+  LocationHistoryResponse,
+  LocationSettings,
+  LocationShare,
+  LocationShareList,
+  LocationShareParams,
+  UpdateLocationSettingsBody
+} from '../schemas/location';
+import { UserIdParams } from '../schemas/profile';
+
+// Longest range one history request may cover, and the most fixes it will load
+const MAX_HISTORY_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_HISTORY_FIXES = 20000;
+
+const toShare = (s: LocationShareRow) => ({
+  id: s.id,
+  grantee_id: s.grantee_id,
+  conversation_id: s.conversation_id,
+  expires_at: s.expires_at,
+  created_at: s.created_at,
+  revoked_at: s.revoked_at
+});
+
+export const locationRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
   fastify.post('/locations/batch', {
     config: {
+      auth: true,
       rateLimit: {
         max: 10,
         timeWindow: '1 minute'
       }
+    },
+    schema: {
+      tags: ['locations'],
+      summary: 'Store a batch of location fixes for the caller; implausible fixes are dropped and flag the caller',
+      body: LocationBatchBody,
+      response: {
+        200: LocationBatchResponse,
+        ...errorResponses(400, 401, 403, 404, 500)
+      }
     }
   }, async (request, reply) => {
     try {
-      const authHeader = request.headers.authorization;
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return reply.code(401).send({ error: 'Unauthorized' });
-      }
-
-      const token = authHeader.substring(7);
-      const verified = await verifyToken(token);
-      
-      if (!verified) {
-        return reply.code(401).send({ error: 'Invalid token' });
-      }
+      const { userId, locations } = request.body;
 
-      const body = request.body as LocationBatchBody;
-      const { userId, locations } = body;
-
-      if (userId !== verified.userId) {
+      if (userId !== request.user.userId) {
         return reply.code(403).send({ error: 'Forbidden' });
       }
 
-      if (!Array.isArray(locations) || locations.length === 0) {
-        return reply.code(400).send({ error: 'Invalid locations data' });
-      }
-
       // Verify user exists in database
-      const { data: userExists, error: userError } = await supabaseAdmin
-        .from('users')
-        .select('id')
-        .eq('id', userId)
-        .maybeSingle();
+      const { data: userExists, error: userError } = await fastify.repos.users.findById(userId);
 
       if (userError) {
         fastify.log.error({ err: userError }, 'Error checking user existence');
@@ -64,8 +73,45 @@ export async function locationRoutes(fastify: FastifyInstance) {
         return reply.code(404).send({ error: 'User not found' });
       }
 
-      // Use exact coordinates for maximum precision
-      const processedLocations = locations.map(loc => ({
+      // Plausibility is judged against the last stored fix, so a spoofed jump cannot hide across batches
+      const { data: previous, error: previousError } = await fastify.repos.locations.findLatest(
+        userId,
+        new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
+      );
+
+      if (previousError) {
+        fastify.log.error({ err: previousError }, 'Error fetching previous location');
+        return reply.code(500).send({ error: 'Failed to save locations' });
+      }
+
+      const { accepted, rejected } = checkFixes(locations, previous && {
+        latitude: Number(previous.latitude),
+        longitude: Number(previous.longitude),
+        recordedAt: previous.recorded_at
+      });
+
+      if (rejected.length > 0) {
+        fastify.log.warn({
+          userId,
+          rejected: rejected.map(r => ({ reason: r.reason, recordedAt: r.fix.recordedAt }))
+        }, '⚠️ Implausible locations rejected');
+
+        const { error: flagError } = await fastify.repos.users.update(userId, {
+          location_flagged_until: new Date(Date.now() + LOCATION_FLAG_MS).toISOString(),
+          location_flag_reason: rejected[0].reason
+        });
+
+        if (flagError) {
+          fastify.log.error({ err: flagError }, 'Error flagging user location');
+        }
+      }
+
+      if (accepted.length === 0) {
+        return { success: true, inserted: 0, rejected: rejected.length, venues: { checkedIn: [], checkedOut: [] } };
+      }
+
+      // Stored exactly for distance checks; other users only ever see fuzzed coordinates
+      const processedLocations = accepted.map(loc => ({
         user_id: userId,
         latitude: loc.latitude,
         longitude: loc.longitude,
@@ -82,10 +128,7 @@ export async function locationRoutes(fastify: FastifyInstance) {
         sample: processedLocations[0]
       }, '📍 Saving location batch to DB');
 
-      const { data, error } = await supabaseAdmin
-        .from('locations')
-        .insert(processedLocations)
-        .select();
+      const { data, error } = await fastify.repos.locations.insertMany(processedLocations);
 
       if (error) {
         fastify.log.error({ err: error }, '❌ Error inserting locations');
@@ -94,9 +137,77 @@ export async function locationRoutes(fastify: FastifyInstance) {
 
       fastify.log.info({ inserted: data.length }, '✅ Locations saved successfully');
 
+      accepted.forEach(loc => fastify.locationIndex.update({
+        userId,
+        latitude: loc.latitude,
+        longitude: loc.longitude,
+        recordedAt: loc.recordedAt
+      }));
+
+      // Coordinates are not pushed; viewers refetch through the location endpoints. Only people
+      // the user shares with are told, since the presence channel is open to anyone not blocked.
+      const latestRecordedAt = accepted
+        .map(loc => loc.recordedAt)
+        .reduce((latest, recordedAt) => (recordedAt > latest ? recordedAt : latest));
+
+      const { data: shares, error: sharesError } = await fastify.repos.locationShares.listActiveByOwner(userId);
+
+      if (sharesError) {
+        fastify.log.error({ err: sharesError }, 'Error loading location shares');
+      }
+
+      for (const share of shares ?? []) {
+        if (share.grantee_id) {
+          fastify.realtime.publish(userChannel(share.grantee_id), 'location.updated', {
+            userId,
+            recordedAt: latestRecordedAt
+          });
+        } else if (share.conversation_id) {
+          await publishToParticipants(fastify, share.conversation_id, 'live_location.updated', {
+            conversationId: share.conversation_id,
+            userId,
+            recordedAt: latestRecordedAt
+          });
+        }
+      }
+
+      // Venue presence follows the newest fix; a late batch of older fixes leaves it alone
+      const latest = accepted.find(loc => loc.recordedAt === latestRecordedAt)!;
+      let venues: CheckInChanges = { checkedIn: [], checkedOut: [] };
+
+      if (!previous || Date.parse(latest.recordedAt) >= Date.parse(previous.recorded_at)) {
+        const { data: changes, error: venueError } = await updateCheckIns(fastify, userExists, latest);
+
+        if (venueError) {
+          fastify.log.error({ err: venueError }, 'Error updating venue check-ins');
+        } else {
+          venues = changes;
+        }
+
+        // Flagged users are left out of nearby results, so their moves change nobody's
+        const flagged = rejected.length > 0 ||
+          (userExists.location_flagged_until !== null && Date.parse(userExists.location_flagged_until) > Date.now());
+
+        if (!flagged) {
+          const { error: nearbyError } = await notifyNearby(
+            fastify,
+            request.blocks,
+            userId,
+            previous && { latitude: Number(previous.latitude), longitude: Number(previous.longitude) },
+            latest
+          );
+
+          if (nearbyError) {
+            fastify.log.error({ err: nearbyError }, 'Error notifying nearby users');
+          }
+        }
+      }
+
       return { 
         success: true, 
-        inserted: data.length 
+        inserted: data.length,
+        rejected: rejected.length,
+        venues
       };
     } catch (error) {
       fastify.log.error({ err: error }, 'Location batch error');
@@ -104,54 +215,409 @@ export async function locationRoutes(fastify: FastifyInstance) {
     }
   });
 
-  // Get user locations (with privacy filter)
-  fastify.get('/locations/:userId', async (request, reply) => {
+  // Get location settings
+  fastify.get('/locations/settings', {
+    config: { auth: true },
+    schema: {
+      tags: ['locations'],
+      summary: 'Get who sees the caller\'s location and how precisely',
+      response: {
+        200: LocationSettings,
+        ...errorResponses(401, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
     try {
-      const authHeader = request.headers.authorization;
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return reply.code(401).send({ error: 'Unauthorized' });
+      const { data: user, error } = await fastify.repos.users.findById(request.user.userId);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error fetching location settings');
+        return reply.code(500).send({ error: 'Failed to fetch location settings' });
+      }
+
+      if (!user) {
+        return reply.code(404).send({ error: 'User not found' });
       }
 
-      const token = authHeader.substring(7);
-      const verified = await verifyToken(token);
-      
-      if (!verified) {
-        return reply.code(401).send({ error: 'Invalid token' });
+      return {
+        precision: user.location_precision,
+        visibility: user.location_visibility,
+        encounters: user.encounters_enabled,
+        autoCheckIn: user.venue_auto_check_in
+      };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Get location settings error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Update location settings
+  fastify.put('/locations/settings', {
+    config: { auth: true },
+    schema: {
+      tags: ['locations'],
+      summary: 'Set who sees the caller\'s location and how precisely',
+      body: UpdateLocationSettingsBody,
+      response: {
+        200: LocationSettings,
+        ...errorResponses(400, 401, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { precision, visibility, encounters, autoCheckIn } = request.body;
+      const { userId } = request.user;
+
+      const { data: user, error: findError } = await fastify.repos.users.findById(userId);
+
+      if (findError) {
+        fastify.log.error({ err: findError }, 'Error fetching location settings');
+        return reply.code(500).send({ error: 'Failed to update location settings' });
+      }
+
+      if (!user) {
+        return reply.code(404).send({ error: 'User not found' });
+      }
+
+      const changes = {
+        location_precision: precision ?? user.location_precision,
+        location_visibility: visibility ?? user.location_visibility,
+        encounters_enabled: encounters ?? user.encounters_enabled,
+        venue_auto_check_in: autoCheckIn ?? user.venue_auto_check_in
+      };
+
+      const { error } = await fastify.repos.users.update(userId, {
+        ...changes,
+        updated_at: new Date().toISOString()
+      });
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error updating location settings');
+        return reply.code(500).send({ error: 'Failed to update location settings' });
+      }
+
+      // Opting out also forgets the paths already crossed
+      if (!changes.encounters_enabled && user.encounters_enabled) {
+        const { error: deleteError } = await fastify.repos.encounters.deleteInvolving(userId);
+
+        if (deleteError) {
+          fastify.log.error({ err: deleteError }, 'Error deleting encounters');
+        }
+      }
+
+      return {
+        precision: changes.location_precision,
+        visibility: changes.location_visibility,
+        encounters: changes.encounters_enabled,
+        autoCheckIn: changes.venue_auto_check_in
+      };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Update location settings error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // List active location shares
+  fastify.get('/locations/shares', {
+    config: { auth: true },
+    schema: {
+      tags: ['locations'],
+      summary: 'List the caller\'s location shares that are neither expired nor revoked',
+      response: {
+        200: LocationShareList,
+        ...errorResponses(401, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { data, error } = await fastify.repos.locationShares.listActiveByOwner(request.user.userId);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error fetching location shares');
+        return reply.code(500).send({ error: 'Failed to fetch location shares' });
+      }
+
+      return { shares: data.map(toShare) };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'List location shares error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Share location with a user or conversation
+  fastify.post('/locations/shares', {
+    config: { auth: true },
+    schema: {
+      tags: ['locations'],
+      summary: 'Share the caller\'s location with a user or everyone in a conversation for a limited time',
+      body: CreateLocationShareBody,
+      response: {
+        200: LocationShare,
+        ...errorResponses(400, 401, 403, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { userId: granteeId, conversationId, duration } = request.body;
+      const { userId } = request.user;
+
+      if (!granteeId === !conversationId) {
+        return reply.code(400).send({ error: 'Share with either a userId or a conversationId' });
       }
 
-      const { userId } = request.params as { userId: string };
+      if (granteeId) {
+        if (granteeId === userId) {
+          return reply.code(400).send({ error: 'Cannot share your location with yourself' });
+        }
+
+        const { data: isBlocked, error: blockError } = await request.blocks.isBlocked(userId, granteeId);
+
+        if (blockError) {
+          fastify.log.error({ err: blockError }, 'Error checking blocks');
+          return reply.code(500).send({ error: 'Failed to share location' });
+        }
+
+        if (isBlocked) {
+          return reply.code(403).send({ error: 'User not accessible' });
+        }
+
+        const { data: grantee, error: userError } = await fastify.repos.users.findById(granteeId);
+
+        if (userError) {
+          fastify.log.error({ err: userError }, 'Error fetching user');
+          return reply.code(500).send({ error: 'Failed to share location' });
+        }
+
+        if (!grantee) {
+          return reply.code(404).send({ error: 'User not found' });
+        }
+      }
+
+      if (conversationId) {
+        const { data: participant } = await fastify.repos.conversations.findParticipant(conversationId, userId);
+        const { data: conversation } = await fastify.repos.conversations.findById(conversationId);
+
+        if (!participant || !conversation) {
+          return reply.code(403).send({ error: 'Not a participant of this conversation' });
+        }
+
+        if (conversation.is_terminated) {
+          return reply.code(400).send({ error: 'Conversation is terminated' });
+        }
+      }
+
+      const { data: share, error } = await fastify.repos.locationShares.create({
+        owner_id: userId,
+        grantee_id: granteeId ?? null,
+        conversation_id: conversationId ?? null,
+        expires_at: new Date(Date.now() + SHARE_DURATIONS[duration]).toISOString()
+      });
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error creating location share');
+        return reply.code(500).send({ error: 'Failed to share location' });
+      }
+
+      return toShare(share);
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Create location share error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Revoke a location share
+  fastify.delete('/locations/shares/:id', {
+    config: { auth: true },
+    schema: {
+      tags: ['locations'],
+      summary: 'Stop a location share before it expires',
+      params: LocationShareParams,
+      response: {
+        200: LocationShare,
+        ...errorResponses(400, 401, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { data: share, error: findError } = await fastify.repos.locationShares.findById(request.params.id);
+
+      if (findError) {
+        fastify.log.error({ err: findError }, 'Error fetching location share');
+        return reply.code(500).send({ error: 'Failed to revoke location share' });
+      }
+
+      // Other users' shares are reported as missing rather than forbidden
+      if (!share || share.owner_id !== request.user.userId) {
+        return reply.code(404).send({ error: 'Location share not found' });
+      }
+
+      if (share.revoked_at || Date.parse(share.expires_at) <= Date.now()) {
+        return reply.code(400).send({ error: 'Location share has already ended' });
+      }
+
+      const { error } = await fastify.repos.locationShares.revoke(share.id);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error revoking location share');
+        return reply.code(500).send({ error: 'Failed to revoke location share' });
+      }
+
+      return toShare({ ...share, revoked_at: new Date().toISOString() });
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Revoke location share error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Get own location history
+  fastify.get('/locations/history', {
+    config: { auth: true },
+    schema: {
+      tags: ['locations'],
+      summary: 'Get the caller\'s own location history for a time range as JSON, GeoJSON or GPX, optionally downsampled',
+      querystring: LocationHistoryQuery,
+      response: {
+        200: LocationHistoryResponse,
+        ...errorResponses(400, 401, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { simplify = 'none', tolerance = 10, bucket = 60, format = 'json', geometry = 'line' } = request.query;
+      const from = Date.parse(request.query.from);
+      const to = request.query.to ? Date.parse(request.query.to) : Date.now();
+
+      if (to < from) {
+        return reply.code(400).send({ error: '`to` must not be before `from`' });
+      }
+
+      if (to - from > MAX_HISTORY_RANGE_MS) {
+        return reply.code(400).send({ error: 'Time range may span at most 7 days' });
+      }
+
+      const { data, error } = await fastify.repos.locations.listByUser(
+        request.user.userId,
+        new Date(from).toISOString(),
+        new Date(to).toISOString(),
+        MAX_HISTORY_FIXES + 1
+      );
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error fetching location history');
+        return reply.code(500).send({ error: 'Failed to fetch location history' });
+      }
+
+      if (data.length > MAX_HISTORY_FIXES) {
+        return reply.code(400).send({ error: 'Too many fixes in range; narrow the time range' });
+      }
+
+      let fixes: TrackPoint[] = data.map(loc => ({
+        latitude: Number(loc.latitude),
+        longitude: Number(loc.longitude),
+        accuracy: loc.accuracy,
+        speed: loc.speed,
+        heading: loc.heading,
+        recorded_at: loc.recorded_at
+      }));
+
+      if (simplify === 'douglas-peucker') {
+        fixes = simplifyTrack(fixes, tolerance);
+      } else if (simplify === 'time-bucket') {
+        fixes = bucketTrack(fixes, bucket);
+      }
+
+      if (format === 'gpx') {
+        return reply.type('application/gpx+xml').send(toGpx(fixes));
+      }
+
+      if (format === 'geojson') {
+        return reply.type('application/geo+json').send(geometry === 'points' ? toGeoJsonPoints(fixes) : toGeoJsonLine(fixes));
+      }
+
+      return { fixes };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Location history error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Get user locations (with privacy filter)
+  fastify.get('/locations/:userId', {
+    config: { auth: true },
+    schema: {
+      tags: ['locations'],
+      summary: 'Get a user\'s latest location from the last 5 minutes if they share it with the caller, fuzzed to their precision setting',
+      params: UserIdParams,
+      response: {
+        200: Nullable(LatestLocation),
+        ...errorResponses(400, 401, 403, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { userId } = request.params;
+      const viewerId = request.user.userId;
 
       // Check for blocks
-      const { data: blockData } = await supabaseAdmin
-        .from('blocks')
-        .select('*')
-        .or(`blocker_id.eq.${verified.userId},blocked_id.eq.${verified.userId}`)
-        .or(`blocker_id.eq.${userId},blocked_id.eq.${userId}`)
-        .limit(1);
-
-      if (blockData && blockData.length > 0) {
+      const { data: isBlocked, error: blockError } = await request.blocks.isBlocked(viewerId, userId);
+
+      if (blockError) {
+        fastify.log.error({ err: blockError }, 'Error checking blocks');
+        return reply.code(500).send({ error: 'Failed to fetch location' });
+      }
+
+      if (isBlocked) {
         return reply.code(403).send({ error: 'User not accessible' });
       }
 
       // Get latest location (last 5 minutes)
-      const { data, error } = await supabaseAdmin
-        .from('locations')
-        .select('latitude, longitude, recorded_at')
-        .eq('user_id', userId)
-        .gte('recorded_at', new Date(Date.now() - 5 * 60 * 1000).toISOString())
-        .order('recorded_at', { ascending: false })
-        .limit(1)
-        .single();
-
-      if (error && error.code !== 'PGRST116') {
-        fastify.log.error({ err: error }, 'Error fetching location');
+      const [locationResult, userResult] = await Promise.all([
+        fastify.repos.locations.findLatest(userId, new Date(Date.now() - 5 * 60 * 1000).toISOString()),
+        fastify.repos.users.findById(userId)
+      ]);
+
+      if (locationResult.error || userResult.error) {
+        fastify.log.error({ err: locationResult.error || userResult.error }, 'Error fetching location');
+        return reply.code(500).send({ error: 'Failed to fetch location' });
+      }
+
+      const data = locationResult.data;
+      const user = userResult.data;
+
+      if (!user) {
+        return reply.code(404).send({ error: 'User not found' });
+      }
+
+      // Checked before looking at the fix, so a 403 never hints whether one exists
+      const { data: allowed, error: accessError } = await canViewLocation(fastify, viewerId, user, data);
+
+      if (accessError) {
+        fastify.log.error({ err: accessError }, 'Error checking location access');
         return reply.code(500).send({ error: 'Failed to fetch location' });
       }
 
-      return data || null;
+      if (!allowed) {
+        return reply.code(403).send({ error: 'Location not shared with you' });
+      }
+
+      if (!data) {
+        return null;
+      }
+
+      const exact = { latitude: Number(data.latitude), longitude: Number(data.longitude) };
+      const shown = userId === viewerId
+        ? exact
+        : fastify.locationFuzzer.fuzz(viewerId, userId, exact, user.location_precision);
+
+      return {
+        latitude: shown.latitude,
+        longitude: shown.longitude,
+        precision: user.location_precision,
+        recorded_at: data.recorded_at
+      };
     } catch (error) {
       fastify.log.error({ err: error }, 'Get location error');
       return reply.code(500).send({ error: 'Internal server error' });
     }
   });
-}
+};
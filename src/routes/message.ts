@@ -0,0 +1,270 @@
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { deleteAttachments } from '../lib/attachments';
+import { publishToParticipants } from '../lib/conversations';
+import { ConversationRow, MessageRow } from '../repositories/types';
+import { SuccessResponse, errorResponses } from '../schemas/common';
+import {
+  EditMessageBody,
+  EditMessageResponse,
+  MessageParams,
+  ReactionBody
+} from '../schemas/conversation';
+
+// How long after sending a message its sender may still edit it
+const EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+// A single emoji sequence: pictographs (with modifiers and joiners), flags or keycaps
+const EMOJI_PATTERN = /^(?:\p{Extended_Pictographic}|\p{Regional_Indicator}|[#*0-9]\uFE0F?\u20E3)(?:[\u200D\uFE0F\u{1F3FB}-\u{1F3FF}]|\p{Extended_Pictographic}|\p{Regional_Indicator})*$/u;
+
+type MessageAccess =
+  | { message: MessageRow; conversation: ConversationRow; error: null }
+  | { message: null; conversation: null; error: { code: 400 | 403 | 404; message: string } };
+
+export const messageRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
+  // Loads a message of an active conversation the caller takes part in
+  const loadMessage = async (conversationId: string, messageId: string, userId: string): Promise<MessageAccess> => {
+    const [{ data: participant }, { data: conversation }] = await Promise.all([
+      fastify.repos.conversations.findParticipant(conversationId, userId),
+      fastify.repos.conversations.findById(conversationId)
+    ]);
+
+    if (!participant || !conversation) {
+      return { message: null, conversation: null, error: { code: 403, message: 'Not a participant of this conversation' } };
+    }
+    if (conversation.is_terminated) {
+      return { message: null, conversation: null, error: { code: 400, message: 'Conversation is terminated' } };
+    }
+    if (conversation.frozen_at) {
+      return { message: null, conversation: null, error: { code: 403, message: 'Conversation is frozen' } };
+    }
+
+    const { data: message } = await fastify.repos.conversations.findMessage(conversationId, messageId);
+
+    if (!message) {
+      return { message: null, conversation: null, error: { code: 404, message: 'Message not found' } };
+    }
+
+    return { message, conversation, error: null };
+  };
+
+  // Edit a message
+  fastify.patch('/conversations/:id/messages/:messageId', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'Edit one of the caller\'s messages within 15 minutes of sending it',
+      params: MessageParams,
+      body: EditMessageBody,
+      response: {
+        200: EditMessageResponse,
+        ...errorResponses(400, 401, 403, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id: conversationId, messageId } = request.params;
+      const body = request.body.body.trim();
+
+      if (body.length === 0) {
+        return reply.code(400).send({ error: 'Message body is required' });
+      }
+
+      const { message, error: accessError } = await loadMessage(conversationId, messageId, request.user.userId);
+      if (accessError) {
+        return reply.code(accessError.code).send({ error: accessError.message });
+      }
+
+      if (message.sender_id !== request.user.userId) {
+        return reply.code(403).send({ error: 'Only the sender can edit a message' });
+      }
+
+      if (message.kind === 'system') {
+        return reply.code(400).send({ error: 'System messages cannot be changed' });
+      }
+
+      if (Date.now() - Date.parse(message.created_at) > EDIT_WINDOW_MS) {
+        return reply.code(403).send({ error: 'Edit window has passed' });
+      }
+
+      const editedAt = new Date().toISOString();
+
+      const { error } = await fastify.repos.conversations.updateMessage(conversationId, messageId, {
+        body,
+        edited_at: editedAt
+      });
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error editing message');
+        return reply.code(500).send({ error: 'Failed to edit message' });
+      }
+
+      await publishToParticipants(fastify, conversationId, 'message.updated', {
+        conversationId,
+        messageId,
+        body,
+        editedAt
+      });
+
+      return { messageId, body, edited_at: editedAt };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Edit message error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Unsend a message
+  fastify.delete('/conversations/:id/messages/:messageId', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'Unsend one of the caller\'s messages, deleting it and its attachments for everyone',
+      params: MessageParams,
+      response: {
+        200: SuccessResponse,
+        ...errorResponses(400, 401, 403, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id: conversationId, messageId } = request.params;
+
+      const { message, conversation, error: accessError } = await loadMessage(
+        conversationId,
+        messageId,
+        request.user.userId
+      );
+      if (accessError) {
+        return reply.code(accessError.code).send({ error: accessError.message });
+      }
+
+      if (message.sender_id !== request.user.userId) {
+        return reply.code(403).send({ error: 'Only the sender can unsend a message' });
+      }
+
+      // Unsending would free up room under the request message limit
+      if (conversation.request_status === 'pending') {
+        return reply.code(400).send({ error: 'Message request has not been accepted yet' });
+      }
+
+      if (message.kind === 'system') {
+        return reply.code(400).send({ error: 'System messages cannot be changed' });
+      }
+
+      const { data: attachments, error: attachmentsError } = await fastify.repos.attachments.listByMessages([messageId]);
+
+      if (attachmentsError) {
+        fastify.log.error({ err: attachmentsError }, 'Error fetching attachments');
+        return reply.code(500).send({ error: 'Failed to unsend message' });
+      }
+
+      await deleteAttachments(fastify, attachments);
+
+      const { error } = await fastify.repos.conversations.deleteMessage(conversationId, messageId);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error deleting message');
+        return reply.code(500).send({ error: 'Failed to unsend message' });
+      }
+
+      await publishToParticipants(fastify, conversationId, 'message.deleted', {
+        conversationId,
+        messageId
+      });
+
+      return { success: true };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Unsend message error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // React to a message
+  fastify.put('/conversations/:id/messages/:messageId/reaction', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'Set the caller\'s emoji reaction on a message, replacing any previous one',
+      params: MessageParams,
+      body: ReactionBody,
+      response: {
+        200: SuccessResponse,
+        ...errorResponses(400, 401, 403, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id: conversationId, messageId } = request.params;
+      const { emoji } = request.body;
+
+      if (!EMOJI_PATTERN.test(emoji)) {
+        return reply.code(400).send({ error: 'Reaction must be a single emoji' });
+      }
+
+      const { error: accessError } = await loadMessage(conversationId, messageId, request.user.userId);
+      if (accessError) {
+        return reply.code(accessError.code).send({ error: accessError.message });
+      }
+
+      const { error } = await fastify.repos.conversations.setReaction(messageId, request.user.userId, emoji);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error saving reaction');
+        return reply.code(500).send({ error: 'Failed to save reaction' });
+      }
+
+      await publishToParticipants(fastify, conversationId, 'message.reaction', {
+        conversationId,
+        messageId,
+        userId: request.user.userId,
+        emoji
+      });
+
+      return { success: true };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Set reaction error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Remove a reaction
+  fastify.delete('/conversations/:id/messages/:messageId/reaction', {
+    config: { auth: true },
+    schema: {
+      tags: ['conversations'],
+      summary: 'Remove the caller\'s reaction from a message',
+      params: MessageParams,
+      response: {
+        200: SuccessResponse,
+        ...errorResponses(400, 401, 403, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id: conversationId, messageId } = request.params;
+
+      const { error: accessError } = await loadMessage(conversationId, messageId, request.user.userId);
+      if (accessError) {
+        return reply.code(accessError.code).send({ error: accessError.message });
+      }
+
+      const { error } = await fastify.repos.conversations.deleteReaction(messageId, request.user.userId);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error removing reaction');
+        return reply.code(500).send({ error: 'Failed to remove reaction' });
+      }
+
+      await publishToParticipants(fastify, conversationId, 'message.reaction', {
+        conversationId,
+        messageId,
+        userId: request.user.userId,
+        emoji: null
+      });
+
+      return { success: true };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Remove reaction error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+};
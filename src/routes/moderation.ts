@@ -0,0 +1,402 @@
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { toPage, toPageRequest } from '../lib/pagination';
+import { enforceSanction, validateSanction } from '../lib/sanctions';
+import { ReportStatus, SanctionRow } from '../repositories/types';
+import { errorResponses } from '../schemas/common';
+import { UserIdParams } from '../schemas/profile';
+import {
+  CreateSanctionBody,
+  Report,
+  ReportDetail,
+  ReportListQuery,
+  ReportPage,
+  ReportParams,
+  ResolveReportBody,
+  Sanction,
+  SanctionList,
+  SanctionParams,
+  TriageReportBody
+} from '../schemas/report';
+
+// Reports still waiting for a decision
+const QUEUE_STATUSES: ReportStatus[] = ['open', 'reviewing'];
+
+const toSanction = (s: SanctionRow) => ({
+  id: s.id,
+  kind: s.kind,
+  reason: s.reason,
+  expires_at: s.expires_at,
+  report_id: s.report_id,
+  created_by: s.created_by,
+  created_at: s.created_at,
+  revoked_at: s.revoked_at
+});
+
+export const moderationRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
+  // List reports
+  fastify.get('/reports', {
+    config: { auth: true },
+    schema: {
+      tags: ['moderation'],
+      summary: 'List reports, newest first; defaults to the open queue',
+      querystring: ReportListQuery,
+      response: {
+        200: ReportPage,
+        ...errorResponses(400, 401, 403, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const pageRequest = toPageRequest(request.query);
+      if ('error' in pageRequest) {
+        return reply.code(400).send({ error: pageRequest.error });
+      }
+
+      const { page } = pageRequest;
+      const statuses = request.query.status ? [request.query.status] : QUEUE_STATUSES;
+
+      const { data, error } = await fastify.repos.reports.list(statuses, page);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error fetching reports');
+        return reply.code(500).send({ error: 'Failed to fetch reports' });
+      }
+
+      const { items, nextCursor } = toPage(
+        data,
+        page,
+        report => ({ createdAt: report.created_at, id: report.id }),
+        'desc'
+      );
+
+      return { reports: items, nextCursor };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'List reports error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Get a report
+  fastify.get('/reports/:id', {
+    config: { auth: true },
+    schema: {
+      tags: ['moderation'],
+      summary: 'Get a report with its message snapshots and the reported user\'s moderation history',
+      params: ReportParams,
+      response: {
+        200: ReportDetail,
+        ...errorResponses(400, 401, 403, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { data: report, error } = await fastify.repos.reports.findById(request.params.id);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error fetching report');
+        return reply.code(500).send({ error: 'Failed to fetch report' });
+      }
+
+      if (!report) {
+        return reply.code(404).send({ error: 'Report not found' });
+      }
+
+      const [messagesResult, sanctionsResult, countResult] = await Promise.all([
+        fastify.repos.reports.listMessages(report.id),
+        fastify.repos.sanctions.listByUser(report.reported_user_id),
+        fastify.repos.reports.countAgainst(report.reported_user_id)
+      ]);
+
+      const failed = [messagesResult, sanctionsResult, countResult].find(r => r.error);
+      if (failed) {
+        fastify.log.error({ err: failed.error }, 'Error loading report details');
+        return reply.code(500).send({ error: 'Failed to fetch report' });
+      }
+
+      return {
+        report,
+        messages: (messagesResult.data || []).map(m => ({
+          message_id: m.message_id,
+          sender_id: m.sender_id,
+          body: m.body,
+          sent_at: m.sent_at
+        })),
+        sanctions: (sanctionsResult.data || []).map(toSanction),
+        reportsAgainstUser: countResult.data ?? 0
+      };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Get report error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Triage a report
+  fastify.patch('/reports/:id', {
+    config: { auth: true },
+    schema: {
+      tags: ['moderation'],
+      summary: 'Move a report through the queue: take it into review, dismiss it, or reopen it',
+      params: ReportParams,
+      body: TriageReportBody,
+      response: {
+        200: Report,
+        ...errorResponses(400, 401, 403, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { status, note } = request.body;
+
+      const { data: report, error: findError } = await fastify.repos.reports.findById(request.params.id);
+
+      if (findError) {
+        fastify.log.error({ err: findError }, 'Error fetching report');
+        return reply.code(500).send({ error: 'Failed to update report' });
+      }
+
+      if (!report) {
+        return reply.code(404).send({ error: 'Report not found' });
+      }
+
+      if (report.status === 'resolved') {
+        return reply.code(400).send({ error: 'Report is already resolved' });
+      }
+
+      // Dismissing closes the report like a resolution without action; reopening clears that
+      const closed = status === 'dismissed';
+      const changes = {
+        status,
+        resolution_note: note ?? report.resolution_note,
+        resolved_by: closed ? request.user.userId : null,
+        resolved_at: closed ? new Date().toISOString() : null
+      };
+
+      const { error } = await fastify.repos.reports.update(report.id, changes);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error updating report');
+        return reply.code(500).send({ error: 'Failed to update report' });
+      }
+
+      return { ...report, ...changes };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Triage report error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Resolve a report
+  fastify.post('/reports/:id/resolve', {
+    config: { auth: true },
+    schema: {
+      tags: ['moderation'],
+      summary: 'Resolve a report, optionally warning, suspending or banning the reported user',
+      params: ReportParams,
+      body: ResolveReportBody,
+      response: {
+        200: Report,
+        ...errorResponses(400, 401, 403, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { action, expiresAt, note } = request.body;
+      const reason = request.body.reason?.trim();
+
+      const invalid = action
+        ? validateSanction(action, reason, expiresAt)
+        : expiresAt && 'Only suspensions and bans can expire';
+      if (invalid) {
+        return reply.code(400).send({ error: invalid });
+      }
+
+      const { data: report, error: findError } = await fastify.repos.reports.findById(request.params.id);
+
+      if (findError) {
+        fastify.log.error({ err: findError }, 'Error fetching report');
+        return reply.code(500).send({ error: 'Failed to resolve report' });
+      }
+
+      if (!report) {
+        return reply.code(404).send({ error: 'Report not found' });
+      }
+
+      if (report.status === 'resolved') {
+        return reply.code(400).send({ error: 'Report is already resolved' });
+      }
+
+      if (action && reason) {
+        const { data: sanction, error: sanctionError } = await fastify.repos.sanctions.create({
+          user_id: report.reported_user_id,
+          kind: action,
+          reason,
+          expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+          report_id: report.id,
+          created_by: request.user.userId
+        });
+
+        if (sanctionError) {
+          fastify.log.error({ err: sanctionError }, 'Error recording sanction');
+          return reply.code(500).send({ error: 'Failed to resolve report' });
+        }
+
+        await enforceSanction(fastify, sanction);
+      }
+
+      const changes = {
+        status: 'resolved' as const,
+        action,
+        resolution_note: note ?? report.resolution_note,
+        resolved_by: request.user.userId,
+        resolved_at: new Date().toISOString()
+      };
+
+      const { error } = await fastify.repos.reports.update(report.id, changes);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error resolving report');
+        return reply.code(500).send({ error: 'Failed to resolve report' });
+      }
+
+      return { ...report, ...changes };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Resolve report error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // List a user's sanctions
+  fastify.get('/users/:userId/sanctions', {
+    config: { auth: true },
+    schema: {
+      tags: ['moderation'],
+      summary: 'List every warning, suspension and ban of a user, newest first',
+      params: UserIdParams,
+      response: {
+        200: SanctionList,
+        ...errorResponses(400, 401, 403, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { data, error } = await fastify.repos.sanctions.listByUser(request.params.userId);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error fetching sanctions');
+        return reply.code(500).send({ error: 'Failed to fetch sanctions' });
+      }
+
+      return { sanctions: data.map(toSanction) };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'List sanctions error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Warn, suspend or ban a user
+  fastify.post('/users/:userId/sanctions', {
+    config: { auth: true },
+    schema: {
+      tags: ['moderation'],
+      summary: 'Warn, suspend or ban a user; suspensions and bans take effect immediately',
+      params: UserIdParams,
+      body: CreateSanctionBody,
+      response: {
+        200: Sanction,
+        ...errorResponses(400, 401, 403, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { userId } = request.params;
+      const { kind, expiresAt } = request.body;
+      const reason = request.body.reason.trim();
+
+      if (userId === request.user.userId) {
+        return reply.code(400).send({ error: 'Cannot sanction yourself' });
+      }
+
+      const invalid = validateSanction(kind, reason, expiresAt);
+      if (invalid) {
+        return reply.code(400).send({ error: invalid });
+      }
+
+      const { data: user, error: userError } = await fastify.repos.users.findById(userId);
+
+      if (userError) {
+        fastify.log.error({ err: userError }, 'Error fetching user');
+        return reply.code(500).send({ error: 'Failed to sanction user' });
+      }
+
+      if (!user) {
+        return reply.code(404).send({ error: 'User not found' });
+      }
+
+      const { data: sanction, error } = await fastify.repos.sanctions.create({
+        user_id: userId,
+        kind,
+        reason,
+        expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+        report_id: null,
+        created_by: request.user.userId
+      });
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error recording sanction');
+        return reply.code(500).send({ error: 'Failed to sanction user' });
+      }
+
+      await enforceSanction(fastify, sanction);
+
+      return toSanction(sanction);
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Sanction user error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Lift a sanction
+  fastify.delete('/sanctions/:id', {
+    config: { auth: true },
+    schema: {
+      tags: ['moderation'],
+      summary: 'Lift a suspension or ban before it expires',
+      params: SanctionParams,
+      response: {
+        200: Sanction,
+        ...errorResponses(400, 401, 403, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { data: sanction, error: findError } = await fastify.repos.sanctions.findById(request.params.id);
+
+      if (findError) {
+        fastify.log.error({ err: findError }, 'Error fetching sanction');
+        return reply.code(500).send({ error: 'Failed to lift sanction' });
+      }
+
+      if (!sanction) {
+        return reply.code(404).send({ error: 'Sanction not found' });
+      }
+
+      if (sanction.revoked_at) {
+        return reply.code(400).send({ error: 'Sanction is already lifted' });
+      }
+
+      const { error } = await fastify.repos.sanctions.revoke(sanction.id, request.user.userId);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error lifting sanction');
+        return reply.code(500).send({ error: 'Failed to lift sanction' });
+      }
+
+      fastify.restrictions.forget(sanction.user_id);
+
+      return toSanction({ ...sanction, revoked_at: new Date().toISOString(), revoked_by: request.user.userId });
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Lift sanction error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+};
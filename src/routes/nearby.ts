@@ -1,196 +1,188 @@
-import { FastifyInstance } from 'fastify';
-import { supabaseAdmin } from '../lib/supabase';
-
-export async function nearbyRoutes(fastify: FastifyInstance) {
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { NearbyCursor, nearbyScore } from '../lib/nearby';
+import { distanceBucket, MAX_FUZZ_KM } from '../lib/privacy';
+import { haversineKm } from '../lib/spatial';
+import { errorResponses } from '../schemas/common';
+import { NearbyQuery, NearbyResponse } from '../schemas/nearby';
+
+// How old the caller's own latest fix may be to serve as the search centre
+const MAX_CENTRE_AGE_MS = process.env.NEARBY_MAX_LOCATION_AGE_MS
+    ? parseInt(process.env.NEARBY_MAX_LOCATION_AGE_MS, 10)
+    : 5 * 60 * 1000;
+
+// Online means a heartbeat within 30 seconds (heartbeat is every 10s); fixes use the same window
+const ONLINE_WINDOW_MS = 30 * 1000;
+
+export const nearbyRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
     // Get nearby users based on location and radius
-    fastify.get('/users/nearby', async (request, reply) => {
-        const authHeader = request.headers.authorization;
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-            return reply.code(401).send({ error: 'Missing or invalid authorization header' });
-        }
-
-        const token = authHeader.substring(7);
-        const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
-
-        if (authError || !user) {
-            return reply.code(401).send({ error: 'Unauthorized' });
-        }
-
-        const { lat, lon, radius } = request.query as { lat?: string; lon?: string; radius?: string };
-
-        if (!lat || !lon || !radius) {
-            return reply.code(400).send({ error: 'Missing required query params: lat, lon, radius' });
+    fastify.get('/users/nearby', {
+        config: { auth: true },
+        schema: {
+            tags: ['nearby'],
+            summary: 'List online or recently active users within a radius (max 5 km) of the caller\'s latest location, filtered, ranked and paged',
+            querystring: NearbyQuery,
+            response: {
+                200: NearbyResponse,
+                ...errorResponses(400, 401, 429, 500)
+            }
         }
+    }, async (request, reply) => {
+        const { userId } = request.user;
+        const {
+            radius: radiusKm,
+            minAge,
+            maxAge,
+            gender,
+            hasPhoto,
+            sort = 'distance',
+            activeWithin,
+            limit = 50
+        } = request.query;
 
-        const latitude = parseFloat(lat);
-        const longitude = parseFloat(lon);
-        const radiusKm = parseFloat(radius);
+        fastify.log.info({
+            requestingUserId: userId,
+            radiusKm,
+            sort
+        }, '🔍 Nearby users request');
 
-        if (isNaN(latitude) || isNaN(longitude) || isNaN(radiusKm)) {
-            return reply.code(400).send({ error: 'Invalid lat, lon, or radius' });
+        if (minAge !== undefined && maxAge !== undefined && minAge > maxAge) {
+            return reply.code(400).send({ error: 'minAge cannot be greater than maxAge' });
         }
 
-        if (radiusKm < 0 || radiusKm > 5) {
-            return reply.code(400).send({ error: 'Radius must be between 0 and 5 km' });
+        // A cursor only continues the same caller's search in the same ranking
+        let cursor: NearbyCursor | null = null;
+        if (request.query.cursor) {
+            cursor = fastify.nearbyCursors.open(request.query.cursor);
+            if (!cursor || cursor.viewerId !== userId || cursor.sort !== sort) {
+                return reply.code(400).send({ error: 'Invalid cursor' });
+            }
         }
 
-        fastify.log.info({
-            requestingUserId: user.id,
-            latitude,
-            longitude,
-            radiusKm
-        }, '🔍 Nearby users request');
-
         try {
-            // Get blocked users (both directions)
-            const { data: blocks } = await supabaseAdmin
-                .from('blocks')
-                .select('blocked_id, blocker_id')
-                .or(`blocker_id.eq.${user.id},blocked_id.eq.${user.id}`);
-
-            const blockedUserIds = new Set<string>();
-            if (blocks) {
-                blocks.forEach((block: any) => {
-                    if (block.blocker_id === user.id) {
-                        blockedUserIds.add(block.blocked_id);
-                    } else {
-                        blockedUserIds.add(block.blocker_id);
-                    }
-                });
+            const [requesterResult, centreResult] = await Promise.all([
+                fastify.repos.users.findById(userId),
+                fastify.repos.locations.findLatest(userId, new Date(Date.now() - MAX_CENTRE_AGE_MS).toISOString())
+            ]);
+
+            if (requesterResult.error || centreResult.error) {
+                fastify.log.error({ err: requesterResult.error || centreResult.error }, '❌ Error fetching requester location');
+                return reply.code(500).send({ error: 'Failed to fetch location' });
             }
 
-            fastify.log.info({ blockedCount: blockedUserIds.size }, '🚫 Blocked users loaded');
+            // Spoofed fixes pause searching as well as being found
+            const flaggedUntil = requesterResult.data?.location_flagged_until;
+            if (flaggedUntil && Date.parse(flaggedUntil) > Date.now()) {
+                return reply.code(429).send({
+                    error: 'Nearby search paused after implausible location updates',
+                    details: `Until ${flaggedUntil}`
+                });
+            }
 
-            // Get users who are online (last_active_at within 30 seconds - heartbeat is every 10s)
-            const thirtySecondsAgo = new Date(Date.now() - 30 * 1000).toISOString();
+            if (!centreResult.data) {
+                return reply.code(400).send({ error: 'No recent location; send a location update first' });
+            }
 
-            fastify.log.info({ thirtySecondsAgo }, '⏰ Querying online users since (30s window)');
+            const latitude = Number(centreResult.data.latitude);
+            const longitude = Number(centreResult.data.longitude);
 
-            const { data: onlineUsers, error: usersError } = await supabaseAdmin
-                .from('users')
-                .select('id, name, email, profile_image_url, presence_status')
-                .eq('presence_status', 'online')
-                .gte('last_active_at', thirtySecondsAgo)
-                .neq('id', user.id); // Exclude self
+            // Get blocked users (both directions)
+            const { data: blockedUserIds, error: blockError } = await request.blocks.blockedIds(userId);
 
-            if (usersError) {
-                fastify.log.error({ err: usersError }, '❌ Error fetching users');
+            if (blockError) {
+                fastify.log.error({ err: blockError }, 'Error checking blocks');
                 return reply.code(500).send({ error: 'Failed to fetch users' });
             }
 
-            fastify.log.info({ onlineUsersCount: onlineUsers?.length || 0 }, '👥 Online users found');
+            fastify.log.info({ blockedCount: blockedUserIds.size }, '🚫 Blocked users loaded');
 
-            if (!onlineUsers || onlineUsers.length === 0) {
-                fastify.log.info('No online users found');
-                return reply.send({ users: [] });
-            }
+            const windowMs = activeWithin ? activeWithin * 60 * 1000 : ONLINE_WINDOW_MS;
+            const activeSince = new Date(Date.now() - windowMs).toISOString();
 
-            // Filter out blocked users
-            const availableUsers = onlineUsers.filter(u => !blockedUserIds.has(u.id));
+            // Only users whose latest fix falls in the cells around the circle are considered. The
+            // radius is widened because membership is decided on fuzzed positions below.
+            const candidates = fastify.locationIndex
+                .query(latitude, longitude, radiusKm + MAX_FUZZ_KM, activeSince)
+                .filter(c => c.userId !== userId && !blockedUserIds.has(c.userId));
 
-            fastify.log.info({ availableUsersCount: availableUsers.length }, '✅ Available users (after blocking filter)');
+            fastify.log.info({ candidatesCount: candidates.length }, '📍 Users with recent locations in range');
 
-            if (availableUsers.length === 0) {
-                return reply.send({ users: [] });
+            if (candidates.length === 0) {
+                return reply.send({ users: [], nextCursor: null });
             }
 
-            // Get recent locations for these users (within last 30 seconds to match heartbeat)
-            const thirtySecondsAgoLocations = new Date(Date.now() - 30 * 1000).toISOString();
-            const userIds = availableUsers.map(u => u.id);
+            const candidateIds = candidates.map(c => c.userId);
 
-            fastify.log.info({ 
-                thirtySecondsAgo: thirtySecondsAgoLocations,
-                userIds 
-            }, '📍 Querying locations for users (30s window)');
-
-            const { data: locations, error: locError } = await supabaseAdmin
-                .from('locations')
-                .select('user_id, latitude, longitude, recorded_at')
-                .in('user_id', userIds)
-                .gte('recorded_at', thirtySecondsAgoLocations)
-                .order('recorded_at', { ascending: false });
-
-            if (locError) {
-                fastify.log.error({ err: locError }, '❌ Error fetching locations');
-                return reply.code(500).send({ error: 'Failed to fetch locations' });
-            }
+            const [usersResult, bansResult] = await Promise.all([
+                fastify.repos.users.findByIds(candidateIds),
+                fastify.repos.sanctions.listActive(candidateIds, ['ban'])
+            ]);
 
-            fastify.log.info({ 
-                locationsCount: locations?.length || 0,
-                locations: locations?.slice(0, 5) // Log first 5 for debugging
-            }, '📍 Locations found');
-
-            // Get most recent location per user
-            const userLocations = new Map<string, { lat: number; lon: number }>();
-            if (locations) {
-                locations.forEach((loc: any) => {
-                    if (!userLocations.has(loc.user_id)) {
-                        userLocations.set(loc.user_id, {
-                            lat: parseFloat(loc.latitude),
-                            lon: parseFloat(loc.longitude)
-                        });
-                    }
-                });
+            if (usersResult.error || bansResult.error) {
+                fastify.log.error({ err: usersResult.error || bansResult.error }, '❌ Error fetching users');
+                return reply.code(500).send({ error: 'Failed to fetch users' });
             }
 
-            fastify.log.info({ usersWithLocations: userLocations.size }, '📍 Users with recent locations');
-
-            // Calculate distance using Haversine formula
-            const haversineDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-                const R = 6371; // Earth radius in km
-                const dLat = (lat2 - lat1) * Math.PI / 180;
-                const dLon = (lon2 - lon1) * Math.PI / 180;
-                const a =
-                    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-                    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-                    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-                const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-                return R * c;
-            };
-
-            // Filter users within radius and add distance
-            const nearbyUsers = availableUsers
-                .map(u => {
-                    const userLoc = userLocations.get(u.id);
-                    if (!userLoc) {
-                        fastify.log.debug({ userId: u.id }, '⚠️ User has no recent location');
-                        return null;
-                    }
-
-                    const distance = haversineDistance(latitude, longitude, userLoc.lat, userLoc.lon);
-
-                    fastify.log.debug({
-                        userId: u.id,
-                        userName: u.name,
-                        distance: distance.toFixed(3) + 'km',
-                        userLocation: userLoc,
-                        withinRadius: distance <= radiusKm
-                    }, '📏 Distance calculated');
-
-                    if (distance <= radiusKm) {
-                        return {
-                            id: u.id,
-                            name: u.name || u.email.split('@')[0],
-                            profile_image_url: u.profile_image_url,
-                            distance_km: Math.round(distance * 100) / 100 // Round to 2 decimals
-                        };
-                    }
-                    return null;
+            // Banned users are forced offline, but a stale row must not resurface them either
+            const bannedUserIds = new Set(bansResult.data.map(b => b.user_id));
+
+            // Filters apply before ranking and paging, so pages are only short at the end and
+            // nothing in the response depends on how many users were left out
+            const now = Date.now();
+            const matchingUsers = new Map(usersResult.data
+                .filter(u =>
+                    (activeWithin || u.presence_status === 'online') &&
+                    u.last_active_at !== null &&
+                    Date.parse(u.last_active_at) >= now - windowMs &&
+                    !bannedUserIds.has(u.id) &&
+                    !(u.location_flagged_until && Date.parse(u.location_flagged_until) > now) &&
+                    (minAge === undefined || (u.age !== null && u.age >= minAge)) &&
+                    (maxAge === undefined || (u.age !== null && u.age <= maxAge)) &&
+                    (!gender || gender.some(g => g === u.gender)) &&
+                    (hasPhoto === undefined || hasPhoto === !!u.profile_image_url)
+                )
+                .map(u => [u.id, u]));
+
+            fastify.log.info({ matchingUsersCount: matchingUsers.size }, '👥 Matching users found');
+
+            // Distances are measured to where each user is shown to this caller, never to the exact
+            // fix, so neither the radius edge, the order nor the bucket can be used to trilaterate
+            const ranked = candidates
+                .filter(c => matchingUsers.has(c.userId))
+                .map(c => {
+                    const u = matchingUsers.get(c.userId)!;
+                    const shown = fastify.locationFuzzer.fuzz(userId, u.id, c, u.location_precision);
+                    const distanceKm = haversineKm(latitude, longitude, shown.latitude, shown.longitude);
+                    const idleMs = now - Date.parse(u.last_active_at!);
+                    return { user: u, distanceKm, score: nearbyScore(sort, distanceKm, radiusKm, idleMs, windowMs) };
                 })
-                .filter(u => u !== null)
-                .sort((a, b) => a!.distance_km - b!.distance_km) // Sort by distance
-                .slice(0, 50); // Limit to 50 users
+                .filter(n => n.distanceKm <= radiusKm)
+                .sort((a, b) => a.score - b.score || (a.user.id < b.user.id ? -1 : 1))
+                .filter(n => !cursor || n.score > cursor.score || (n.score === cursor.score && n.user.id > cursor.id));
+
+            // Positions move between requests, so a later page reflects the ranking at that time
+            const pageUsers = ranked.slice(0, limit);
+            const last = pageUsers[pageUsers.length - 1];
+            const nextCursor = ranked.length > limit
+                ? fastify.nearbyCursors.seal({ viewerId: userId, sort, score: last.score, id: last.user.id })
+                : null;
+
+            const nearbyUsers = pageUsers.map(({ user: u, distanceKm }) => ({
+                id: u.id,
+                name: u.name || u.email.split('@')[0],
+                profile_image_url: u.profile_image_url,
+                distance: distanceBucket(distanceKm)
+            }));
 
             fastify.log.info({ 
                 nearbyUsersCount: nearbyUsers.length,
                 nearbyUsers: nearbyUsers.slice(0, 5) // Log first 5
             }, '✅ Nearby users result');
 
-            return reply.send({ users: nearbyUsers });
+            return reply.send({ users: nearbyUsers, nextCursor });
 
         } catch (error: any) {
             fastify.log.error({ err: error }, 'Error in nearby users endpoint');
             return reply.code(500).send({ error: 'Internal server error' });
         }
     });
-}
+};
@@ -1,34 +1,30 @@
-import { FastifyInstance } from 'fastify';
-import { supabaseAdmin, verifyToken } from '../lib/supabase';
-
-interface HeartbeatBody {
-  userId: string;
-  presenceStatus?: 'online' | 'offline';
-}
-
-export async function presenceRoutes(fastify: FastifyInstance) {
-  fastify.post('/presence/heartbeat', async (request, reply) => {
-    try {
-      const authHeader = request.headers.authorization;
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return reply.code(401).send({ error: 'Unauthorized' });
-      }
-
-      const token = authHeader.substring(7);
-      const verified = await verifyToken(token);
-      
-      if (!verified) {
-        return reply.code(401).send({ error: 'Invalid token' });
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { presenceChannel } from '../lib/realtime';
+import { UserUpdate } from '../repositories/types';
+import { SuccessResponse, errorResponses } from '../schemas/common';
+import { HeartbeatBody, StatusBody, StatusResponse } from '../schemas/presence';
+
+export const presenceRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
+  fastify.post('/presence/heartbeat', {
+    config: { auth: true },
+    schema: {
+      tags: ['presence'],
+      summary: 'Record a heartbeat for the caller',
+      body: HeartbeatBody,
+      response: {
+        200: SuccessResponse,
+        ...errorResponses(400, 401, 403, 500)
       }
+    }
+  }, async (request, reply) => {
+    try {
+      const { userId, presenceStatus } = request.body;
 
-      const body = request.body as HeartbeatBody;
-      const { userId, presenceStatus } = body;
-
-      if (userId !== verified.userId) {
+      if (userId !== request.user.userId) {
         return reply.code(403).send({ error: 'Forbidden' });
       }
 
-      const updateData: any = {
+      const updateData: UserUpdate = {
         last_active_at: new Date().toISOString()
       };
 
@@ -42,10 +38,7 @@ export async function presenceRoutes(fastify: FastifyInstance) {
         last_active_at: updateData.last_active_at 
       }, '💓 Heartbeat received');
 
-      const { error } = await supabaseAdmin
-        .from('users')
-        .update(updateData)
-        .eq('id', userId);
+      const { error } = await fastify.repos.users.update(userId, updateData);
 
       if (error) {
         fastify.log.error({ err: error }, '❌ Error updating presence');
@@ -54,6 +47,14 @@ export async function presenceRoutes(fastify: FastifyInstance) {
 
       fastify.log.info({ userId }, '✅ Presence updated');
 
+      if (presenceStatus) {
+        fastify.realtime.publish(presenceChannel(userId), 'presence.changed', {
+          userId,
+          status: presenceStatus,
+          lastActiveAt: updateData.last_active_at
+        });
+      }
+
       return { success: true };
     } catch (error) {
       fastify.log.error({ err: error }, 'Heartbeat error');
@@ -62,43 +63,42 @@ export async function presenceRoutes(fastify: FastifyInstance) {
   });
 
   // Update presence status (online/offline)
-  fastify.post('/presence/status', async (request, reply) => {
-    try {
-      const authHeader = request.headers.authorization;
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return reply.code(401).send({ error: 'Unauthorized' });
-      }
-
-      const token = authHeader.substring(7);
-      const verified = await verifyToken(token);
-      
-      if (!verified) {
-        return reply.code(401).send({ error: 'Invalid token' });
-      }
-
-      const { status } = request.body as { status: 'online' | 'offline' };
-
-      if (!status || !['online', 'offline'].includes(status)) {
-        return reply.code(400).send({ error: 'Invalid status' });
+  fastify.post('/presence/status', {
+    config: { auth: true },
+    schema: {
+      tags: ['presence'],
+      summary: 'Set the caller\'s presence status',
+      body: StatusBody,
+      response: {
+        200: StatusResponse,
+        ...errorResponses(400, 401, 500)
       }
+    }
+  }, async (request, reply) => {
+    try {
+      const { status } = request.body;
+      const lastActiveAt = new Date().toISOString();
 
-      const { error } = await supabaseAdmin
-        .from('users')
-        .update({ 
-          presence_status: status,
-          last_active_at: new Date().toISOString()
-        })
-        .eq('id', verified.userId);
+      const { error } = await fastify.repos.users.update(request.user.userId, {
+        presence_status: status,
+        last_active_at: lastActiveAt
+      });
 
       if (error) {
         fastify.log.error({ err: error }, 'Error updating status');
         return reply.code(500).send({ error: 'Failed to update status' });
       }
 
+      fastify.realtime.publish(presenceChannel(request.user.userId), 'presence.changed', {
+        userId: request.user.userId,
+        status,
+        lastActiveAt
+      });
+
       return { success: true, status };
     } catch (error) {
       fastify.log.error({ err: error }, 'Status update error');
       return reply.code(500).send({ error: 'Internal server error' });
     }
   });
-}
+};
@@ -1,43 +1,33 @@
-import { FastifyInstance } from 'fastify';
-import { supabaseAdmin, verifyToken } from '../lib/supabase';
-
-interface ProfileConfirmBody {
-  userId: string;
-  storagePath: string;
-  publicUrl: string;
-}
-
-export async function profileRoutes(fastify: FastifyInstance) {
-  fastify.post('/profile/confirm', async (request, reply) => {
-    try {
-      const authHeader = request.headers.authorization;
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return reply.code(401).send({ error: 'Unauthorized' });
-      }
-
-      const token = authHeader.substring(7);
-      const verified = await verifyToken(token);
-      
-      if (!verified) {
-        return reply.code(401).send({ error: 'Invalid token' });
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { SuccessResponse, errorResponses } from '../schemas/common';
+import { ProfileConfirmBody, PublicProfile, UserIdParams } from '../schemas/profile';
+
+export const profileRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
+  fastify.post('/profile/confirm', {
+    config: { auth: true },
+    schema: {
+      tags: ['profile'],
+      summary: 'Save an uploaded profile image on the caller\'s profile',
+      body: ProfileConfirmBody,
+      response: {
+        200: SuccessResponse,
+        ...errorResponses(400, 401, 403, 500)
       }
+    }
+  }, async (request, reply) => {
+    try {
+      const { userId, storagePath, publicUrl } = request.body;
 
-      const body = request.body as ProfileConfirmBody;
-      const { userId, storagePath, publicUrl } = body;
-
-      if (userId !== verified.userId) {
+      if (userId !== request.user.userId) {
         return reply.code(403).send({ error: 'Forbidden' });
       }
 
       // Update user profile with new image path
-      const { error } = await supabaseAdmin
-        .from('users')
-        .update({ 
-          profile_image_path: storagePath,
-          profile_image_url: publicUrl,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', userId);
+      const { error } = await fastify.repos.users.update(userId, {
+        profile_image_path: storagePath,
+        profile_image_url: publicUrl,
+        updated_at: new Date().toISOString()
+      });
 
       if (error) {
         fastify.log.error({ err: error }, 'Error updating profile');
@@ -52,48 +42,49 @@ export async function profileRoutes(fastify: FastifyInstance) {
   });
 
   // Get user profile
-  fastify.get('/profile/:userId', async (request, reply) => {
-    try {
-      const authHeader = request.headers.authorization;
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return reply.code(401).send({ error: 'Unauthorized' });
-      }
-
-      const token = authHeader.substring(7);
-      const verified = await verifyToken(token);
-      
-      if (!verified) {
-        return reply.code(401).send({ error: 'Invalid token' });
+  fastify.get('/profile/:userId', {
+    config: { auth: true },
+    schema: {
+      tags: ['profile'],
+      summary: 'Get another user\'s public profile',
+      params: UserIdParams,
+      response: {
+        200: PublicProfile,
+        ...errorResponses(400, 401, 403, 404, 500)
       }
-
-      const { userId } = request.params as { userId: string };
+    }
+  }, async (request, reply) => {
+    try {
+      const { userId } = request.params;
 
       // Check for blocks between users
-      const { data: blockData } = await supabaseAdmin
-        .from('blocks')
-        .select('*')
-        .or(`blocker_id.eq.${verified.userId},blocked_id.eq.${verified.userId}`)
-        .or(`blocker_id.eq.${userId},blocked_id.eq.${userId}`)
-        .limit(1);
+      const { data: isBlocked, error: blockError } = await request.blocks.isBlocked(request.user.userId, userId);
+
+      if (blockError) {
+        fastify.log.error({ err: blockError }, 'Error checking blocks');
+        return reply.code(500).send({ error: 'Failed to fetch profile' });
+      }
 
-      if (blockData && blockData.length > 0) {
+      if (isBlocked) {
         return reply.code(403).send({ error: 'User not accessible' });
       }
 
-      const { data, error } = await supabaseAdmin
-        .from('users')
-        .select('id, name, profile_image_url, presence_status, last_active_at')
-        .eq('id', userId)
-        .single();
+      const { data, error } = await fastify.repos.users.findById(userId);
 
       if (error || !data) {
         return reply.code(404).send({ error: 'User not found' });
       }
 
-      return data;
+      return {
+        id: data.id,
+        name: data.name,
+        profile_image_url: data.profile_image_url,
+        presence_status: data.presence_status,
+        last_active_at: data.last_active_at
+      };
     } catch (error) {
       fastify.log.error({ err: error }, 'Get profile error');
       return reply.code(500).send({ error: 'Internal server error' });
     }
   });
-}
+};
@@ -0,0 +1,193 @@
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { Value } from '@sinclair/typebox/value';
+import { createBlockService } from '../lib/blocks';
+import {
+  CHANNEL_REVOKED,
+  presenceChannel,
+  RealtimeListener,
+  userChannel
+} from '../lib/realtime';
+import { PresenceStatus } from '../repositories/types';
+import { ClientMessage, RealtimeQuery } from '../schemas/realtime';
+
+// Same cadence as the HTTP heartbeat, so nearby/cleanup windows keep working
+const PING_INTERVAL_MS = 10 * 1000;
+
+export const realtimeRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
+  // Open sockets per user: presence only goes offline when the last one closes
+  const connections = new Map<string, number>();
+
+  const setPresence = async (userId: string, status: PresenceStatus) => {
+    const lastActiveAt = new Date().toISOString();
+
+    const { error } = await fastify.repos.users.update(userId, {
+      presence_status: status,
+      last_active_at: lastActiveAt
+    });
+
+    if (error) {
+      fastify.log.error({ err: error, userId }, 'Error updating realtime presence');
+      return;
+    }
+
+    fastify.realtime.publish(presenceChannel(userId), 'presence.changed', {
+      userId,
+      status,
+      lastActiveAt
+    });
+  };
+
+  // Whether the user may receive events from a channel
+  const canSubscribe = async (userId: string, channel: string): Promise<boolean> => {
+    const [kind, id] = channel.split(':');
+    if (!id) {
+      return false;
+    }
+
+    switch (kind) {
+      case 'user':
+      case 'nearby':
+        return id === userId;
+      case 'presence': {
+        if (id === userId) {
+          return true;
+        }
+        // Sockets outlive requests, so every check gets a fresh, uncached lookup
+        const { data: isBlocked, error } = await createBlockService(fastify.repos.blocks).isBlocked(userId, id);
+        return !error && !isBlocked;
+      }
+      default:
+        return false;
+    }
+  };
+
+  fastify.get('/realtime', {
+    websocket: true,
+    config: { auth: true },
+    schema: {
+      tags: ['realtime'],
+      summary: 'WebSocket gateway for presence, message and location events',
+      querystring: RealtimeQuery
+    }
+  }, (socket, request) => {
+    const { userId } = request.user;
+    const subscriptions = new Set<string>();
+
+    const send = (payload: object) => {
+      if (socket.readyState === socket.OPEN) {
+        socket.send(JSON.stringify(payload));
+      }
+    };
+
+    const listener: RealtimeListener = (event) => {
+      // Left silently, so a blocked user is not told about the block
+      if (event.event === CHANNEL_REVOKED) {
+        leave((event.data as { channel: string }).channel);
+        return;
+      }
+
+      send({ type: 'event', ...event });
+
+      // A suspension or ban ends the session; reconnecting is refused at the handshake
+      if (event.event === 'moderation.sanction' && (event.data as { kind: string }).kind !== 'warn') {
+        socket.close(4003, 'Account restricted');
+      }
+    };
+
+    const join = (channel: string) => {
+      if (!subscriptions.has(channel)) {
+        subscriptions.add(channel);
+        fastify.realtime.subscribe(channel, listener);
+      }
+    };
+
+    const leave = (channel: string) => {
+      if (subscriptions.delete(channel)) {
+        fastify.realtime.unsubscribe(channel, listener);
+      }
+    };
+
+    join(userChannel(userId));
+
+    connections.set(userId, (connections.get(userId) || 0) + 1);
+    void setPresence(userId, 'online');
+
+    fastify.log.info({ userId }, '🔌 Realtime connection opened');
+
+    // Connection liveness replaces the heartbeat: every pong refreshes last_active_at,
+    // a missed pong drops the socket
+    let alive = true;
+
+    socket.on('pong', () => {
+      alive = true;
+      fastify.repos.users.update(userId, { last_active_at: new Date().toISOString() })
+        .then(({ error }) => {
+          if (error) {
+            fastify.log.error({ err: error, userId }, 'Error refreshing last_active_at');
+          }
+        });
+    });
+
+    const pingTimer = setInterval(() => {
+      if (!alive) {
+        socket.terminate();
+        return;
+      }
+      alive = false;
+      socket.ping();
+    }, PING_INTERVAL_MS);
+
+    socket.on('message', async (raw) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        send({ type: 'error', error: 'Invalid JSON' });
+        return;
+      }
+
+      if (!Value.Check(ClientMessage, message)) {
+        send({ type: 'error', error: 'Invalid message' });
+        return;
+      }
+
+      try {
+        switch (message.type) {
+          case 'ping':
+            send({ type: 'pong' });
+            break;
+          case 'subscribe':
+            if (await canSubscribe(userId, message.channel)) {
+              join(message.channel);
+              send({ type: 'subscribed', channel: message.channel });
+            } else {
+              send({ type: 'error', channel: message.channel, error: 'Channel not accessible' });
+            }
+            break;
+          case 'unsubscribe':
+            leave(message.channel);
+            send({ type: 'unsubscribed', channel: message.channel });
+            break;
+        }
+      } catch (error) {
+        fastify.log.error({ err: error }, 'Realtime message error');
+        send({ type: 'error', error: 'Internal server error' });
+      }
+    });
+
+    socket.on('close', () => {
+      clearInterval(pingTimer);
+      [...subscriptions].forEach(leave);
+
+      const remaining = (connections.get(userId) || 1) - 1;
+      if (remaining > 0) {
+        connections.set(userId, remaining);
+      } else {
+        connections.delete(userId);
+        void setPresence(userId, 'offline');
+      }
+
+      fastify.log.info({ userId }, '🔌 Realtime connection closed');
+    });
+  });
+};
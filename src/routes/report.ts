@@ -0,0 +1,131 @@
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { blockUser } from '../lib/blocks';
+import { MessageRow } from '../repositories/types';
+import { errorResponses } from '../schemas/common';
+import { CreateReportBody, CreateReportResponse } from '../schemas/report';
+
+export const reportRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
+  // Report a user
+  fastify.post('/reports', {
+    config: { auth: true },
+    schema: {
+      tags: ['reports'],
+      summary: 'Report a user, optionally citing messages of a shared conversation and blocking them',
+      body: CreateReportBody,
+      response: {
+        200: CreateReportResponse,
+        ...errorResponses(400, 401, 403, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { reportedUserId, category, conversationId, block } = request.body;
+      const messageIds = [...new Set(request.body.messageIds ?? [])];
+      const details = request.body.details?.trim() || null;
+      const { userId } = request.user;
+
+      if (reportedUserId === userId) {
+        return reply.code(400).send({ error: 'Cannot report yourself' });
+      }
+
+      if (messageIds.length > 0 && !conversationId) {
+        return reply.code(400).send({ error: 'Reported messages need their conversationId' });
+      }
+
+      const { data: reportedUser, error: userError } = await fastify.repos.users.findById(reportedUserId);
+
+      if (userError) {
+        fastify.log.error({ err: userError }, 'Error fetching reported user');
+        return reply.code(500).send({ error: 'Failed to file report' });
+      }
+
+      if (!reportedUser) {
+        return reply.code(404).send({ error: 'User not found' });
+      }
+
+      // Only what the reporter could see, from a conversation shared with the reported user, may be cited
+      let messages: MessageRow[] = [];
+      if (conversationId) {
+        const [reporterResult, reportedResult] = await Promise.all([
+          fastify.repos.conversations.findParticipant(conversationId, userId),
+          fastify.repos.conversations.findParticipant(conversationId, reportedUserId)
+        ]);
+
+        if (reporterResult.error || reportedResult.error) {
+          fastify.log.error({ err: reporterResult.error || reportedResult.error }, 'Error fetching participants');
+          return reply.code(500).send({ error: 'Failed to file report' });
+        }
+
+        if (!reporterResult.data) {
+          return reply.code(403).send({ error: 'Not a participant of this conversation' });
+        }
+
+        if (!reportedResult.data) {
+          return reply.code(400).send({ error: 'Reported user is not in this conversation' });
+        }
+
+        if (messageIds.length > 0) {
+          const { data, error } = await fastify.repos.conversations.findMessages(conversationId, messageIds);
+
+          if (error) {
+            fastify.log.error({ err: error }, 'Error fetching reported messages');
+            return reply.code(500).send({ error: 'Failed to file report' });
+          }
+
+          if (data.length !== messageIds.length) {
+            return reply.code(404).send({ error: 'Message not found' });
+          }
+
+          if (data.some(m => m.sender_id !== reportedUserId)) {
+            return reply.code(400).send({ error: 'Only messages sent by the reported user can be cited' });
+          }
+
+          messages = data;
+        }
+      }
+
+      const { data: report, error } = await fastify.repos.reports.create({
+        reporter_id: userId,
+        reported_user_id: reportedUserId,
+        category,
+        details,
+        conversation_id: conversationId ?? null
+      });
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error creating report');
+        return reply.code(500).send({ error: 'Failed to file report' });
+      }
+
+      // Snapshot now: termination, unsend or the disappearing timer may delete the originals
+      if (messages.length > 0) {
+        const { error: snapshotError } = await fastify.repos.reports.addMessages(messages.map(m => ({
+          report_id: report.id,
+          message_id: m.id,
+          sender_id: m.sender_id,
+          body: m.body,
+          sent_at: m.created_at
+        })));
+
+        if (snapshotError) {
+          fastify.log.error({ err: snapshotError }, 'Error saving reported messages');
+          return reply.code(500).send({ error: 'Failed to file report' });
+        }
+      }
+
+      if (block) {
+        const { error: blockError } = await blockUser(fastify, request.blocks, userId, reportedUserId);
+
+        if (blockError) {
+          fastify.log.error({ err: blockError }, 'Error creating block');
+          return reply.code(500).send({ error: 'Failed to block user' });
+        }
+      }
+
+      return { reportId: report.id };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Create report error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+};
@@ -1,33 +1,33 @@
-import { FastifyInstance } from 'fastify';
-import { supabaseAdmin, verifyToken } from '../lib/supabase';
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { randomUUID } from 'crypto';
+import { ALLOWED_ATTACHMENT_TYPES, ATTACHMENTS_BUCKET } from '../lib/attachments';
+import { errorResponses } from '../schemas/common';
+import { ConversationParams } from '../schemas/conversation';
+import {
+  AttachmentUploadBody,
+  AttachmentUploadResponse,
+  UploadUrlBody,
+  UploadUrlResponse
+} from '../schemas/upload';
 
-interface UploadUrlBody {
-  userId: string;
-  fileName: string;
-  contentType: string;
-}
-
-export async function uploadRoutes(fastify: FastifyInstance) {
-  fastify.post('/upload-url', async (request, reply) => {
-    try {
-      // Get token from Authorization header
-      const authHeader = request.headers.authorization;
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return reply.code(401).send({ error: 'Unauthorized' });
-      }
-
-      const token = authHeader.substring(7);
-      const verified = await verifyToken(token);
-      
-      if (!verified) {
-        return reply.code(401).send({ error: 'Invalid token' });
+export const uploadRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
+  fastify.post('/upload-url', {
+    config: { auth: true },
+    schema: {
+      tags: ['upload'],
+      summary: 'Create a signed upload URL for a profile image',
+      body: UploadUrlBody,
+      response: {
+        200: UploadUrlResponse,
+        ...errorResponses(400, 401, 403, 500)
       }
-
-      const body = request.body as UploadUrlBody;
-      const { userId, fileName, contentType } = body;
+    }
+  }, async (request, reply) => {
+    try {
+      const { userId, fileName, contentType } = request.body;
 
       // Verify the userId matches the token
-      if (userId !== verified.userId) {
+      if (userId !== request.user.userId) {
         return reply.code(403).send({ error: 'Forbidden' });
       }
 
@@ -43,9 +43,7 @@ export async function uploadRoutes(fastify: FastifyInstance) {
       const storagePath = `avatars/${userId}/${timestamp}.${fileExtension}`;
 
       // Create signed upload URL (valid for 5 minutes)
-      const { data, error } = await supabaseAdmin.storage
-        .from('profiles')
-        .createSignedUploadUrl(storagePath);
+      const { data, error } = await fastify.repos.storage.createSignedUploadUrl('profiles', storagePath);
 
       if (error) {
         fastify.log.error({ err: error }, 'Error creating signed URL');
@@ -53,14 +51,12 @@ export async function uploadRoutes(fastify: FastifyInstance) {
       }
 
       // Get public URL for the file
-      const { data: publicUrlData } = supabaseAdmin.storage
-        .from('profiles')
-        .getPublicUrl(storagePath);
+      const publicUrl = fastify.repos.storage.getPublicUrl('profiles', storagePath);
 
       return {
         uploadUrl: data.signedUrl,
         storagePath,
-        publicUrl: publicUrlData.publicUrl,
+        publicUrl,
         token: data.token
       };
     } catch (error) {
@@ -68,4 +64,79 @@ export async function uploadRoutes(fastify: FastifyInstance) {
       return reply.code(500).send({ error: 'Internal server error' });
     }
   });
-}
+
+  // Signed upload URL for an image attachment in a conversation
+  fastify.post('/conversations/:id/attachments/upload-url', {
+    config: { auth: true },
+    schema: {
+      tags: ['upload'],
+      summary: 'Create a signed upload URL for an image to attach to a message',
+      params: ConversationParams,
+      body: AttachmentUploadBody,
+      response: {
+        200: AttachmentUploadResponse,
+        ...errorResponses(400, 401, 403, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id: conversationId } = request.params;
+      const { fileName, contentType } = request.body;
+      const { userId } = request.user;
+
+      if (!ALLOWED_ATTACHMENT_TYPES.includes(contentType)) {
+        return reply.code(400).send({ error: 'Invalid content type' });
+      }
+
+      // Verify user is a participant
+      const { data: participant } = await fastify.repos.conversations.findParticipant(conversationId, userId);
+
+      if (!participant) {
+        return reply.code(403).send({ error: 'Not a participant of this conversation' });
+      }
+
+      const { data: conversation } = await fastify.repos.conversations.findById(conversationId);
+
+      if (conversation?.is_terminated) {
+        return reply.code(400).send({ error: 'Conversation is terminated' });
+      }
+
+      if (conversation?.frozen_at) {
+        return reply.code(403).send({ error: 'Conversation is frozen' });
+      }
+
+      const fileExtension = fileName.split('.').pop();
+      const storagePath = `conversations/${conversationId}/${userId}/${Date.now()}-${randomUUID()}.${fileExtension}`;
+
+      const { data, error } = await fastify.repos.storage.createSignedUploadUrl(ATTACHMENTS_BUCKET, storagePath);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error creating signed URL');
+        return reply.code(500).send({ error: 'Failed to create upload URL' });
+      }
+
+      const { data: attachment, error: attachmentError } = await fastify.repos.attachments.create({
+        conversation_id: conversationId,
+        uploader_id: userId,
+        storage_path: storagePath,
+        content_type: contentType,
+        created_at: new Date().toISOString()
+      });
+
+      if (attachmentError) {
+        fastify.log.error({ err: attachmentError }, 'Error creating attachment');
+        return reply.code(500).send({ error: 'Failed to create upload URL' });
+      }
+
+      return {
+        attachmentId: attachment.id,
+        uploadUrl: data.signedUrl,
+        storagePath,
+        token: data.token
+      };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Attachment upload URL error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+};
@@ -0,0 +1,368 @@
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { toPage, toPageRequest } from '../lib/pagination';
+import { CHECK_IN_MAX_FIX_AGE_MS, checkOut, isAtVenue, venueGeometry } from '../lib/venues';
+import { userChannel } from '../lib/realtime';
+import { VenueRow } from '../repositories/types';
+import { PageQuery, SuccessResponse, errorResponses } from '../schemas/common';
+import { CreateVenueBody, Venue, VenueCheckIn, VenueParams, VenuePeoplePage } from '../schemas/venue';
+
+const toVenue = (v: VenueRow) => ({
+  id: v.id,
+  name: v.name,
+  center: v.latitude !== null && v.longitude !== null ? { latitude: v.latitude, longitude: v.longitude } : null,
+  radius_meters: v.radius_meters,
+  polygon: v.polygon ? v.polygon.map(([longitude, latitude]) => ({ latitude, longitude })) : null,
+  created_at: v.created_at
+});
+
+export const venueRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
+  // Get a venue
+  fastify.get('/venues/:id', {
+    config: { auth: true },
+    schema: {
+      tags: ['venues'],
+      summary: 'Get a venue and its area',
+      params: VenueParams,
+      response: {
+        200: Venue,
+        ...errorResponses(401, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { data: venue, error } = await fastify.repos.venues.findById(request.params.id);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error fetching venue');
+        return reply.code(500).send({ error: 'Failed to fetch venue' });
+      }
+
+      if (!venue) {
+        return reply.code(404).send({ error: 'Venue not found' });
+      }
+
+      return toVenue(venue);
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Get venue error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Check in to a venue
+  fastify.post('/venues/:id/check-in', {
+    config: { auth: true },
+    schema: {
+      tags: ['venues'],
+      summary: 'Check the caller in to a venue their latest location is at',
+      params: VenueParams,
+      response: {
+        200: VenueCheckIn,
+        ...errorResponses(400, 401, 403, 404, 429, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { userId } = request.user;
+
+      const { data: venue, error } = await fastify.repos.venues.findById(request.params.id);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error fetching venue');
+        return reply.code(500).send({ error: 'Failed to check in' });
+      }
+
+      if (!venue) {
+        return reply.code(404).send({ error: 'Venue not found' });
+      }
+
+      const { data: user, error: userError } = await fastify.repos.users.findById(userId);
+
+      if (userError || !user) {
+        fastify.log.error({ err: userError }, 'Error fetching user');
+        return reply.code(500).send({ error: 'Failed to check in' });
+      }
+
+      if (user.location_flagged_until && Date.parse(user.location_flagged_until) > Date.now()) {
+        return reply.code(429).send({
+          error: 'Check-in paused after implausible location updates',
+          details: `Until ${user.location_flagged_until}`
+        });
+      }
+
+      const { data: fix, error: fixError } = await fastify.repos.locations.findLatest(
+        userId,
+        new Date(Date.now() - CHECK_IN_MAX_FIX_AGE_MS).toISOString()
+      );
+
+      if (fixError) {
+        fastify.log.error({ err: fixError }, 'Error fetching location');
+        return reply.code(500).send({ error: 'Failed to check in' });
+      }
+
+      if (!fix) {
+        return reply.code(400).send({ error: 'No recent location; send a location update first' });
+      }
+
+      if (!isAtVenue(venue, {
+        latitude: Number(fix.latitude),
+        longitude: Number(fix.longitude),
+        accuracy: fix.accuracy
+      })) {
+        return reply.code(403).send({ error: 'You are not at this venue' });
+      }
+
+      const { data: existing, error: existingError } = await fastify.repos.venues.findOpenCheckIn(venue.id, userId);
+
+      if (existingError) {
+        fastify.log.error({ err: existingError }, 'Error fetching check-in');
+        return reply.code(500).send({ error: 'Failed to check in' });
+      }
+
+      if (existing) {
+        return reply.code(400).send({ error: 'Already checked in here' });
+      }
+
+      const { data: checkIn, error: checkInError } = await fastify.repos.venues.checkIn(venue.id, userId, 'manual');
+
+      if (checkInError) {
+        fastify.log.error({ err: checkInError }, 'Error checking in');
+        return reply.code(500).send({ error: 'Failed to check in' });
+      }
+
+      fastify.realtime.publish(userChannel(userId), 'venue.checked_in', {
+        venueId: venue.id,
+        source: checkIn.source,
+        checkedInAt: checkIn.checked_in_at
+      });
+
+      return {
+        venue_id: checkIn.venue_id,
+        source: checkIn.source,
+        checked_in_at: checkIn.checked_in_at
+      };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Check in error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Check out of a venue
+  fastify.delete('/venues/:id/check-in', {
+    config: { auth: true },
+    schema: {
+      tags: ['venues'],
+      summary: 'Check the caller out of a venue',
+      params: VenueParams,
+      response: {
+        200: SuccessResponse,
+        ...errorResponses(401, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { data: checkIn, error } = await fastify.repos.venues.findOpenCheckIn(request.params.id, request.user.userId);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error fetching check-in');
+        return reply.code(500).send({ error: 'Failed to check out' });
+      }
+
+      if (!checkIn) {
+        return reply.code(404).send({ error: 'Not checked in here' });
+      }
+
+      const { error: checkOutError } = await checkOut(fastify, [checkIn], 'manual');
+
+      if (checkOutError) {
+        fastify.log.error({ err: checkOutError }, 'Error checking out');
+        return reply.code(500).send({ error: 'Failed to check out' });
+      }
+
+      return { success: true };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Check out error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // List people at a venue
+  fastify.get('/venues/:id/people', {
+    config: { auth: true },
+    schema: {
+      tags: ['venues'],
+      summary: 'List users checked in to a venue right now, latest arrivals first',
+      params: VenueParams,
+      querystring: PageQuery,
+      response: {
+        200: VenuePeoplePage,
+        ...errorResponses(400, 401, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { userId } = request.user;
+
+      const pageRequest = toPageRequest(request.query);
+      if ('error' in pageRequest) {
+        return reply.code(400).send({ error: pageRequest.error });
+      }
+
+      const { data: venue, error: venueError } = await fastify.repos.venues.findById(request.params.id);
+
+      if (venueError) {
+        fastify.log.error({ err: venueError }, 'Error fetching venue');
+        return reply.code(500).send({ error: 'Failed to fetch people' });
+      }
+
+      if (!venue) {
+        return reply.code(404).send({ error: 'Venue not found' });
+      }
+
+      const { page } = pageRequest;
+      const { data, error } = await fastify.repos.venues.listPeople(venue.id, page);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error fetching check-ins');
+        return reply.code(500).send({ error: 'Failed to fetch people' });
+      }
+
+      const { items, nextCursor } = toPage(
+        data,
+        page,
+        c => ({ createdAt: c.checked_in_at, id: c.id }),
+        'desc'
+      );
+
+      const { data: blocked, error: blockError } = await request.blocks.blockedIds(userId);
+
+      if (blockError) {
+        fastify.log.error({ err: blockError }, 'Error checking blocks');
+        return reply.code(500).send({ error: 'Failed to fetch people' });
+      }
+
+      // Blocked users are left out in both directions, like in nearby
+      const visible = items.filter(c => !blocked.has(c.user_id));
+      const userIds = visible.map(c => c.user_id);
+
+      const [usersResult, bansResult] = await Promise.all([
+        fastify.repos.users.findByIds(userIds),
+        fastify.repos.sanctions.listActive(userIds, ['ban'])
+      ]);
+
+      if (usersResult.error || bansResult.error) {
+        fastify.log.error({ err: usersResult.error || bansResult.error }, 'Error fetching users');
+        return reply.code(500).send({ error: 'Failed to fetch people' });
+      }
+
+      const bannedUserIds = new Set(bansResult.data.map(b => b.user_id));
+      const users = new Map(usersResult.data.filter(u => !bannedUserIds.has(u.id)).map(u => [u.id, u]));
+
+      return {
+        people: visible.flatMap(c => {
+          const u = users.get(c.user_id);
+          return u
+            ? [{
+              id: u.id,
+              name: u.name || u.email.split('@')[0],
+              profile_image_url: u.profile_image_url,
+              checked_in_at: c.checked_in_at
+            }]
+            : [];
+        }),
+        nextCursor
+      };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Get venue people error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+};
+
+// Served under /api/admin (see routes/admin)
+export const venueAdminRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
+  // Create a venue
+  fastify.post('/venues', {
+    config: { auth: true },
+    schema: {
+      tags: ['venues'],
+      summary: 'Create a venue from a centre and radius or a polygon',
+      body: CreateVenueBody,
+      response: {
+        200: Venue,
+        ...errorResponses(400, 401, 403, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { name, center, radiusMeters, polygon } = request.body;
+
+      const circle = center && radiusMeters !== undefined ? { center, radiusMeters } : null;
+      const partialCircle = !circle && (center || radiusMeters !== undefined);
+
+      if (partialCircle || !!circle === !!polygon) {
+        return reply.code(400).send({ error: 'Provide either center and radiusMeters, or polygon' });
+      }
+
+      const geometry = venueGeometry(circle ?? { polygon: polygon! });
+
+      if ('error' in geometry) {
+        return reply.code(400).send({ error: geometry.error });
+      }
+
+      const { data: venue, error } = await fastify.repos.venues.create({
+        name,
+        ...geometry,
+        created_by: request.user.userId
+      });
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error creating venue');
+        return reply.code(500).send({ error: 'Failed to create venue' });
+      }
+
+      return toVenue(venue);
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Create venue error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Delete a venue
+  fastify.delete('/venues/:id', {
+    config: { auth: true },
+    schema: {
+      tags: ['venues'],
+      summary: 'Delete a venue and its check-ins',
+      params: VenueParams,
+      response: {
+        200: SuccessResponse,
+        ...errorResponses(401, 403, 404, 500)
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { data: venue, error: findError } = await fastify.repos.venues.findById(request.params.id);
+
+      if (findError) {
+        fastify.log.error({ err: findError }, 'Error fetching venue');
+        return reply.code(500).send({ error: 'Failed to delete venue' });
+      }
+
+      if (!venue) {
+        return reply.code(404).send({ error: 'Venue not found' });
+      }
+
+      const { error } = await fastify.repos.venues.delete(venue.id);
+
+      if (error) {
+        fastify.log.error({ err: error }, 'Error deleting venue');
+        return reply.code(500).send({ error: 'Failed to delete venue' });
+      }
+
+      return { success: true };
+    } catch (error) {
+      fastify.log.error({ err: error }, 'Delete venue error');
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+};
@@ -0,0 +1,41 @@
+import { Static, Type } from '@sinclair/typebox';
+import { Nullable, PresenceStatus, StringEnum, Uuid } from './common';
+
+export const Gender = StringEnum(['masculine', 'feminine', 'non-binary', 'other']);
+
+// The caller's own full profile row
+export const AccountProfile = Type.Object({
+  id: Uuid,
+  email: Type.String(),
+  name: Nullable(Type.String()),
+  bio: Nullable(Type.String()),
+  age: Nullable(Type.Integer()),
+  location: Nullable(Type.String()),
+  gender: Nullable(Type.String()),
+  profile_image_path: Nullable(Type.String()),
+  profile_image_url: Nullable(Type.String()),
+  presence_status: Nullable(PresenceStatus),
+  last_active_at: Nullable(Type.String()),
+  created_at: Type.String(),
+  updated_at: Nullable(Type.String())
+});
+export type AccountProfile = Static<typeof AccountProfile>;
+
+export const DeleteAccountBody = Type.Object({
+  confirmation: Type.Boolean()
+});
+export type DeleteAccountBody = Static<typeof DeleteAccountBody>;
+
+export const DeleteAccountResponse = Type.Object({
+  success: Type.Boolean(),
+  message: Type.String()
+});
+
+export const UpdateProfileBody = Type.Object({
+  name: Type.Optional(Type.String()),
+  bio: Type.Optional(Type.String({ maxLength: 500 })),
+  age: Type.Optional(Nullable(Type.Integer({ minimum: 13, maximum: 120 }))),
+  location: Type.Optional(Type.String()),
+  gender: Type.Optional(Nullable(Gender))
+});
+export type UpdateProfileBody = Static<typeof UpdateProfileBody>;
@@ -0,0 +1,23 @@
+import { Static, Type } from '@sinclair/typebox';
+import { NextCursor, Uuid } from './common';
+
+export const BlockUserBody = Type.Object({
+  blockedUserId: Uuid
+});
+export type BlockUserBody = Static<typeof BlockUserBody>;
+
+export const BlockedUserParams = Type.Object({
+  blockedUserId: Uuid
+});
+export type BlockedUserParams = Static<typeof BlockedUserParams>;
+
+export const BlockedUser = Type.Object({
+  blocked_id: Uuid,
+  created_at: Type.String()
+});
+export type BlockedUser = Static<typeof BlockedUser>;
+
+export const BlockedUserPage = Type.Object({
+  blocks: Type.Array(BlockedUser),
+  nextCursor: NextCursor
+});
@@ -0,0 +1,66 @@
+import { Static, Type } from '@sinclair/typebox';
+import { Nullable } from './common';
+
+export const CleanupRequestBody = Type.Object({
+  secret: Type.Optional(Type.String())
+});
+export type CleanupRequestBody = Static<typeof CleanupRequestBody>;
+
+export const CleanupLocationsBody = Type.Composite([
+  CleanupRequestBody,
+  Type.Object({
+    // Report what would be removed without removing it
+    dryRun: Type.Optional(Type.Boolean())
+  })
+]);
+export type CleanupLocationsBody = Static<typeof CleanupLocationsBody>;
+
+export const CleanupHeaders = Type.Object({
+  'x-cleanup-secret': Type.Optional(Type.String())
+});
+
+export const InactiveUsersResponse = Type.Object({
+  success: Type.Boolean(),
+  updated: Type.Integer(),
+  message: Type.Optional(Type.String()),
+  users: Type.Optional(Type.Array(Type.Object({
+    name: Nullable(Type.String()),
+    email: Type.String()
+  })))
+});
+
+export const CleanupMessagesResponse = Type.Object({
+  success: Type.Boolean(),
+  message: Type.String(),
+  attachmentsDeleted: Type.Integer(),
+  timestamp: Type.String()
+});
+
+export const CleanupLocationsResponse = Type.Object({
+  success: Type.Boolean(),
+  dryRun: Type.Boolean(),
+  // Rows thinned out past the full-resolution window, and rows past retention
+  downsampled: Type.Integer(),
+  deleted: Type.Integer(),
+  policy: Type.Object({
+    fullResolutionHours: Type.Number(),
+    intervalMinutes: Type.Number(),
+    retentionDays: Type.Number()
+  }),
+  timestamp: Type.String()
+});
+
+export const CleanupEncountersResponse = Type.Object({
+  success: Type.Boolean(),
+  // Fixes scanned, and pairs recorded as having crossed paths
+  fixes: Type.Integer(),
+  recorded: Type.Integer(),
+  timestamp: Type.String()
+});
+
+export const CleanupStatusResponse = Type.Object({
+  status: Type.String(),
+  functionExists: Type.Optional(Type.Boolean()),
+  timestamp: Type.Optional(Type.String()),
+  message: Type.Optional(Type.String())
+});
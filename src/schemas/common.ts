@@ -0,0 +1,38 @@
+import { TSchema, Type } from '@sinclair/typebox';
+
+// Plain string enum, so validation errors and the OpenAPI spec list the allowed values
+export const StringEnum = <T extends string[]>(values: [...T]) =>
+  Type.Unsafe<T[number]>({ type: 'string', enum: values });
+
+export const Uuid = Type.String({ format: 'uuid' });
+
+export const Timestamp = Type.String({ format: 'date-time' });
+
+export const Nullable = <T extends TSchema>(schema: T) => Type.Union([schema, Type.Null()]);
+
+// Every error response has an `error` string; validation failures also carry `message`
+export const ErrorResponse = Type.Object({
+  error: Type.String(),
+  message: Type.Optional(Type.String()),
+  details: Type.Optional(Type.String())
+});
+
+export const SuccessResponse = Type.Object({
+  success: Type.Boolean()
+});
+
+export const PresenceStatus = StringEnum(['online', 'offline']);
+
+// Documents the error statuses a route can answer with, all sharing ErrorResponse
+export function errorResponses<Code extends number>(...codes: Code[]) {
+  return Object.fromEntries(codes.map(code => [code, ErrorResponse])) as Record<Code, typeof ErrorResponse>;
+}
+
+// Shared cursor contract for list endpoints (see lib/pagination)
+export const PageQuery = Type.Object({
+  before: Type.Optional(Type.String({ description: 'Cursor: continue towards older items' })),
+  after: Type.Optional(Type.String({ description: 'Cursor: continue towards newer items' })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 50 }))
+});
+
+export const NextCursor = Nullable(Type.String());
@@ -0,0 +1,227 @@
+import { Static, Type } from '@sinclair/typebox';
+import { NextCursor, Nullable, StringEnum, Uuid } from './common';
+import { ShareDuration } from './location';
+import { PublicProfile } from './profile';
+
+export const ConversationParams = Type.Object({
+  id: Uuid
+});
+export type ConversationParams = Static<typeof ConversationParams>;
+
+export const CreateConversationBody = Type.Object({
+  participantIds: Type.Array(Uuid, { minItems: 1 }),
+  // Groups only (more than one other participant)
+  title: Type.Optional(Type.String({ minLength: 1, maxLength: 100 }))
+});
+export type CreateConversationBody = Static<typeof CreateConversationBody>;
+
+// A message needs a body, attachments, or both
+export const SendMessageBody = Type.Object({
+  body: Type.Optional(Type.String({ maxLength: 4000 })),
+  attachmentIds: Type.Optional(Type.Array(Uuid, { minItems: 1, maxItems: 4 }))
+});
+export type SendMessageBody = Static<typeof SendMessageBody>;
+
+export const Conversation = Type.Object({
+  id: Uuid,
+  is_terminated: Type.Boolean(),
+  is_group: Type.Boolean(),
+  title: Nullable(Type.String()),
+  avatar_url: Nullable(Type.String()),
+  request_status: StringEnum(['pending', 'accepted']),
+  requested_by: Nullable(Uuid),
+  // Disappearing-message timer in seconds; null when off
+  message_ttl_seconds: Nullable(Type.Integer()),
+  // Read-only while a block separates the two people of a one-to-one conversation
+  frozen_at: Nullable(Type.String()),
+  created_at: Type.String(),
+  last_activity_at: Type.String()
+});
+export type Conversation = Static<typeof Conversation>;
+
+export const ParticipantRole = StringEnum(['owner', 'admin', 'member']);
+
+export const UpdateConversationBody = Type.Object({
+  title: Type.Optional(Nullable(Type.String({ minLength: 1, maxLength: 100 }))),
+  avatarUrl: Type.Optional(Nullable(Type.String({ minLength: 1 })))
+}, { minProperties: 1 });
+export type UpdateConversationBody = Static<typeof UpdateConversationBody>;
+
+export const AddParticipantsBody = Type.Object({
+  userIds: Type.Array(Uuid, { minItems: 1, maxItems: 50 })
+});
+export type AddParticipantsBody = Static<typeof AddParticipantsBody>;
+
+export const ParticipantParams = Type.Object({
+  id: Uuid,
+  userId: Uuid
+});
+export type ParticipantParams = Static<typeof ParticipantParams>;
+
+// Assigning `owner` hands ownership over; the previous owner becomes an admin
+export const SetRoleBody = Type.Object({
+  role: ParticipantRole
+});
+export type SetRoleBody = Static<typeof SetRoleBody>;
+
+export const Participant = Type.Object({
+  user_id: Uuid,
+  role: ParticipantRole,
+  joined_at: Type.String()
+});
+export type Participant = Static<typeof Participant>;
+
+export const ParticipantList = Type.Object({
+  participants: Type.Array(Participant)
+});
+
+export const CreateConversationResponse = Type.Object({
+  conversationId: Uuid,
+  conversation: Conversation
+});
+
+export const SendMessageResponse = Type.Object({
+  messageId: Uuid
+});
+
+export const Reaction = Type.Object({
+  user_id: Uuid,
+  emoji: Type.String()
+});
+export type Reaction = Static<typeof Reaction>;
+
+// Download URLs are signed and expire; list the messages again for fresh ones
+export const Attachment = Type.Object({
+  id: Uuid,
+  content_type: Type.String(),
+  url: Type.String(),
+  expires_at: Type.String()
+});
+export type Attachment = Static<typeof Attachment>;
+
+export const Message = Type.Object({
+  id: Uuid,
+  sender_id: Uuid,
+  body: Type.String(),
+  kind: StringEnum(['user', 'system']),
+  created_at: Type.String(),
+  edited_at: Nullable(Type.String()),
+  expires_at: Nullable(Type.String()),
+  // Other participants whose read position is at or past this message
+  read_by: Type.Array(Uuid),
+  reactions: Type.Array(Reaction),
+  attachments: Type.Array(Attachment)
+});
+export type Message = Static<typeof Message>;
+
+export const MessageParams = Type.Object({
+  id: Uuid,
+  messageId: Uuid
+});
+export type MessageParams = Static<typeof MessageParams>;
+
+export const EditMessageBody = Type.Object({
+  body: Type.String({ minLength: 1, maxLength: 4000 })
+});
+export type EditMessageBody = Static<typeof EditMessageBody>;
+
+export const EditMessageResponse = Type.Object({
+  messageId: Uuid,
+  body: Type.String(),
+  edited_at: Type.String()
+});
+
+export const ReactionBody = Type.Object({
+  emoji: Type.String({ minLength: 1, maxLength: 16 })
+});
+export type ReactionBody = Static<typeof ReactionBody>;
+
+// Inbox preview of the newest message; body is cut to a short snippet
+export const MessagePreview = Type.Object({
+  id: Uuid,
+  sender_id: Uuid,
+  body: Type.String(),
+  created_at: Type.String()
+});
+export type MessagePreview = Static<typeof MessagePreview>;
+
+export const ConversationListItem = Type.Object({
+  conversation_id: Uuid,
+  conversations: Conversation,
+  // Other participants, without anyone blocked in either direction
+  participants: Type.Array(PublicProfile),
+  last_message: Nullable(MessagePreview),
+  unread_count: Type.Integer()
+});
+export type ConversationListItem = Static<typeof ConversationListItem>;
+
+export const MessagePage = Type.Object({
+  messages: Type.Array(Message),
+  nextCursor: NextCursor
+});
+
+export const ConversationPage = Type.Object({
+  conversations: Type.Array(ConversationListItem),
+  nextCursor: NextCursor
+});
+export type ConversationPage = Static<typeof ConversationPage>;
+
+export const DeclineRequestBody = Type.Object({
+  // Also block the sender
+  block: Type.Optional(Type.Boolean())
+});
+export type DeclineRequestBody = Static<typeof DeclineRequestBody>;
+
+export const MarkReadBody = Type.Object({
+  // Defaults to the latest message of the conversation
+  messageId: Type.Optional(Uuid)
+});
+export type MarkReadBody = Static<typeof MarkReadBody>;
+
+export const MarkReadResponse = Type.Object({
+  success: Type.Boolean(),
+  lastReadMessageId: Nullable(Uuid),
+  lastReadAt: Nullable(Type.String())
+});
+
+export const DisappearingTimer = StringEnum(['off', '1h', '24h', '7d']);
+
+export const SetDisappearingBody = Type.Object({
+  timer: DisappearingTimer
+});
+export type SetDisappearingBody = Static<typeof SetDisappearingBody>;
+
+// messageId is the system message recording the change; null when nothing changed
+export const SetDisappearingResponse = Type.Object({
+  messageTtlSeconds: Nullable(Type.Integer()),
+  messageId: Nullable(Uuid)
+});
+
+export const StartLiveLocationBody = Type.Object({
+  duration: ShareDuration
+});
+export type StartLiveLocationBody = Static<typeof StartLiveLocationBody>;
+
+export const LiveLocationSession = Type.Object({
+  user_id: Uuid,
+  started_at: Type.String(),
+  expires_at: Type.String()
+});
+
+// Exact coordinates: sharing live with a conversation is meant for meeting up
+export const LiveLocationFix = Type.Object({
+  latitude: Type.Number(),
+  longitude: Type.Number(),
+  accuracy: Nullable(Type.Number()),
+  recorded_at: Type.String()
+});
+
+export const LiveLocationList = Type.Object({
+  sessions: Type.Array(Type.Composite([
+    LiveLocationSession,
+    Type.Object({
+      // Null until the sharer sends a fix
+      location: Nullable(LiveLocationFix)
+    })
+  ]))
+});
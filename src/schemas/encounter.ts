@@ -0,0 +1,25 @@
+import { Static, Type } from '@sinclair/typebox';
+import { NextCursor, Nullable, Uuid } from './common';
+
+export const Encounter = Type.Object({
+  user: Type.Object({
+    id: Uuid,
+    name: Type.String(),
+    profile_image_url: Nullable(Type.String())
+  }),
+  times_crossed: Type.Integer(),
+  // Rounded to 15 minutes
+  first_crossed_at: Type.String(),
+  last_crossed_at: Type.String(),
+  // Centre of a cell of about 2 km where paths last crossed; never the exact position
+  place: Type.Object({
+    latitude: Type.Number(),
+    longitude: Type.Number()
+  })
+});
+export type Encounter = Static<typeof Encounter>;
+
+export const EncounterPage = Type.Object({
+  encounters: Type.Array(Encounter),
+  nextCursor: NextCursor
+});
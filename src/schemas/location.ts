@@ -0,0 +1,132 @@
+import { Static, Type } from '@sinclair/typebox';
+import { Nullable, StringEnum, Timestamp, Uuid } from './common';
+
+export const Latitude = Type.Number({ minimum: -90, maximum: 90 });
+
+export const Longitude = Type.Number({ minimum: -180, maximum: 180 });
+
+// Coordinates are not bounded here: out-of-range fixes must reach checkFixes, which drops them
+// and flags the sender, instead of failing the whole batch
+export const LocationData = Type.Object({
+  latitude: Type.Number(),
+  longitude: Type.Number(),
+  accuracy: Type.Optional(Type.Number()),
+  speed: Type.Optional(Type.Number()),
+  heading: Type.Optional(Type.Number()),
+  recordedAt: Timestamp
+});
+export type LocationData = Static<typeof LocationData>;
+
+export const LocationBatchBody = Type.Object({
+  userId: Uuid,
+  locations: Type.Array(LocationData, { minItems: 1, maxItems: 500 })
+});
+export type LocationBatchBody = Static<typeof LocationBatchBody>;
+
+export const LocationBatchResponse = Type.Object({
+  success: Type.Boolean(),
+  inserted: Type.Integer(),
+  // Implausible fixes (out of range, in the future, or an impossible jump) that were dropped
+  rejected: Type.Integer(),
+  // Venues the latest fix checked the caller in to or out of
+  venues: Type.Object({
+    checkedIn: Type.Array(Uuid),
+    checkedOut: Type.Array(Uuid)
+  })
+});
+
+export const LocationPrecision = StringEnum(['precise', 'approximate', 'coarse']);
+
+// Other users get coordinates snapped to `precision` with per-viewer jitter; only the owner gets exact ones
+export const LatestLocation = Type.Object({
+  latitude: Type.Number(),
+  longitude: Type.Number(),
+  precision: LocationPrecision,
+  recorded_at: Type.String()
+});
+export type LatestLocation = Static<typeof LatestLocation>;
+
+// Who sees the caller's location without a share: `nobody` (default), partners in an accepted
+// one-to-one conversation, or anyone within 5 km
+export const LocationVisibility = StringEnum(['nobody', 'conversations', 'nearby']);
+
+// `precise` snaps to about 110 m, `approximate` (default) to about 550 m, `coarse` to about 2 km
+export const LocationSettings = Type.Object({
+  precision: LocationPrecision,
+  visibility: LocationVisibility,
+  // Whether crossed paths with other users are recorded
+  encounters: Type.Boolean(),
+  // Whether location updates check the caller in to venues they are at
+  autoCheckIn: Type.Boolean()
+});
+export type LocationSettings = Static<typeof LocationSettings>;
+
+export const UpdateLocationSettingsBody = Type.Partial(LocationSettings, { minProperties: 1 });
+export type UpdateLocationSettingsBody = Static<typeof UpdateLocationSettingsBody>;
+
+export const ShareDuration = StringEnum(['15m', '30m', '1h', '8h', '24h']);
+
+// Exactly one of `userId` and `conversationId`
+export const CreateLocationShareBody = Type.Object({
+  userId: Type.Optional(Uuid),
+  conversationId: Type.Optional(Uuid),
+  duration: ShareDuration
+});
+export type CreateLocationShareBody = Static<typeof CreateLocationShareBody>;
+
+export const LocationShareParams = Type.Object({
+  id: Uuid
+});
+export type LocationShareParams = Static<typeof LocationShareParams>;
+
+export const LocationShare = Type.Object({
+  id: Uuid,
+  grantee_id: Nullable(Uuid),
+  conversation_id: Nullable(Uuid),
+  expires_at: Type.String(),
+  created_at: Type.String(),
+  revoked_at: Nullable(Type.String())
+});
+
+export const LocationShareList = Type.Object({
+  shares: Type.Array(LocationShare)
+});
+
+// Own history only; `to` defaults to now and the range may span at most 7 days
+export const LocationHistoryQuery = Type.Object({
+  from: Timestamp,
+  to: Type.Optional(Timestamp),
+  // Douglas–Peucker keeps the shape within `tolerance` metres; time-bucket keeps one fix per `bucket` seconds
+  simplify: Type.Optional(StringEnum(['none', 'douglas-peucker', 'time-bucket'])),
+  tolerance: Type.Optional(Type.Number({ minimum: 1, maximum: 1000, default: 10 })),
+  bucket: Type.Optional(Type.Integer({ minimum: 10, maximum: 3600, default: 60 })),
+  format: Type.Optional(StringEnum(['json', 'geojson', 'gpx'])),
+  // GeoJSON shape: one LineString feature (a Point for a single fix), or a FeatureCollection of points
+  geometry: Type.Optional(StringEnum(['line', 'points']))
+});
+export type LocationHistoryQuery = Static<typeof LocationHistoryQuery>;
+
+export const HistoryFix = Type.Object({
+  latitude: Type.Number(),
+  longitude: Type.Number(),
+  accuracy: Nullable(Type.Number()),
+  speed: Nullable(Type.Number()),
+  heading: Nullable(Type.Number()),
+  recorded_at: Type.String()
+});
+
+export const LocationHistory = Type.Object({
+  fixes: Type.Array(HistoryFix)
+});
+
+// GeoJSON Feature or FeatureCollection, passed through as built (see lib/tracks)
+export const GeoJsonTrack = Type.Object({
+  type: StringEnum(['Feature', 'FeatureCollection'])
+}, { additionalProperties: true });
+
+// Shape depends on `format`
+export const LocationHistoryResponse = Type.Union([
+  LocationHistory,
+  GeoJsonTrack,
+  Type.String({ description: 'GPX 1.1 document' })
+]);
@@ -0,0 +1,37 @@
+import { Static, Type } from '@sinclair/typebox';
+import { NextCursor, Nullable, StringEnum, Uuid } from './common';
+import { Gender } from './account';
+
+export const NearbySort = StringEnum(['distance', 'blended']);
+
+// The centre is the caller's own latest stored fix, never a client-supplied point. Users
+// without an age or gender never match a filter on it.
+export const NearbyQuery = Type.Object({
+  radius: Type.Number({ minimum: 0, maximum: 5 }),
+  minAge: Type.Optional(Type.Integer({ minimum: 13, maximum: 120 })),
+  maxAge: Type.Optional(Type.Integer({ minimum: 13, maximum: 120 })),
+  gender: Type.Optional(Type.Array(Gender, { minItems: 1, maxItems: 4 })),
+  hasPhoto: Type.Optional(Type.Boolean()),
+  // `distance` (default) ranks the closest first; `blended` also favours recent activity
+  sort: Type.Optional(NearbySort),
+  // Also include users active within this many minutes instead of only those online now
+  activeWithin: Type.Optional(Type.Integer({ minimum: 1, maximum: 60 })),
+  cursor: Type.Optional(Type.String({ description: 'Cursor: continue after the previous page' })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 50 }))
+});
+export type NearbyQuery = Static<typeof NearbyQuery>;
+
+export const NearbyUser = Type.Object({
+  id: Uuid,
+  name: Type.String(),
+  profile_image_url: Nullable(Type.String()),
+  // A bucket such as "< 100 m", "< 500 m" or "~2 km"; exact distances are never returned
+  distance: Type.String()
+});
+export type NearbyUser = Static<typeof NearbyUser>;
+
+// No total is returned, so users hidden by filters, blocks or bans cannot be counted
+export const NearbyResponse = Type.Object({
+  users: Type.Array(NearbyUser),
+  nextCursor: NextCursor
+});
@@ -0,0 +1,18 @@
+import { Static, Type } from '@sinclair/typebox';
+import { PresenceStatus, Uuid } from './common';
+
+export const HeartbeatBody = Type.Object({
+  userId: Uuid,
+  presenceStatus: Type.Optional(PresenceStatus)
+});
+export type HeartbeatBody = Static<typeof HeartbeatBody>;
+
+export const StatusBody = Type.Object({
+  status: PresenceStatus
+});
+export type StatusBody = Static<typeof StatusBody>;
+
+export const StatusResponse = Type.Object({
+  success: Type.Boolean(),
+  status: PresenceStatus
+});
@@ -0,0 +1,24 @@
+import { Static, Type } from '@sinclair/typebox';
+import { Nullable, PresenceStatus, Uuid } from './common';
+
+export const ProfileConfirmBody = Type.Object({
+  userId: Uuid,
+  storagePath: Type.String({ minLength: 1 }),
+  publicUrl: Type.String({ minLength: 1 })
+});
+export type ProfileConfirmBody = Static<typeof ProfileConfirmBody>;
+
+export const UserIdParams = Type.Object({
+  userId: Uuid
+});
+export type UserIdParams = Static<typeof UserIdParams>;
+
+// Fields of another user that any non-blocked user may see
+export const PublicProfile = Type.Object({
+  id: Uuid,
+  name: Nullable(Type.String()),
+  profile_image_url: Nullable(Type.String()),
+  presence_status: Nullable(PresenceStatus),
+  last_active_at: Nullable(Type.String())
+});
+export type PublicProfile = Static<typeof PublicProfile>;
@@ -0,0 +1,15 @@
+import { Static, Type } from '@sinclair/typebox';
+
+export const RealtimeQuery = Type.Object({
+  // Browsers cannot set headers on a WebSocket handshake
+  access_token: Type.Optional(Type.String())
+});
+
+// Channels: user:<id> (own, joined automatically, also carries conversation events), nearby:<id>
+// (own), presence:<userId>
+export const ClientMessage = Type.Union([
+  Type.Object({ type: Type.Literal('subscribe'), channel: Type.String() }),
+  Type.Object({ type: Type.Literal('unsubscribe'), channel: Type.String() }),
+  Type.Object({ type: Type.Literal('ping') })
+]);
+export type ClientMessage = Static<typeof ClientMessage>;
@@ -0,0 +1,120 @@
+import { Static, Type } from '@sinclair/typebox';
+import { NextCursor, Nullable, PageQuery, StringEnum, Timestamp, Uuid } from './common';
+
+export const ReportCategory = StringEnum(['harassment', 'fake_profile', 'spam', 'inappropriate_content', 'other']);
+
+export const ReportStatus = StringEnum(['open', 'reviewing', 'resolved', 'dismissed']);
+
+export const SanctionKind = StringEnum(['warn', 'suspend', 'ban']);
+
+// Reported messages must belong to the referenced conversation
+export const CreateReportBody = Type.Object({
+  reportedUserId: Uuid,
+  category: ReportCategory,
+  details: Type.Optional(Type.String({ maxLength: 2000 })),
+  conversationId: Type.Optional(Uuid),
+  messageIds: Type.Optional(Type.Array(Uuid, { minItems: 1, maxItems: 20 })),
+  // Also block the reported user
+  block: Type.Optional(Type.Boolean())
+});
+export type CreateReportBody = Static<typeof CreateReportBody>;
+
+export const CreateReportResponse = Type.Object({
+  reportId: Uuid
+});
+
+export const ReportParams = Type.Object({
+  id: Uuid
+});
+export type ReportParams = Static<typeof ReportParams>;
+
+export const Report = Type.Object({
+  id: Uuid,
+  reporter_id: Nullable(Uuid),
+  reported_user_id: Uuid,
+  category: ReportCategory,
+  details: Nullable(Type.String()),
+  conversation_id: Nullable(Uuid),
+  status: ReportStatus,
+  action: Nullable(SanctionKind),
+  resolution_note: Nullable(Type.String()),
+  resolved_by: Nullable(Uuid),
+  resolved_at: Nullable(Type.String()),
+  created_at: Type.String()
+});
+export type Report = Static<typeof Report>;
+
+// Copy of a message as it was when the report was filed
+export const ReportedMessage = Type.Object({
+  message_id: Uuid,
+  sender_id: Nullable(Uuid),
+  body: Type.String(),
+  sent_at: Type.String()
+});
+
+export const Sanction = Type.Object({
+  id: Uuid,
+  kind: SanctionKind,
+  reason: Type.String(),
+  expires_at: Nullable(Type.String()),
+  report_id: Nullable(Uuid),
+  created_by: Nullable(Uuid),
+  created_at: Type.String(),
+  revoked_at: Nullable(Type.String())
+});
+
+export const SanctionList = Type.Object({
+  sanctions: Type.Array(Sanction)
+});
+
+export const SanctionParams = Type.Object({
+  id: Uuid
+});
+export type SanctionParams = Static<typeof SanctionParams>;
+
+// `reason` is shown to the user
+export const CreateSanctionBody = Type.Object({
+  kind: SanctionKind,
+  reason: Type.String({ minLength: 1, maxLength: 500 }),
+  // Required for suspensions; bans without one are permanent
+  expiresAt: Type.Optional(Timestamp)
+});
+export type CreateSanctionBody = Static<typeof CreateSanctionBody>;
+
+// Defaults to the open queue (`open` and `reviewing`)
+export const ReportListQuery = Type.Composite([
+  PageQuery,
+  Type.Object({
+    status: Type.Optional(ReportStatus)
+  })
+]);
+export type ReportListQuery = Static<typeof ReportListQuery>;
+
+export const ReportPage = Type.Object({
+  reports: Type.Array(Report),
+  nextCursor: NextCursor
+});
+
+// Everything a moderator needs to decide: the snapshots and the user's history
+export const ReportDetail = Type.Object({
+  report: Report,
+  messages: Type.Array(ReportedMessage),
+  sanctions: Type.Array(Sanction),
+  reportsAgainstUser: Type.Integer()
+});
+
+export const TriageReportBody = Type.Object({
+  status: StringEnum(['open', 'reviewing', 'dismissed']),
+  note: Type.Optional(Type.String({ maxLength: 2000 }))
+});
+export type TriageReportBody = Static<typeof TriageReportBody>;
+
+// `reason` is shown to the sanctioned user; `note` stays internal
+export const ResolveReportBody = Type.Object({
+  action: Nullable(SanctionKind),
+  reason: Type.Optional(Type.String({ minLength: 1, maxLength: 500 })),
+  // Suspensions must end; bans are permanent unless given an end
+  expiresAt: Type.Optional(Timestamp),
+  note: Type.Optional(Type.String({ maxLength: 2000 }))
+});
+export type ResolveReportBody = Static<typeof ResolveReportBody>;
@@ -0,0 +1,32 @@
+import { Static, Type } from '@sinclair/typebox';
+import { Uuid } from './common';
+
+export const UploadUrlBody = Type.Object({
+  userId: Uuid,
+  fileName: Type.String({ minLength: 1 }),
+  contentType: Type.String()
+});
+export type UploadUrlBody = Static<typeof UploadUrlBody>;
+
+export const UploadUrlResponse = Type.Object({
+  uploadUrl: Type.String(),
+  storagePath: Type.String(),
+  publicUrl: Type.String(),
+  token: Type.String()
+});
+export type UploadUrlResponse = Static<typeof UploadUrlResponse>;
+
+export const AttachmentUploadBody = Type.Object({
+  fileName: Type.String({ minLength: 1 }),
+  contentType: Type.String()
+});
+export type AttachmentUploadBody = Static<typeof AttachmentUploadBody>;
+
+// Pass attachmentId when sending the message; the object itself is private
+export const AttachmentUploadResponse = Type.Object({
+  attachmentId: Uuid,
+  uploadUrl: Type.String(),
+  storagePath: Type.String(),
+  token: Type.String()
+});
+export type AttachmentUploadResponse = Static<typeof AttachmentUploadResponse>;
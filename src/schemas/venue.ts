@@ -0,0 +1,52 @@
+import { Static, Type } from '@sinclair/typebox';
+import { NextCursor, Nullable, StringEnum, Uuid } from './common';
+import { Latitude, Longitude } from './location';
+
+export const VenuePoint = Type.Object({
+  latitude: Latitude,
+  longitude: Longitude
+});
+
+// Either `center` with `radiusMeters`, or a `polygon` ring (closing point optional)
+export const CreateVenueBody = Type.Object({
+  name: Type.String({ minLength: 1, maxLength: 100 }),
+  center: Type.Optional(VenuePoint),
+  radiusMeters: Type.Optional(Type.Number({ minimum: 10, maximum: 5000 })),
+  polygon: Type.Optional(Type.Array(VenuePoint, { minItems: 3, maxItems: 100 }))
+});
+export type CreateVenueBody = Static<typeof CreateVenueBody>;
+
+export const VenueParams = Type.Object({
+  id: Uuid
+});
+export type VenueParams = Static<typeof VenueParams>;
+
+export const Venue = Type.Object({
+  id: Uuid,
+  name: Type.String(),
+  center: Nullable(VenuePoint),
+  radius_meters: Nullable(Type.Number()),
+  polygon: Nullable(Type.Array(VenuePoint)),
+  created_at: Type.String()
+});
+export type Venue = Static<typeof Venue>;
+
+export const VenueCheckInSource = StringEnum(['auto', 'manual']);
+
+export const VenueCheckIn = Type.Object({
+  venue_id: Uuid,
+  source: VenueCheckInSource,
+  checked_in_at: Type.String()
+});
+
+export const VenuePerson = Type.Object({
+  id: Uuid,
+  name: Type.String(),
+  profile_image_url: Nullable(Type.String()),
+  checked_in_at: Type.String()
+});
+
+export const VenuePeoplePage = Type.Object({
+  people: Type.Array(VenuePerson),
+  nextCursor: NextCursor
+});
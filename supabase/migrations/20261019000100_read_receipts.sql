@@ -0,0 +1,27 @@
+-- Read receipts: each participant's read position in a conversation
+alter table public.conversation_participants
+  add column if not exists last_read_message_id uuid references public.messages(id) on delete set null,
+  add column if not exists last_read_at timestamptz;
+
+comment on column public.conversation_participants.last_read_at is
+  'created_at of the last read message; kept when that message is deleted';
+
+create index if not exists messages_conversation_created_at_idx
+  on public.messages (conversation_id, created_at);
+
+-- Unread messages (sent by others, after the read position) per conversation
+create or replace function public.count_unread_messages(p_user_id uuid, p_conversation_ids uuid[])
+returns table (conversation_id uuid, unread_count bigint)
+language sql
+stable
+as $$
+  select cp.conversation_id, count(m.id)
+  from public.conversation_participants cp
+  left join public.messages m
+    on m.conversation_id = cp.conversation_id
+   and m.sender_id <> p_user_id
+   and (cp.last_read_at is null or m.created_at > cp.last_read_at)
+  where cp.user_id = p_user_id
+    and cp.conversation_id = any(p_conversation_ids)
+  group by cp.conversation_id;
+$$;
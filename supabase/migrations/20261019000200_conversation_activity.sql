@@ -0,0 +1,41 @@
+-- Conversation lists are ordered by latest activity: creation or the newest message
+alter table public.conversations
+  add column if not exists last_activity_at timestamptz not null default now();
+
+update public.conversations c
+set last_activity_at = coalesce(
+  (select max(m.created_at) from public.messages m where m.conversation_id = c.id),
+  c.created_at
+);
+
+create index if not exists conversations_last_activity_idx
+  on public.conversations (last_activity_at, id);
+
+create or replace function public.touch_conversation_activity()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.conversations
+  set last_activity_at = greatest(last_activity_at, new.created_at)
+  where id = new.conversation_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_touch_conversation on public.messages;
+create trigger messages_touch_conversation
+  after insert on public.messages
+  for each row execute function public.touch_conversation_activity();
+
+-- Newest message of each given conversation
+create or replace function public.latest_messages(p_conversation_ids uuid[])
+returns setof public.messages
+language sql
+stable
+as $$
+  select distinct on (m.conversation_id) m.*
+  from public.messages m
+  where m.conversation_id = any(p_conversation_ids)
+  order by m.conversation_id, m.created_at desc, m.id desc;
+$$;
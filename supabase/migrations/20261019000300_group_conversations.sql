@@ -0,0 +1,25 @@
+-- Group conversations: title, avatar and participant roles
+alter table public.conversations
+  add column if not exists is_group boolean not null default false,
+  add column if not exists title text,
+  add column if not exists avatar_url text;
+
+alter table public.conversation_participants
+  add column if not exists role text not null default 'member'
+    check (role in ('owner', 'admin', 'member'));
+
+update public.conversations c
+set is_group = true
+where (select count(*) from public.conversation_participants cp where cp.conversation_id = c.id) > 2;
+
+-- Existing groups have no recorded creator: the first participant by user id becomes owner
+update public.conversation_participants cp
+set role = 'owner'
+from public.conversations c
+where c.id = cp.conversation_id
+  and c.is_group
+  and cp.user_id = (
+    select min(other.user_id::text)::uuid
+    from public.conversation_participants other
+    where other.conversation_id = cp.conversation_id
+  );
@@ -0,0 +1,9 @@
+-- Message requests: first contact lands as pending until the recipient accepts
+alter table public.conversations
+  add column if not exists request_status text not null default 'accepted'
+    check (request_status in ('pending', 'accepted')),
+  add column if not exists requested_by uuid references public.users(id) on delete set null;
+
+create index if not exists conversations_pending_requests_idx
+  on public.conversations (request_status)
+  where request_status = 'pending';
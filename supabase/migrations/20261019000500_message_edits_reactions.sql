@@ -0,0 +1,11 @@
+-- Message edits and per-user emoji reactions
+alter table public.messages
+  add column if not exists edited_at timestamptz;
+
+create table if not exists public.message_reactions (
+  message_id uuid not null references public.messages(id) on delete cascade,
+  user_id uuid not null references public.users(id) on delete cascade,
+  emoji text not null,
+  created_at timestamptz not null default now(),
+  primary key (message_id, user_id)
+);
@@ -0,0 +1,21 @@
+-- Image attachments: the record is created with the upload URL and linked to a message on send.
+-- Objects live in the private `attachments` bucket and are only served through signed URLs.
+insert into storage.buckets (id, name, public)
+values ('attachments', 'attachments', false)
+on conflict (id) do nothing;
+
+create table if not exists public.attachments (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references public.conversations(id) on delete cascade,
+  -- Kept as null when the account goes, so the cleanup job still finds the object
+  uploader_id uuid references public.users(id) on delete set null,
+  -- Null until sent, and again once the message is deleted; the cleanup job removes those
+  message_id uuid references public.messages(id) on delete set null,
+  storage_path text not null unique,
+  content_type text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists attachments_message_idx on public.attachments (message_id);
+create index if not exists attachments_conversation_idx on public.attachments (conversation_id);
+create index if not exists attachments_orphaned_idx on public.attachments (created_at) where message_id is null;
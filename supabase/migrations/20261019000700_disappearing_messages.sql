@@ -0,0 +1,57 @@
+-- Disappearing messages: each conversation has its own timer (null = off), stamped on every
+-- message as expires_at when it is sent. Replaces the global retention of delete_old_messages.
+alter table public.conversations
+  add column if not exists message_ttl_seconds integer default 86400
+    check (message_ttl_seconds in (3600, 86400, 604800));
+
+alter table public.messages
+  add column if not exists kind text not null default 'user' check (kind in ('user', 'system')),
+  add column if not exists expires_at timestamptz;
+
+-- Existing conversations keep the previous 24 hour retention
+update public.messages
+set expires_at = created_at + interval '24 hours'
+where expires_at is null;
+
+create index if not exists messages_expires_at_idx
+  on public.messages (expires_at)
+  where expires_at is not null;
+
+create or replace function public.delete_old_messages()
+returns void
+language sql
+as $$
+  delete from public.messages where expires_at <= now();
+$$;
+
+-- Expired messages are hidden before the purge runs
+create or replace function public.latest_messages(p_conversation_ids uuid[])
+returns setof public.messages
+language sql
+stable
+as $$
+  select distinct on (m.conversation_id) m.*
+  from public.messages m
+  where m.conversation_id = any(p_conversation_ids)
+    and (m.expires_at is null or m.expires_at > now())
+  order by m.conversation_id, m.created_at desc, m.id desc;
+$$;
+
+-- System messages (such as timer changes) do not count as unread
+create or replace function public.count_unread_messages(p_user_id uuid, p_conversation_ids uuid[])
+returns table (conversation_id uuid, unread_count bigint)
+language sql
+stable
+as $$
+  select cp.conversation_id, count(m.id)
+  from public.conversation_participants cp
+  left join public.messages m
+    on m.conversation_id = cp.conversation_id
+   and m.sender_id <> p_user_id
+   and m.kind = 'user'
+   and (m.expires_at is null or m.expires_at > now())
+   and (cp.last_read_at is null or m.created_at > cp.last_read_at)
+  where cp.user_id = p_user_id
+    and cp.conversation_id = any(p_conversation_ids)
+  group by cp.conversation_id;
+$$;
@@ -0,0 +1,18 @@
+-- One-to-one conversations become read-only while either person blocks the other
+alter table public.conversations
+  add column if not exists frozen_at timestamptz;
+
+-- Freeze conversations of people who already block each other
+update public.conversations c
+set frozen_at = now()
+where not c.is_group
+  and not c.is_terminated
+  and exists (
+    select 1
+    from public.conversation_participants a
+    join public.conversation_participants b
+      on b.conversation_id = a.conversation_id and b.user_id <> a.user_id
+    join public.blocks bl
+      on bl.blocker_id = a.user_id and bl.blocked_id = b.user_id
+    where a.conversation_id = c.id
+  );
@@ -0,0 +1,46 @@
+-- User reports and the moderation queue. Reported messages are copied into report_messages
+-- when the report is filed, so termination or the disappearing-message purge cannot erase them.
+create table if not exists public.reports (
+  id uuid primary key default gen_random_uuid(),
+  -- Null once the reporter's account is deleted; the report stays in the queue
+  reporter_id uuid references public.users(id) on delete set null,
+  reported_user_id uuid not null references public.users(id) on delete cascade,
+  category text not null
+    check (category in ('harassment', 'fake_profile', 'spam', 'inappropriate_content', 'other')),
+  details text,
+  conversation_id uuid references public.conversations(id) on delete set null,
+  status text not null default 'open'
+    check (status in ('open', 'reviewing', 'resolved', 'dismissed')),
+  action text check (action in ('warn', 'suspend', 'ban')),
+  resolution_note text,
+  resolved_by uuid references public.users(id) on delete set null,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists reports_status_idx on public.reports (status, created_at, id);
+create index if not exists reports_reported_user_idx on public.reports (reported_user_id);
+
+-- No foreign key to messages: the snapshot must outlive the message
+create table if not exists public.report_messages (
+  report_id uuid not null references public.reports(id) on delete cascade,
+  message_id uuid not null,
+  sender_id uuid references public.users(id) on delete set null,
+  body text not null,
+  sent_at timestamptz not null,
+  primary key (report_id, message_id)
+);
+
+-- Moderation actions taken against a user; suspensions and bans may expire
+create table if not exists public.user_sanctions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  kind text not null check (kind in ('warn', 'suspend', 'ban')),
+  reason text not null,
+  expires_at timestamptz,
+  report_id uuid references public.reports(id) on delete set null,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists user_sanctions_user_idx on public.user_sanctions (user_id, created_at);
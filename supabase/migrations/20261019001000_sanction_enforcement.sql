@@ -0,0 +1,9 @@
+-- Suspensions and bans can be lifted before they expire
+alter table public.user_sanctions
+  add column if not exists revoked_at timestamptz,
+  add column if not exists revoked_by uuid references public.users(id) on delete set null;
+
+-- Every authenticated request looks up the caller's restrictions
+create index if not exists user_sanctions_active_idx
+  on public.user_sanctions (user_id)
+  where revoked_at is null and kind in ('suspend', 'ban');
@@ -0,0 +1,5 @@
+-- Users whose location updates looked spoofed are left out of nearby until the flag lapses
+alter table public.users
+  add column if not exists location_flagged_until timestamptz,
+  add column if not exists location_flag_reason text
+    check (location_flag_reason in ('out_of_range', 'future_timestamp', 'teleport'));
@@ -0,0 +1,4 @@
+-- How precisely others may see a user's location; coordinates are stored exactly either way
+alter table public.users
+  add column if not exists location_precision text not null default 'approximate'
+    check (location_precision in ('precise', 'approximate', 'coarse'));
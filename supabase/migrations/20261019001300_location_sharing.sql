@@ -0,0 +1,20 @@
+-- Who may see a user's location beyond explicit shares; nobody unless the user opts in
+alter table public.users
+  add column if not exists location_visibility text not null default 'nobody'
+    check (location_visibility in ('nobody', 'conversations', 'nearby'));
+
+-- Time-limited grants to one user or to everyone in a conversation
+create table if not exists public.location_shares (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references public.users(id) on delete cascade,
+  grantee_id uuid references public.users(id) on delete cascade,
+  conversation_id uuid references public.conversations(id) on delete cascade,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz,
+  check ((grantee_id is null) <> (conversation_id is null))
+);
+
+create index if not exists location_shares_owner_idx
+  on public.location_shares (owner_id, expires_at)
+  where revoked_at is null;
@@ -0,0 +1,45 @@
+-- Retention for location fixes: full resolution until p_downsample_before, then one fix per
+-- user and interval (the most accurate, earliest on ties), and nothing before p_delete_before.
+-- With p_dry_run only the counts are returned.
+create index if not exists locations_recorded_at_idx on public.locations (recorded_at);
+
+create or replace function public.prune_locations(
+  p_downsample_before timestamptz,
+  p_delete_before timestamptz,
+  p_interval_seconds integer,
+  p_dry_run boolean default false
+)
+returns table (downsampled bigint, deleted bigint)
+language plpgsql
+as $$
+declare
+  v_downsampled bigint;
+  v_deleted bigint;
+begin
+  create temporary table pruned_locations on commit drop as
+  select id
+  from (
+    select l.id,
+           row_number() over (
+             partition by l.user_id, floor(extract(epoch from l.recorded_at) / p_interval_seconds)
+             order by l.accuracy asc nulls last, l.recorded_at, l.id
+           ) as rank
+    from public.locations l
+    where l.recorded_at >= p_delete_before
+      and l.recorded_at < p_downsample_before
+  ) ranked
+  where ranked.rank > 1;
+
+  select count(*) into v_downsampled from pruned_locations;
+  select count(*) into v_deleted from public.locations where recorded_at < p_delete_before;
+
+  if not p_dry_run then
+    delete from public.locations where id in (select id from pruned_locations);
+    delete from public.locations where recorded_at < p_delete_before;
+  end if;
+
+  drop table pruned_locations;
+
+  return query select v_downsampled, v_deleted;
+end;
+$$;
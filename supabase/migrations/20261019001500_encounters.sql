@@ -0,0 +1,22 @@
+-- Users can opt out of crossed-paths detection; their fixes are then skipped by the scan
+alter table public.users
+  add column if not exists encounters_enabled boolean not null default true;
+
+-- One row per pair of users who crossed paths (user_a < user_b). Place and time are stored
+-- already bucketed; exact positions stay in locations.
+create table if not exists public.encounters (
+  id uuid primary key default gen_random_uuid(),
+  user_a uuid not null references public.users(id) on delete cascade,
+  user_b uuid not null references public.users(id) on delete cascade,
+  times_crossed integer not null default 1,
+  first_crossed_at timestamptz not null,
+  last_crossed_at timestamptz not null,
+  latitude double precision not null,
+  longitude double precision not null,
+  created_at timestamptz not null default now(),
+  unique (user_a, user_b),
+  check (user_a < user_b)
+);
+
+create index if not exists encounters_user_a_idx on public.encounters (user_a, last_crossed_at);
+create index if not exists encounters_user_b_idx on public.encounters (user_b, last_crossed_at);
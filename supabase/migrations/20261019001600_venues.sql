@@ -0,0 +1,45 @@
+-- Automatic check-in from location updates is opt-in; manual check-ins are always allowed
+alter table public.users
+  add column if not exists venue_auto_check_in boolean not null default false;
+
+-- A venue is a circle (centre + radius) or a polygon ring of [longitude, latitude] pairs.
+-- The bounding box is stored for both so venues around a point are found with plain
+-- range filters; the exact containment test runs in the API.
+create table if not exists public.venues (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  latitude double precision,
+  longitude double precision,
+  radius_meters double precision,
+  polygon jsonb,
+  min_latitude double precision not null,
+  max_latitude double precision not null,
+  min_longitude double precision not null,
+  max_longitude double precision not null,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (
+    (polygon is null and latitude is not null and longitude is not null and radius_meters > 0) or
+    (polygon is not null and latitude is null and longitude is null and radius_meters is null)
+  )
+);
+
+create index if not exists venues_bounds_idx on public.venues (min_latitude, max_latitude, min_longitude, max_longitude);
+
+create table if not exists public.venue_check_ins (
+  id uuid primary key default gen_random_uuid(),
+  venue_id uuid not null references public.venues(id) on delete cascade,
+  user_id uuid not null references public.users(id) on delete cascade,
+  source text not null check (source in ('auto', 'manual')),
+  checked_in_at timestamptz not null default now(),
+  checked_out_at timestamptz,
+  check_out_reason text check (check_out_reason in ('manual', 'left', 'offline'))
+);
+
+-- At most one open check-in per user and venue
+create unique index if not exists venue_check_ins_open_idx
+  on public.venue_check_ins (venue_id, user_id) where checked_out_at is null;
+create index if not exists venue_check_ins_user_open_idx
+  on public.venue_check_ins (user_id) where checked_out_at is null;
+create index if not exists venue_check_ins_people_idx
+  on public.venue_check_ins (venue_id, checked_in_at, id) where checked_out_at is null;
@@ -0,0 +1,25 @@
+-- Messages from someone blocked in either direction are hidden from listings, so they no
+-- longer count as unread either
+create or replace function public.count_unread_messages(p_user_id uuid, p_conversation_ids uuid[])
+returns table (conversation_id uuid, unread_count bigint)
+language sql
+stable
+as $$
+  select cp.conversation_id, count(m.id)
+  from public.conversation_participants cp
+  left join public.messages m
+    on m.conversation_id = cp.conversation_id
+   and m.sender_id <> p_user_id
+   and m.kind = 'user'
+   and (m.expires_at is null or m.expires_at > now())
+   and (cp.last_read_at is null or m.created_at > cp.last_read_at)
+   and not exists (
+     select 1
+     from public.blocks b
+     where (b.blocker_id = p_user_id and b.blocked_id = m.sender_id)
+        or (b.blocker_id = m.sender_id and b.blocked_id = p_user_id)
+   )
+  where cp.user_id = p_user_id
+    and cp.conversation_id = any(p_conversation_ids)
+  group by cp.conversation_id;
+$$;
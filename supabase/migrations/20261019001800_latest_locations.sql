@@ -0,0 +1,12 @@
+-- Latest fix of every user recorded at or after p_since, ordered by user so callers can read it
+-- in ranges. Used to rebuild the in-process nearby index after a restart.
+create or replace function public.latest_locations_since(p_since timestamptz)
+returns setof public.locations
+language sql
+stable
+as $$
+  select distinct on (l.user_id) l.*
+  from public.locations l
+  where l.recorded_at >= p_since
+  order by l.user_id, l.recorded_at desc, l.id desc;
+$$;
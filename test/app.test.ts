@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestApp, TestContext } from './helpers';
+
+describe('app', () => {
+  let ctx: TestContext;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await ctx.close();
+  });
+
+  it('serves the health check without a token', async () => {
+    const res = await ctx.request('nobody', 'GET', '/health');
+    assert.equal(res.status, 200);
+    assert.equal(res.body.status, 'ok');
+  });
+
+  it('refuses authenticated routes without a token', async () => {
+    const res = await ctx.request('nobody', 'GET', '/api/account/profile');
+    assert.equal(res.status, 401);
+  });
+
+  it('reads and updates the caller\'s profile through the repositories', async () => {
+    const update = await ctx.request('alice', 'PATCH', '/api/account/profile', { bio: ' hi ', age: 30 });
+    assert.equal(update.status, 200);
+
+    const res = await ctx.request('alice', 'GET', '/api/account/profile');
+    assert.equal(res.status, 200);
+    assert.equal(res.body.id, ctx.ids.alice);
+    assert.equal(res.body.bio, 'hi');
+    assert.equal(res.body.age, 30);
+  });
+
+  it('validates request bodies against the route schema', async () => {
+    const res = await ctx.request('alice', 'PATCH', '/api/account/profile', { age: 5 });
+    assert.equal(res.status, 400);
+  });
+});
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { acceptedConversation, createTestApp, TestContext } from './helpers';
+
+describe('blocks', () => {
+  let ctx: TestContext;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await ctx.close();
+  });
+
+  it('freezes one-to-one conversations both ways and thaws them on unblock', async () => {
+    const id = await acceptedConversation(ctx, 'alice', 'bob');
+
+    const blocked = await ctx.request('bob', 'POST', '/api/blocks', { blockedUserId: ctx.ids.alice });
+    assert.equal(blocked.status, 200);
+
+    const fromBlocked = await ctx.request('alice', 'POST', `/api/conversations/${id}/messages`, { body: 'hi' });
+    assert.equal(fromBlocked.status, 403);
+    const fromBlocker = await ctx.request('bob', 'POST', `/api/conversations/${id}/messages`, { body: 'hi' });
+    assert.equal(fromBlocker.status, 403);
+
+    const profile = await ctx.request('alice', 'GET', `/api/profile/${ctx.ids.bob}`);
+    assert.equal(profile.status, 403);
+
+    const unblocked = await ctx.request('bob', 'DELETE', `/api/blocks/${ctx.ids.alice}`);
+    assert.equal(unblocked.status, 200);
+
+    const after = await ctx.request('alice', 'POST', `/api/conversations/${id}/messages`, { body: 'hi again' });
+    assert.equal(after.status, 200);
+  });
+
+  it('refuses new conversations and groups with a blocked user', async () => {
+    await acceptedConversation(ctx, 'alice', 'carol');
+    await ctx.request('bob', 'POST', '/api/blocks', { blockedUserId: ctx.ids.alice });
+
+    const direct = await ctx.request('alice', 'POST', '/api/conversations', { participantIds: [ctx.ids.bob] });
+    assert.equal(direct.status, 403);
+
+    const group = await ctx.request('alice', 'POST', '/api/conversations', {
+      participantIds: [ctx.ids.bob, ctx.ids.carol]
+    });
+    assert.equal(group.status, 403);
+  });
+
+  it('refuses a group with two participants who blocked each other', async () => {
+    await acceptedConversation(ctx, 'alice', 'bob');
+    await acceptedConversation(ctx, 'alice', 'carol');
+    await ctx.request('bob', 'POST', '/api/blocks', { blockedUserId: ctx.ids.carol });
+
+    const group = await ctx.request('alice', 'POST', '/api/conversations', {
+      participantIds: [ctx.ids.bob, ctx.ids.carol]
+    });
+    assert.equal(group.status, 403);
+  });
+
+  it('leaves messages from blocked group members out of unread counts', async () => {
+    await acceptedConversation(ctx, 'alice', 'bob');
+    await acceptedConversation(ctx, 'alice', 'carol');
+    const group = await ctx.request('alice', 'POST', '/api/conversations', {
+      participantIds: [ctx.ids.bob, ctx.ids.carol]
+    });
+    const id = group.body.conversationId;
+
+    await ctx.request('alice', 'POST', `/api/conversations/${id}/messages`, { body: 'hello both' });
+    await ctx.request('carol', 'POST', `/api/conversations/${id}/messages`, { body: 'hi bob' });
+    await ctx.request('bob', 'POST', '/api/blocks', { blockedUserId: ctx.ids.carol });
+
+    const list = await ctx.request('bob', 'GET', '/api/conversations');
+    const item = list.body.conversations.find((c: { conversation_id: string }) => c.conversation_id === id);
+    assert.equal(item.unread_count, 1);
+  });
+
+  it('fails closed when blocks cannot be loaded', async () => {
+    const id = await acceptedConversation(ctx, 'alice', 'bob');
+    await ctx.request('bob', 'PUT', '/api/locations/settings', { visibility: 'conversations' });
+    for (const who of ['alice', 'bob']) {
+      await ctx.request(who, 'POST', '/api/locations/batch', {
+        userId: ctx.ids[who],
+        locations: [{ latitude: 52.52, longitude: 13.405, recordedAt: new Date().toISOString() }]
+      });
+    }
+    await ctx.request('bob', 'POST', `/api/conversations/${id}/live-location`, { duration: '1h' });
+
+    ctx.repos.blocks.listInvolving = async () => ({ data: null, error: { message: 'unavailable' } });
+
+    const requests: [string, string, unknown?][] = [
+      ['GET', `/api/profile/${ctx.ids.bob}`],
+      ['GET', `/api/locations/${ctx.ids.bob}`],
+      ['POST', '/api/locations/shares', { userId: ctx.ids.bob, duration: '1h' }],
+      ['GET', '/api/users/nearby?radius=5'],
+      ['GET', `/api/conversations/${id}/live-location`]
+    ];
+
+    for (const [method, url, payload] of requests) {
+      const res = await ctx.request('alice', method, url, payload);
+      assert.equal(res.status, 500, `${method} ${url}`);
+    }
+  });
+
+  it('blocks the sender when declining a request with block, ending their location shares', async () => {
+    const share = await ctx.request('alice', 'POST', '/api/locations/shares', { userId: ctx.ids.bob, duration: '1h' });
+    assert.equal(share.status, 200);
+
+    const created = await ctx.request('alice', 'POST', '/api/conversations', { participantIds: [ctx.ids.bob] });
+    const declined = await ctx.request('bob', 'POST', `/api/conversations/${created.body.conversationId}/decline`, {
+      block: true
+    });
+    assert.equal(declined.status, 200);
+
+    const blocks = await ctx.request('bob', 'GET', '/api/blocks');
+    assert.equal(blocks.status, 200);
+    assert.ok(JSON.stringify(blocks.body).includes(ctx.ids.alice));
+
+    const shares = await ctx.request('alice', 'GET', '/api/locations/shares');
+    assert.ok(!JSON.stringify(shares.body).includes(ctx.ids.bob));
+  });
+});
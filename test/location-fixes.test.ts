@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestApp, TestContext } from './helpers';
+
+describe('location fixes', () => {
+  let ctx: TestContext;
+
+  beforeEach(async () => {
+    ctx = await createTestApp(['alice', 'admin'], { admins: ['admin'] });
+  });
+
+  afterEach(async () => {
+    await ctx.close();
+  });
+
+  it('drops out-of-range fixes and flags the sender', async () => {
+    const recordedAt = new Date().toISOString();
+    const res = await ctx.request('alice', 'POST', '/api/locations/batch', {
+      userId: ctx.ids.alice,
+      locations: [
+        { latitude: 52.52, longitude: 13.405, recordedAt },
+        { latitude: 95, longitude: 13.405, recordedAt }
+      ]
+    });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.inserted, 1);
+    assert.equal(res.body.rejected, 1);
+
+    const { data: user } = await ctx.repos.users.findById(ctx.ids.alice);
+    assert.equal(user?.location_flag_reason, 'out_of_range');
+    assert.ok(user?.location_flagged_until && Date.parse(user.location_flagged_until) > Date.now());
+  });
+
+  it('still validates venue coordinates', async () => {
+    const res = await ctx.request('admin', 'POST', '/api/admin/venues', {
+      name: 'Nowhere',
+      center: { latitude: 95, longitude: 0 },
+      radiusMeters: 100
+    });
+    assert.equal(res.status, 400);
+  });
+});
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestApp, TestContext } from './helpers';
+
+describe('location history', () => {
+  let ctx: TestContext;
+  const from = () => encodeURIComponent(new Date(Date.now() - 60 * 60 * 1000).toISOString());
+
+  const postFixes = (count: number) =>
+    ctx.request('alice', 'POST', '/api/locations/batch', {
+      userId: ctx.ids.alice,
+      locations: Array.from({ length: count }, (_, i) => ({
+        latitude: 52.52 + i * 0.001,
+        longitude: 13.405,
+        recordedAt: new Date(Date.now() - (count - i) * 60 * 1000).toISOString()
+      }))
+    });
+
+  const geoJson = () => ctx.request('alice', 'GET', `/api/locations/history?from=${from()}&format=geojson`);
+
+  beforeEach(async () => {
+    ctx = await createTestApp(['alice']);
+  });
+
+  afterEach(async () => {
+    await ctx.close();
+  });
+
+  it('exports a track as a GeoJSON LineString', async () => {
+    await postFixes(3);
+
+    const res = await geoJson();
+    assert.equal(res.status, 200);
+    assert.equal(res.body.geometry.type, 'LineString');
+    assert.equal(res.body.geometry.coordinates.length, 3);
+    assert.deepEqual(res.body.geometry.coordinates[0], [13.405, 52.52]);
+  });
+
+  it('exports a single fix as a Point and no fixes as an empty collection', async () => {
+    const empty = await geoJson();
+    assert.equal(empty.status, 200);
+    assert.deepEqual(empty.body, { type: 'FeatureCollection', features: [] });
+
+    await postFixes(1);
+    const single = await geoJson();
+    assert.equal(single.body.type, 'Feature');
+    assert.deepEqual(single.body.geometry, { type: 'Point', coordinates: [13.405, 52.52] });
+  });
+});
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { acceptedConversation, createTestApp, TestContext } from './helpers';
+
+describe('location visibility', () => {
+  let ctx: TestContext;
+
+  const postFix = (who: string, latitude = 52.52, longitude = 13.405) =>
+    ctx.request(who, 'POST', '/api/locations/batch', {
+      userId: ctx.ids[who],
+      locations: [{ latitude, longitude, recordedAt: new Date().toISOString() }]
+    });
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+    const posted = await postFix('bob');
+    assert.equal(posted.status, 200);
+  });
+
+  afterEach(async () => {
+    await ctx.close();
+  });
+
+  it('hides the location from everyone by default', async () => {
+    await acceptedConversation(ctx, 'alice', 'bob');
+
+    const res = await ctx.request('alice', 'GET', `/api/locations/${ctx.ids.bob}`);
+    assert.equal(res.status, 403);
+  });
+
+  it('shows it to partners in an accepted one-to-one conversation only', async () => {
+    await ctx.request('bob', 'PUT', '/api/locations/settings', { visibility: 'conversations' });
+
+    const stranger = await ctx.request('alice', 'GET', `/api/locations/${ctx.ids.bob}`);
+    assert.equal(stranger.status, 403);
+
+    // A request bob has not accepted yet is not consent
+    const created = await ctx.request('alice', 'POST', '/api/conversations', { participantIds: [ctx.ids.bob] });
+    const pending = await ctx.request('alice', 'GET', `/api/locations/${ctx.ids.bob}`);
+    assert.equal(pending.status, 403);
+
+    await ctx.request('bob', 'POST', `/api/conversations/${created.body.conversationId}/accept`);
+    const accepted = await ctx.request('alice', 'GET', `/api/locations/${ctx.ids.bob}`);
+    assert.equal(accepted.status, 200);
+    assert.equal(typeof accepted.body.latitude, 'number');
+  });
+
+  it('does not count a group someone else put the owner in', async () => {
+    await ctx.request('bob', 'PUT', '/api/locations/settings', { visibility: 'conversations' });
+    await acceptedConversation(ctx, 'alice', 'bob');
+    await acceptedConversation(ctx, 'alice', 'carol');
+    const group = await ctx.request('alice', 'POST', '/api/conversations', {
+      participantIds: [ctx.ids.bob, ctx.ids.carol]
+    });
+    assert.equal(group.status, 200);
+
+    const res = await ctx.request('carol', 'GET', `/api/locations/${ctx.ids.bob}`);
+    assert.equal(res.status, 403);
+  });
+
+  it('stops showing it once the owner blocks the viewer', async () => {
+    await ctx.request('bob', 'PUT', '/api/locations/settings', { visibility: 'conversations' });
+    await acceptedConversation(ctx, 'alice', 'bob');
+
+    const blocked = await ctx.request('bob', 'POST', '/api/blocks', { blockedUserId: ctx.ids.alice });
+    assert.equal(blocked.status, 200);
+
+    const res = await ctx.request('alice', 'GET', `/api/locations/${ctx.ids.bob}`);
+    assert.equal(res.status, 403);
+  });
+
+  it('fuzzes the location to the owner\'s precision', async () => {
+    await ctx.request('bob', 'PUT', '/api/locations/settings', { visibility: 'conversations', precision: 'coarse' });
+    await acceptedConversation(ctx, 'alice', 'bob');
+
+    const first = await ctx.request('alice', 'GET', `/api/locations/${ctx.ids.bob}`);
+    assert.equal(first.status, 200);
+    assert.equal(first.body.precision, 'coarse');
+    assert.ok(first.body.latitude !== 52.52 || first.body.longitude !== 13.405);
+
+    // The same viewer keeps getting the same point, so repeated reads cannot be averaged out
+    const second = await ctx.request('alice', 'GET', `/api/locations/${ctx.ids.bob}`);
+    assert.deepEqual(
+      [second.body.latitude, second.body.longitude],
+      [first.body.latitude, first.body.longitude]
+    );
+
+    const own = await ctx.request('bob', 'GET', `/api/locations/${ctx.ids.bob}`);
+    assert.deepEqual([own.body.latitude, own.body.longitude], [52.52, 13.405]);
+  });
+});
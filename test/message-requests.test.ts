@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { acceptedConversation, createTestApp, TestContext } from './helpers';
+
+describe('message requests', () => {
+  let ctx: TestContext;
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await ctx.close();
+  });
+
+  it('limits the requester until the request is accepted', async () => {
+    const created = await ctx.request('alice', 'POST', '/api/conversations', { participantIds: [ctx.ids.bob] });
+    assert.equal(created.status, 200);
+    assert.equal(created.body.conversation.request_status, 'pending');
+    const id = created.body.conversationId;
+
+    for (let i = 0; i < 3; i++) {
+      const sent = await ctx.request('alice', 'POST', `/api/conversations/${id}/messages`, { body: `hi ${i}` });
+      assert.equal(sent.status, 200);
+    }
+
+    const over = await ctx.request('alice', 'POST', `/api/conversations/${id}/messages`, { body: 'again' });
+    assert.equal(over.status, 403);
+
+    const reply = await ctx.request('bob', 'POST', `/api/conversations/${id}/messages`, { body: 'who?' });
+    assert.equal(reply.status, 403);
+
+    const requests = await ctx.request('bob', 'GET', '/api/conversations/requests');
+    assert.deepEqual(requests.body.conversations.map((c: { conversation_id: string }) => c.conversation_id), [id]);
+
+    const accepted = await ctx.request('bob', 'POST', `/api/conversations/${id}/accept`);
+    assert.equal(accepted.status, 200);
+
+    const after = await ctx.request('alice', 'POST', `/api/conversations/${id}/messages`, { body: 'thanks' });
+    assert.equal(after.status, 200);
+  });
+
+  it('does not let the requester unsend messages to make room under the limit', async () => {
+    const created = await ctx.request('alice', 'POST', '/api/conversations', { participantIds: [ctx.ids.bob] });
+    const id = created.body.conversationId;
+
+    const sent = await ctx.request('alice', 'POST', `/api/conversations/${id}/messages`, { body: 'hi' });
+    const unsent = await ctx.request('alice', 'DELETE', `/api/conversations/${id}/messages/${sent.body.messageId}`);
+    assert.equal(unsent.status, 400);
+
+    await ctx.request('bob', 'POST', `/api/conversations/${id}/accept`);
+    const afterAccept = await ctx.request('alice', 'DELETE', `/api/conversations/${id}/messages/${sent.body.messageId}`);
+    assert.equal(afterAccept.status, 200);
+  });
+
+  it('refuses a group with someone who never accepted a conversation with the creator', async () => {
+    await acceptedConversation(ctx, 'alice', 'bob');
+
+    const group = await ctx.request('alice', 'POST', '/api/conversations', {
+      participantIds: [ctx.ids.bob, ctx.ids.carol]
+    });
+    assert.equal(group.status, 403);
+
+    // A request the other side has not accepted is not enough either
+    await ctx.request('alice', 'POST', '/api/conversations', { participantIds: [ctx.ids.carol] });
+    const stillPending = await ctx.request('alice', 'POST', '/api/conversations', {
+      participantIds: [ctx.ids.bob, ctx.ids.carol]
+    });
+    assert.equal(stillPending.status, 403);
+
+    const carolInbox = await ctx.request('carol', 'GET', '/api/conversations');
+    assert.equal(carolInbox.body.conversations.length, 0);
+  });
+
+  it('creates a group among accepted contacts', async () => {
+    await acceptedConversation(ctx, 'alice', 'bob');
+    await acceptedConversation(ctx, 'carol', 'alice');
+
+    const group = await ctx.request('alice', 'POST', '/api/conversations', {
+      participantIds: [ctx.ids.bob, ctx.ids.carol]
+    });
+    assert.equal(group.status, 200);
+    assert.equal(group.body.conversation.is_group, true);
+  });
+
+  it('checks every group member\'s conversations in one lookup', async () => {
+    for (const other of ['bob', 'carol', 'dave']) {
+      await acceptedConversation(ctx, 'alice', other);
+    }
+
+    const conversations = ctx.repos.conversations;
+    const listParticipationsOf = conversations.listParticipationsOf.bind(conversations);
+    const findById = conversations.findById.bind(conversations);
+    let participationLookups = 0;
+    let conversationLookups = 0;
+    conversations.listParticipationsOf = (userIds) => {
+      participationLookups++;
+      return listParticipationsOf(userIds);
+    };
+    conversations.findById = (id) => {
+      conversationLookups++;
+      return findById(id);
+    };
+
+    const group = await ctx.request('alice', 'POST', '/api/conversations', {
+      participantIds: [ctx.ids.bob, ctx.ids.carol, ctx.ids.dave]
+    });
+    assert.equal(group.status, 200);
+    assert.equal(participationLookups, 1);
+    assert.equal(conversationLookups, 0);
+  });
+
+  it('refuses adding someone to a group who never accepted a conversation with the adder', async () => {
+    await acceptedConversation(ctx, 'alice', 'bob');
+    await acceptedConversation(ctx, 'alice', 'carol');
+    const group = await ctx.request('alice', 'POST', '/api/conversations', {
+      participantIds: [ctx.ids.bob, ctx.ids.carol]
+    });
+    const id = group.body.conversationId;
+
+    const stranger = await ctx.request('alice', 'POST', `/api/conversations/${id}/participants`, {
+      userIds: [ctx.ids.dave]
+    });
+    assert.equal(stranger.status, 403);
+
+    await acceptedConversation(ctx, 'alice', 'dave');
+    const contact = await ctx.request('alice', 'POST', `/api/conversations/${id}/participants`, {
+      userIds: [ctx.ids.dave]
+    });
+    assert.equal(contact.status, 200);
+  });
+});
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { acceptedConversation, createTestApp, TestContext } from './helpers';
+
+describe('message pages', () => {
+  let ctx: TestContext;
+  let id: string;
+
+  const page = (query: string) => ctx.request('alice', 'GET', `/api/conversations/${id}/messages?${query}`);
+  const bodies = (res: { body: { messages: { body: string }[] } }) => res.body.messages.map(m => m.body);
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+    id = await acceptedConversation(ctx, 'alice', 'bob');
+    for (let i = 1; i <= 5; i++) {
+      await ctx.request(i % 2 ? 'alice' : 'bob', 'POST', `/api/conversations/${id}/messages`, { body: `m${i}` });
+    }
+  });
+
+  afterEach(async () => {
+    await ctx.close();
+  });
+
+  it('walks back from the latest page without gaps or repeats', async () => {
+    const latest = await page('limit=2');
+    assert.equal(latest.status, 200);
+    assert.deepEqual(bodies(latest), ['m4', 'm5']);
+
+    const older = await page(`limit=2&before=${latest.body.nextCursor}`);
+    assert.deepEqual(bodies(older), ['m2', 'm3']);
+
+    const oldest = await page(`limit=2&before=${older.body.nextCursor}`);
+    assert.deepEqual(bodies(oldest), ['m1']);
+    assert.equal(oldest.body.nextCursor, null);
+  });
+
+  it('walks forward with after', async () => {
+    const first = await page('limit=3&after=' + Buffer.from(`${new Date(0).toISOString()}|0`).toString('base64url'));
+    assert.equal(first.status, 200);
+    assert.deepEqual(bodies(first), ['m1', 'm2', 'm3']);
+
+    const next = await page(`limit=3&after=${first.body.nextCursor}`);
+    assert.deepEqual(bodies(next), ['m4', 'm5']);
+    assert.equal(next.body.nextCursor, null);
+  });
+
+  it('rejects bad cursors and outsiders', async () => {
+    assert.equal((await page('before=not-a-cursor')).status, 400);
+
+    const latest = await page('limit=2');
+    const cursor = latest.body.nextCursor;
+    assert.equal((await page(`before=${cursor}&after=${cursor}`)).status, 400);
+
+    const outsider = await ctx.request('carol', 'GET', `/api/conversations/${id}/messages?before=${cursor}`);
+    assert.equal(outsider.status, 403);
+  });
+});
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestApp, TestContext } from './helpers';
+
+describe('nearby', () => {
+  let ctx: TestContext;
+
+  const postFix = (who: string, latitude: number, longitude: number) =>
+    ctx.request(who, 'POST', '/api/locations/batch', {
+      userId: ctx.ids[who],
+      locations: [{ latitude, longitude, recordedAt: new Date().toISOString() }]
+    });
+
+  const ids = (res: { body: { users: { id: string }[] } }) => res.body.users.map(u => u.id);
+
+  beforeEach(async () => {
+    ctx = await createTestApp(['alice', 'bob', 'carol', 'dave', 'erin']);
+    await postFix('alice', 52.52, 13.405);
+    await postFix('bob', 52.521, 13.406);
+    await postFix('carol', 52.523, 13.41);
+    await postFix('dave', 52.53, 13.42);
+    await ctx.request('bob', 'PATCH', '/api/account/profile', { gender: 'feminine', age: 30 });
+    await ctx.request('carol', 'PATCH', '/api/account/profile', { gender: 'masculine', age: 40 });
+  });
+
+  afterEach(async () => {
+    await ctx.close();
+  });
+
+  it('rebuilds the index from stored fixes when the app starts', async () => {
+    const restarted = await createTestApp(['alice', 'bob', 'carol']);
+    const at = (secondsAgo: number) => new Date(Date.now() - secondsAgo * 1000).toISOString();
+    const fix = (who: string, latitude: number, longitude: number, secondsAgo: number) => ({
+      user_id: restarted.ids[who],
+      latitude,
+      longitude,
+      recorded_at: at(secondsAgo),
+      created_at: at(secondsAgo)
+    });
+
+    // Only bob's latest fix counts: he has since left Munich for Berlin
+    await restarted.repos.locations.insertMany([
+      fix('alice', 52.52, 13.405, 5),
+      fix('bob', 48.137, 11.575, 30),
+      fix('bob', 52.521, 13.406, 10),
+      fix('carol', 48.137, 11.575, 15)
+    ]);
+
+    try {
+      const res = await restarted.request('alice', 'GET', '/api/users/nearby?radius=5');
+      assert.equal(res.status, 200);
+      assert.deepEqual(ids(res), [restarted.ids.bob]);
+    } finally {
+      await restarted.close();
+    }
+  });
+
+  it('applies filters before paging', async () => {
+    const byGender = await ctx.request('alice', 'GET', '/api/users/nearby?radius=5&gender=feminine');
+    assert.equal(byGender.status, 200);
+    assert.deepEqual(ids(byGender), [ctx.ids.bob]);
+
+    const byAge = await ctx.request('alice', 'GET', '/api/users/nearby?radius=5&minAge=35');
+    assert.deepEqual(ids(byAge), [ctx.ids.carol]);
+
+    const either = await ctx.request('alice', 'GET', '/api/users/nearby?radius=5&gender=feminine&gender=masculine');
+    assert.deepEqual(new Set(ids(either)), new Set([ctx.ids.bob, ctx.ids.carol]));
+  });
+
+  it('buckets distances instead of returning them', async () => {
+    const res = await ctx.request('alice', 'GET', '/api/users/nearby?radius=5');
+    assert.equal(res.status, 200);
+    res.body.users.forEach((u: { distance: string }) => assert.match(u.distance, /^(<|~)/));
+    assert.ok(!ids(res).includes(ctx.ids.erin));
+  });
+
+  it('pages through every match once with cursors only the caller can use', async () => {
+    const seen: string[] = [];
+    const url = '/api/users/nearby?radius=5&limit=1';
+    let cursor: string | null = null;
+
+    do {
+      const res = await ctx.request('alice', 'GET', cursor ? `${url}&cursor=${encodeURIComponent(cursor)}` : url);
+      assert.equal(res.status, 200);
+      seen.push(...ids(res));
+      cursor = res.body.nextCursor;
+      if (cursor && seen.length === 1) {
+        const stolen = await ctx.request('bob', 'GET', `${url}&cursor=${encodeURIComponent(cursor)}`);
+        assert.equal(stolen.status, 400);
+
+        const otherSort = await ctx.request('alice', 'GET', `${url}&sort=blended&cursor=${encodeURIComponent(cursor)}`);
+        assert.equal(otherSort.status, 400);
+      }
+    } while (cursor);
+
+    assert.deepEqual([...seen].sort(), [ctx.ids.bob, ctx.ids.carol, ctx.ids.dave].sort());
+
+    const forged = await ctx.request('alice', 'GET', `${url}&cursor=${'A'.repeat(40)}`);
+    assert.equal(forged.status, 400);
+  });
+});
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { nearbyChannel, presenceChannel } from '../src/lib/realtime';
+import { createTestApp, sign, TestContext } from './helpers';
+
+interface Socket {
+  events: any[];
+  send(message: object): void;
+  // Resolves with the first message matching `predicate` from the `from`-th message on
+  next(predicate: (message: any) => boolean, from?: number): Promise<any>;
+  // Resolves once everything the server sent before this call has arrived
+  flush(): Promise<void>;
+  close(): void;
+}
+
+describe('realtime', () => {
+  let ctx: TestContext;
+  let sockets: Socket[];
+
+  const connect = async (who: string): Promise<Socket> => {
+    const token = await sign(ctx.ids[who]);
+    const ws = await ctx.app.injectWS(`/api/realtime?access_token=${token}`);
+    const events: any[] = [];
+    const waiters: { predicate: (message: any) => boolean; resolve: (message: any) => void }[] = [];
+
+    ws.on('message', (raw) => {
+      const message = JSON.parse(raw.toString());
+      events.push(message);
+      waiters.filter(w => w.predicate(message)).forEach(w => {
+        waiters.splice(waiters.indexOf(w), 1);
+        w.resolve(message);
+      });
+    });
+
+    const socket: Socket = {
+      events,
+      send: (message) => ws.send(JSON.stringify(message)),
+      next: (predicate, from = 0) => {
+        const seen = events.slice(from).find(predicate);
+        return seen ? Promise.resolve(seen) : new Promise(resolve => waiters.push({ predicate, resolve }));
+      },
+      async flush() {
+        const from = events.length;
+        socket.send({ type: 'ping' });
+        await socket.next(m => m.type === 'pong', from);
+      },
+      close: () => ws.terminate()
+    };
+    sockets.push(socket);
+    return socket;
+  };
+
+  const subscribe = async (socket: Socket, channel: string) => {
+    const from = socket.events.length;
+    socket.send({ type: 'subscribe', channel });
+    return socket.next(m => m.channel === channel && (m.type === 'subscribed' || m.type === 'error'), from);
+  };
+
+  const postFix = (who: string) =>
+    ctx.request(who, 'POST', '/api/locations/batch', {
+      userId: ctx.ids[who],
+      locations: [{ latitude: 52.52, longitude: 13.405, recordedAt: new Date().toISOString() }]
+    });
+
+  beforeEach(async () => {
+    ctx = await createTestApp();
+    await ctx.app.ready();
+    sockets = [];
+  });
+
+  afterEach(async () => {
+    sockets.forEach(s => s.close());
+    await ctx.close();
+  });
+
+  it('only tells people the owner shares with about location updates', async () => {
+    const alice = await connect('alice');
+    const subscribed = await subscribe(alice, presenceChannel(ctx.ids.bob));
+    assert.equal(subscribed.type, 'subscribed');
+
+    await postFix('bob');
+    await alice.flush();
+    assert.ok(!alice.events.some(e => e.event === 'location.updated'));
+
+    const share = await ctx.request('bob', 'POST', '/api/locations/shares', { userId: ctx.ids.alice, duration: '1h' });
+    assert.equal(share.status, 200);
+
+    await postFix('bob');
+    const updated = await alice.next(e => e.event === 'location.updated');
+    assert.equal(updated.data.userId, ctx.ids.bob);
+  });
+
+  it('refuses channels other than the caller\'s own and presence', async () => {
+    const alice = await connect('alice');
+    const conversationId = (await ctx.request('alice', 'POST', '/api/conversations', {
+      participantIds: [ctx.ids.bob]
+    })).body.conversationId;
+
+    assert.equal((await subscribe(alice, `conversation:${conversationId}`)).type, 'error');
+    assert.equal((await subscribe(alice, `user:${ctx.ids.bob}`)).type, 'error');
+    assert.equal((await subscribe(alice, `user:${ctx.ids.alice}`)).type, 'subscribed');
+  });
+
+  it('drops presence subscriptions between users once one blocks the other', async () => {
+    const alice = await connect('alice');
+    const bob = await connect('bob');
+    await subscribe(alice, presenceChannel(ctx.ids.bob));
+    await subscribe(bob, presenceChannel(ctx.ids.alice));
+
+    const blocked = await ctx.request('bob', 'POST', '/api/blocks', { blockedUserId: ctx.ids.alice });
+    assert.equal(blocked.status, 200);
+
+    assert.equal(ctx.app.realtime.subscriberCount(presenceChannel(ctx.ids.bob)), 0);
+    assert.equal(ctx.app.realtime.subscriberCount(presenceChannel(ctx.ids.alice)), 0);
+
+    // Silently: the blocked user's socket is not told
+    await alice.flush();
+    assert.ok(!alice.events.some(e => e.type === 'unsubscribed' || e.event?.startsWith('realtime.')));
+
+    const again = await subscribe(alice, presenceChannel(ctx.ids.bob));
+    assert.equal(again.type, 'error');
+  });
+
+  it('hints nearby subscribers to refetch when someone they could see moves, unless blocked', async () => {
+    const alice = await connect('alice');
+    assert.equal((await subscribe(alice, nearbyChannel(ctx.ids.bob))).type, 'error');
+    assert.equal((await subscribe(alice, nearbyChannel(ctx.ids.alice))).type, 'subscribed');
+    await postFix('alice');
+
+    const from = alice.events.length;
+    await postFix('bob');
+    const changed = await alice.next(e => e.event === 'nearby.changed', from);
+    assert.ok(!JSON.stringify(changed).includes(ctx.ids.bob));
+
+    await ctx.request('carol', 'POST', '/api/blocks', { blockedUserId: ctx.ids.alice });
+    const afterBlock = alice.events.length;
+    await postFix('carol');
+    await alice.flush();
+    assert.ok(!alice.events.slice(afterBlock).some(e => e.event === 'nearby.changed'));
+  });
+});
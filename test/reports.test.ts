@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { acceptedConversation, createTestApp, TestContext } from './helpers';
+
+describe('reports', () => {
+  let ctx: TestContext;
+
+  const send = async (who: string, id: string, body: string): Promise<string> =>
+    (await ctx.request(who, 'POST', `/api/conversations/${id}/messages`, { body })).body.messageId;
+
+  beforeEach(async () => {
+    ctx = await createTestApp(['admin', 'alice', 'bob', 'carol'], { admins: ['admin'] });
+  });
+
+  afterEach(async () => {
+    await ctx.close();
+  });
+
+  it('snapshots messages the reported user sent in a shared conversation', async () => {
+    const id = await acceptedConversation(ctx, 'alice', 'bob');
+    const messageId = await send('bob', id, 'something nasty');
+
+    const report = await ctx.request('alice', 'POST', '/api/reports', {
+      reportedUserId: ctx.ids.bob,
+      category: 'harassment',
+      conversationId: id,
+      messageIds: [messageId]
+    });
+    assert.equal(report.status, 200);
+
+    const detail = await ctx.request('admin', 'GET', `/api/admin/reports/${report.body.reportId}`);
+    assert.equal(detail.status, 200);
+    assert.deepEqual(detail.body.messages.map((m: { body: string }) => m.body), ['something nasty']);
+  });
+
+  it('refuses to cite a conversation the reported user is not in', async () => {
+    const id = await acceptedConversation(ctx, 'alice', 'carol');
+    const messageId = await send('carol', id, 'unrelated');
+
+    const res = await ctx.request('alice', 'POST', '/api/reports', {
+      reportedUserId: ctx.ids.bob,
+      category: 'harassment',
+      conversationId: id,
+      messageIds: [messageId]
+    });
+    assert.equal(res.status, 400);
+  });
+
+  it('refuses to cite messages someone else sent', async () => {
+    await acceptedConversation(ctx, 'alice', 'bob');
+    await acceptedConversation(ctx, 'alice', 'carol');
+    const group = await ctx.request('alice', 'POST', '/api/conversations', {
+      participantIds: [ctx.ids.bob, ctx.ids.carol]
+    });
+    const id = group.body.conversationId;
+    const fromBob = await send('bob', id, 'from bob');
+    const fromCarol = await send('carol', id, 'from carol');
+
+    const res = await ctx.request('alice', 'POST', '/api/reports', {
+      reportedUserId: ctx.ids.bob,
+      category: 'harassment',
+      conversationId: id,
+      messageIds: [fromBob, fromCarol]
+    });
+    assert.equal(res.status, 400);
+  });
+});
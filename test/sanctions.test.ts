@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestApp, TestContext } from './helpers';
+
+describe('sanctions', () => {
+  let ctx: TestContext;
+
+  const sanction = (kind: string, expiresAt?: string) =>
+    ctx.request('admin', 'POST', `/api/admin/users/${ctx.ids.bob}/sanctions`, { kind, reason: 'spam', expiresAt });
+
+  beforeEach(async () => {
+    ctx = await createTestApp(['admin', 'alice', 'bob'], { admins: ['admin'] });
+  });
+
+  afterEach(async () => {
+    await ctx.close();
+  });
+
+  it('keeps admin routes to admins', async () => {
+    const res = await ctx.request('alice', 'POST', `/api/admin/users/${ctx.ids.bob}/sanctions`, {
+      kind: 'ban',
+      reason: 'spam'
+    });
+    assert.equal(res.status, 403);
+
+    const profile = await ctx.request('bob', 'GET', '/api/account/profile');
+    assert.equal(profile.status, 200);
+  });
+
+  it('refuses every authenticated route while a suspension lasts, until it is lifted', async () => {
+    const created = await sanction('suspend', new Date(Date.now() + 60 * 60 * 1000).toISOString());
+    assert.equal(created.status, 200);
+
+    const profile = await ctx.request('bob', 'GET', '/api/account/profile');
+    assert.equal(profile.status, 403);
+    assert.equal(profile.body.error, 'Account suspended');
+
+    const send = await ctx.request('bob', 'POST', '/api/conversations', { participantIds: [ctx.ids.alice] });
+    assert.equal(send.status, 403);
+
+    const lifted = await ctx.request('admin', 'DELETE', `/api/admin/sanctions/${created.body.id}`);
+    assert.equal(lifted.status, 200);
+
+    const after = await ctx.request('bob', 'GET', '/api/account/profile');
+    assert.equal(after.status, 200);
+  });
+
+  it('requires an expiry for suspensions', async () => {
+    const res = await sanction('suspend');
+    assert.equal(res.status, 400);
+  });
+
+  it('refuses a banned account and leaves a warned one alone', async () => {
+    await sanction('warn');
+    const warned = await ctx.request('bob', 'GET', '/api/account/profile');
+    assert.equal(warned.status, 200);
+
+    await sanction('ban');
+    const banned = await ctx.request('bob', 'GET', '/api/account/profile');
+    assert.equal(banned.status, 403);
+    assert.equal(banned.body.error, 'Account banned');
+  });
+});